@@ -1,144 +1,394 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
-import type { ChangeEvent, MouseEvent as ReactMouseEvent } from 'react'
+import { flushSync } from 'react-dom'
+import type {
+  CSSProperties,
+  ChangeEvent,
+  FocusEvent as ReactFocusEvent,
+  KeyboardEvent as ReactKeyboardEvent,
+  MouseEvent as ReactMouseEvent,
+} from 'react'
 import './App.css'
-
-const NOTE_ROWS = [
-  { id: 'hh', name: 'Hi-hat', row: 0, shape: 'x', stem: 'up' },
-  { id: 'sn', name: 'Snare', row: 4, shape: 'circle', stem: 'up' },
-  { id: 'ht', name: 'High tom', row: 5, shape: 'circle', stem: 'up' },
-  { id: 'bd', name: 'Kick', row: 8, shape: 'circle', stem: 'down' },
-] as const
-
-type NoteRow = (typeof NOTE_ROWS)[number]
-type NoteRowId = NoteRow['id']
-
-type MeasureNote = {
-  column: number
-  rowId: NoteRowId
-  duration: number
-}
-
-type Measure = {
-  subdivisions: number
-  notes: MeasureNote[]
-}
+import AudioExportPanel from './AudioExportPanel'
+import SheetLibrary from './SheetLibrary'
+import MidiExportPanel from './MidiExportPanel'
+import DrumTabPanel from './DrumTabPanel'
+import FeelPanel from './FeelPanel'
+import GroovePanel from './GroovePanel'
+import MidiImportPanel from './MidiImportPanel'
+import MixerPanel from './MixerPanel'
+import ScoreExportPanel from './ScoreExportPanel'
+import SongFormPanel from './SongFormPanel'
+import TempoMarkControl from './TempoMarkControl'
+import { PrintableScore } from './ScoreDocument'
+import NoteHead from './NoteHead'
+import { AudioExportError, exportSheetToWav } from './audioExport'
+import type { AudioExportOptions } from './audioExport'
+import { downloadBlob, toFileStem } from './download'
+import {
+  SampleLoadError,
+  createDefaultMixer,
+  loadMixerSettings,
+  loadVoiceLayers,
+  saveMixerSettings,
+} from './drumKit'
+import type { KitSamples, MixerSettings, VoiceMix } from './drumKit'
+import { NoteChord, NoteRest, StaffNotation } from './Notation'
+import { engraveChord } from './engraving'
+import { sectionStart } from './feel'
+import { generateGrooves, patternNotes } from './grooves'
+import type { GeneratorOptions, GroovePattern } from './grooves'
+import {
+  ENTRY_MODES,
+  changeTimeSignature,
+  findNote,
+  findRest,
+  gridColumns,
+  gridStepsFor,
+  insertNote,
+  insertRest,
+  snapColumn,
+  toggleArticulation,
+  toggleNote,
+  toggleRest,
+} from './measureEditing'
+import type { EntryMode } from './measureEditing'
+import { GM_DRUM_PITCHES, loadDrumPitchMap, saveDrumPitchMap } from './midiDrumMap'
+import type { DrumPitchMap } from './midiDrumMap'
+import { exportSheetToMidi } from './midiExport'
+import { MidiFormatError } from './midiFile'
+import { describeImportReport, importMidi } from './midiImport'
+import { sheetToMusicXml } from './musicXml'
+import { DrumTabError, describeTabDiagnostics, formatDrumTab, parseDrumTab } from './drumTab'
+import type { QuantizeSteps } from './midiImport'
+import { COUNT_IN_OPTIONS, METRONOME_MODES, startPlaybackScheduler } from './playbackScheduler'
+import type {
+  CountInBars,
+  MetronomeMode,
+  PlaybackPosition,
+  PlaybackScheduler,
+  PracticeSettings,
+} from './playbackScheduler'
+import {
+  ARTICULATIONS,
+  DEFAULT_TITLE,
+  DURATION_MODIFIERS,
+  COMMON_TIME,
+  NOTE_ROWS,
+  NOTE_VALUES,
+  STEPS_PER_SIXTEENTH,
+  TEMPO,
+  TIME_SIGNATURE_PRESETS,
+  beatLengths,
+  createEmptyMeasure,
+  createEmptySheet,
+  durationFor,
+  formatTimeSignature,
+  isOffMeter,
+  rowsById,
+  sameTimeSignature,
+  sortVoices,
+  stepsForTimeSignature,
+  supportsArticulation,
+  voicesInUse,
+} from './sheet'
+import type {
+  Articulation,
+  DrumSheet,
+  DurationModifier,
+  Humanize,
+  Measure,
+  MeasureForm,
+  MeasureNote,
+  MeasureRange,
+  NoteRow,
+  NoteRowId,
+  NoteValueId,
+  StemDirection,
+  Swing,
+  TempoMark,
+} from './sheet'
+import { ScoreExportError, renderScorePng, renderScoreSvg } from './scoreExport'
+import { SHEET_FILE_EXTENSION, SheetFormatError, parseSheet, serializeSheet } from './sheetFormat'
+import {
+  SheetStorageError,
+  createSheetId,
+  deleteLibrarySheet,
+  duplicateLibrarySheet,
+  markSheetOpened,
+  readStoredSheet,
+  renameLibrarySheet,
+  restoreLastSession,
+  saveLibrarySheet,
+  serializeForStorage,
+} from './sheetLibrary'
+import type { LibraryEntry } from './sheetLibrary'
+import { ShareLinkError, decodeSheetLink, readSheetHash, sheetLinkFor } from './shareLink'
+import { withForm } from './songForm'
+import {
+  COLUMN_STEP,
+  HALF_GAP,
+  STAFF,
+  beatLabelY,
+  computeRowWidth,
+  gridBottomY,
+  gridTopY,
+  layoutRows,
+  measureOffsetsFor,
+  notateRow,
+  noteStep,
+  staffHeight,
+  xForColumnInRow,
+  yForRow,
+} from './staffLayout'
+import {
+  clampCursor,
+  describeBeatPosition,
+  describeColumnContents,
+  jumpMeasures,
+  measureEdge,
+  stepCursor,
+  stepVoice,
+} from './staffCursor'
+import type { StaffCursor } from './staffCursor'
+import {
+  DUPLICATE_OPTIONS,
+  copyMeasures,
+  deleteMeasures,
+  duplicateMeasures,
+  insertMeasures,
+  moveMeasures,
+  overwriteMeasures,
+  rangeBetween,
+  rangeLength,
+} from './measureRanges'
+import { measureTempos, rampLabel } from './timing'
+import { useSheetHistory } from './useSheetHistory'
+import type { CommitOptions } from './useSheetHistory'
 
 type HoverSlot = {
   measureIndex: number
   column: number
   columnInMeasure: number
-  rowId: NoteRowId
   duration: number
   rowStart: number
-}
+  removes: boolean
+} & (
+  | { kind: 'note'; rowId: NoteRowId; articulation?: Articulation }
+  | { kind: 'rest'; stem: StemDirection }
+)
 
-const STAFF = {
-  width: 920,
-  paddingX: 72,
-  paddingY: 48,
-  lineSpacing: 28,
-  lines: 5,
-  subdivisions: 16,
-  beats: 4,
-} as const
-
-const DEFAULT_SUBDIVISIONS = STAFF.subdivisions
-const MEASURES_PER_ROW = 4
-const TEMPO = { min: 60, max: 180, default: 110 } as const
-
-const baseContentWidth = STAFF.width - STAFF.paddingX * 2
-const COLUMN_STEP = baseContentWidth / (STAFF.subdivisions - 1)
-const topLineY = STAFF.paddingY
-const noteStep = STAFF.lineSpacing / 2
-const staffHeight =
-  STAFF.paddingY * 2 + STAFF.lineSpacing * (STAFF.lines - 1)
+const AUTOSAVE_DELAY_MS = 800
 
 const MAX_HOVER_DISTANCE = noteStep * 1.25
 
-const rowsById = new Map<NoteRowId, NoteRow>()
-const rowOrder = new Map<NoteRowId, number>()
-NOTE_ROWS.forEach((row, index) => {
-  rowsById.set(row.id, row)
-  rowOrder.set(row.id, index)
-})
-
-const DURATION_OPTIONS = [
-  { value: 1, label: 'Sixteenth', symbol: '♬' },
-  { value: 2, label: 'Eighth', symbol: '♪' },
-] as const
-
-type DurationOption = (typeof DURATION_OPTIONS)[number]
-
-type StoppableNode = AudioScheduledSourceNode
-
-const xForColumnInRow = (column: number, rowStart: number) =>
-  STAFF.paddingX + (column - rowStart) * COLUMN_STEP
-const yForRow = (row: number) => topLineY + (row - 1) * noteStep
-
-const computeRowWidth = (subdivisions: number) =>
-  STAFF.paddingX * 2 + COLUMN_STEP * Math.max(subdivisions - 1, 0)
+const describeStorageError = (error: unknown) =>
+  error instanceof SheetStorageError ? error.message : 'Saving to browser storage failed.'
 
 function App() {
-  const [measures, setMeasures] = useState<Measure[]>([
-    { subdivisions: DEFAULT_SUBDIVISIONS, notes: [] },
-  ])
-  const [currentMeasure, setCurrentMeasure] = useState(0)
-  const [clipboard, setClipboard] = useState<Measure | null>(null)
+  const [initialSession] = useState(restoreLastSession)
+  const [sheetId, setSheetId] = useState(initialSession.id)
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>(initialSession.entries)
+  const [storageError, setStorageError] = useState<string | null>(null)
+  const {
+    sheet,
+    commit,
+    undo,
+    redo,
+    reset: resetHistory,
+    undoLabel,
+    redoLabel,
+  } = useSheetHistory(initialSession.sheet)
+  const { title, tempo, voices, measures, feel } = sheet
+  const [selectedMeasure, setCurrentMeasure] = useState(0)
+  const [clipboard, setClipboard] = useState<Measure[]>([])
+  // The other end of a measure selection; the current measure is always one
+  // end, and null selects the current measure alone.
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null)
+  const [duplicateCount, setDuplicateCount] = useState<number>(1)
   const [hoverSlot, setHoverSlot] = useState<HoverSlot | null>(null)
+  const [cursor, setCursor] = useState<StaffCursor>({ measureIndex: 0, column: 0, rowId: 'sn' })
+  // The cursor is drawn while the staff has focus from the keyboard, and
+  // hidden again as soon as the pointer takes over.
+  const [keyboardActive, setKeyboardActive] = useState(false)
+  const [announcement, setAnnouncement] = useState('')
   const [zoom, setZoom] = useState(1.45)
-  const [selectedDuration, setSelectedDuration] = useState<DurationOption['value']>(1)
-  const [tempo, setTempo] = useState<number>(TEMPO.default)
+  const [preferredVoices, setPreferredVoices] = useState<Partial<Record<number, NoteRowId>>>({})
+  const [entryMode, setEntryMode] = useState<EntryMode>('toggle')
+  const [selectedNoteValue, setSelectedNoteValue] = useState<NoteValueId>('sixteenth')
+  const [selectedModifier, setSelectedModifier] = useState<DurationModifier>('plain')
+  const [restMode, setRestMode] = useState(false)
+  const [selectedArticulation, setSelectedArticulation] = useState<Articulation | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
+  const [playhead, setPlayhead] = useState<PlaybackPosition | null>(null)
+  const [practice, setPractice] = useState<PracticeSettings>({
+    loop: false,
+    range: { start: 0, end: 0 },
+    countInBars: 0,
+    metronome: 'off',
+  })
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [importReport, setImportReport] = useState<string[] | null>(null)
+  const [printing, setPrinting] = useState(false)
+  const [renderingAudio, setRenderingAudio] = useState(false)
+  const [pitchMap, setPitchMap] = useState<DrumPitchMap>(loadDrumPitchMap)
+  const [mixer, setMixer] = useState<MixerSettings>(loadMixerSettings)
+  const [samples, setSamples] = useState<KitSamples>({})
+  const [loadingVoice, setLoadingVoice] = useState<NoteRowId | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const kit = useMemo(() => ({ mixer, samples }), [mixer, samples])
 
   const audioContextRef = useRef<AudioContext | null>(null)
-  const scheduledStopRef = useRef<number | null>(null)
-  const playingNodesRef = useRef<StoppableNode[]>([])
-  const noiseBufferRef = useRef<AudioBuffer | null>(null)
-
-  const measureOffsets = useMemo(() => {
-    const offsets: Array<{ start: number; subdivisions: number }> = []
-    let cursor = 0
-    measures.forEach((measure) => {
-      offsets.push({ start: cursor, subdivisions: measure.subdivisions })
-      cursor += measure.subdivisions
-    })
-    return offsets
-  }, [measures])
-
-  const rows = useMemo(() => {
-    if (measures.length === 0) {
-      return [] as Array<{
-        rowIndex: number
-        start: number
-        subdivisions: number
-        measureStartIndex: number
-        measureCount: number
-      }>
-    }
-
-    const result: Array<{
-      rowIndex: number
-      start: number
-      subdivisions: number
-      measureStartIndex: number
-      measureCount: number
-    }> = []
-
-    for (let measureStartIndex = 0; measureStartIndex < measures.length; measureStartIndex += MEASURES_PER_ROW) {
-      const slice = measures.slice(measureStartIndex, measureStartIndex + MEASURES_PER_ROW)
-      const start = measureOffsets[measureStartIndex]?.start ?? 0
-      const subdivisions = slice.reduce((total, measure) => total + measure.subdivisions, 0)
-      result.push({
-        rowIndex: result.length,
-        start,
-        subdivisions,
-        measureStartIndex,
-        measureCount: slice.length,
-      })
+  const schedulerRef = useRef<PlaybackScheduler | null>(null)
+  const playbackSheetRef = useRef({ tempo, feel, measures, practice, kit })
+  const rowRefs = useRef<Array<HTMLDivElement | null>>([])
+  const dragRef = useRef<{ measureIndex: number; moved: boolean } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const lastSavedRef = useRef<string | null>(null)
+  const flushAutosaveRef = useRef<(() => void) | null>(null)
+  const openLinkedSheetRef = useRef<((linked: DrumSheet) => void) | null>(null)
+
+  // Undo can remove measures, so keep the selection inside the sheet.
+  const currentMeasure = Math.min(selectedMeasure, measures.length - 1)
+
+  const currentSheet = useMemo<DrumSheet>(
+    () => ({ title: title.trim() || DEFAULT_TITLE, tempo, voices, measures, feel }),
+    [feel, measures, tempo, title, voices],
+  )
+
+  const updateMeasures = (
+    label: string,
+    update: (current: Measure[]) => Measure[],
+    options?: CommitOptions,
+  ) => {
+    commit(
+      label,
+      (current) => {
+        const next = update(current.measures)
+        const unchanged =
+          next.length === current.measures.length &&
+          next.every((measure, index) => measure === current.measures[index])
+        return unchanged ? current : { ...current, measures: next }
+      },
+      options,
+    )
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+        return
+      }
+      const target = event.target as HTMLElement | null
+      // Leave text fields to their native undo.
+      if (target?.closest('input[type="text"], textarea, [contenteditable="true"]')) {
+        return
+      }
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
+      }
     }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [redo, undo])
 
-    return result
-  }, [measureOffsets, measures])
+  useEffect(() => {
+    const save = () => {
+      flushAutosaveRef.current = null
+      const snapshot = `${sheetId}:${serializeForStorage(currentSheet)}`
+      if (snapshot === lastSavedRef.current) {
+        return
+      }
+      try {
+        setLibraryEntries(saveLibrarySheet(sheetId, currentSheet))
+        lastSavedRef.current = snapshot
+        setStorageError(null)
+      } catch (error) {
+        setStorageError(describeStorageError(error))
+      }
+    }
+    flushAutosaveRef.current = save
+    const timer = window.setTimeout(save, AUTOSAVE_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [currentSheet, sheetId])
+
+  useEffect(() => {
+    // Persist edits made inside the debounce window before the page goes away.
+    const handlePageHide = () => flushAutosaveRef.current?.()
+    window.addEventListener('pagehide', handlePageHide)
+    return () => window.removeEventListener('pagehide', handlePageHide)
+  }, [])
+
+  useEffect(() => {
+    openLinkedSheetRef.current = (linked) => {
+      flushAutosaveRef.current?.()
+      // Like opened files, a shared sheet joins the library as a new sheet.
+      loadSheet(createSheetId(), linked)
+      setFileError(null)
+    }
+  })
+
+  useEffect(() => {
+    // Shared links open on load and when one is pasted into the address bar
+    // of an open tab. The hash is cleared once read, so reloading the page
+    // doesn't add the sheet again.
+    let cancelled = false
+    const openLink = async () => {
+      const payload = readSheetHash(window.location.hash)
+      if (payload === null) {
+        return
+      }
+      let message: string | null = null
+      try {
+        const linked = await decodeSheetLink(payload)
+        if (!cancelled) {
+          openLinkedSheetRef.current?.(linked)
+        }
+      } catch (error) {
+        const reason = error instanceof ShareLinkError ? error.message : 'The link could not be read.'
+        message = `Could not open the shared link: ${reason}`
+      }
+      if (cancelled) {
+        return
+      }
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`)
+      if (message) {
+        setFileError(message)
+      }
+    }
+    const handleHashChange = () => {
+      void openLink()
+    }
+    void openLink()
+    window.addEventListener('hashchange', handleHashChange)
+    return () => {
+      cancelled = true
+      window.removeEventListener('hashchange', handleHashChange)
+    }
+  }, [])
+
+  const visibleRows = useMemo(() => NOTE_ROWS.filter((row) => voices.includes(row.id)), [voices])
+  const usedVoices = useMemo(() => voicesInUse(measures), [measures])
+
+  // One voice per staff position receives clicks; the legend picks which one
+  // when several visible voices share a position.
+  const drawableRows = useMemo(() => {
+    const byPosition = new Map<number, NoteRow>()
+    visibleRows.forEach((row) => {
+      if (!byPosition.has(row.row) || preferredVoices[row.row] === row.id) {
+        byPosition.set(row.row, row)
+      }
+    })
+    return [...byPosition.values()]
+  }, [preferredVoices, visibleRows])
+
+  const measureOffsets = useMemo(() => measureOffsetsFor(measures), [measures])
+
+  const rows = useMemo(() => layoutRows(measures, measureOffsets), [measureOffsets, measures])
 
   const zoomLabel = `${Math.round(zoom * 100)}%`
 
@@ -154,41 +404,51 @@ function App() {
         if (!offset) {
           continue
         }
-        const unitsPerBeat = measure.subdivisions / STAFF.beats
-        for (let beat = 0; beat < STAFF.beats; beat += 1) {
-          const position = offset.start + unitsPerBeat * beat
-          markers.push({ position, label: beat + 1 })
-        }
+        let position = 0
+        beatLengths(measure.timeSignature).forEach((length, beat) => {
+          if (position < measure.subdivisions) {
+            markers.push({ position: offset.start + position, label: beat + 1 })
+          }
+          position += length
+        })
       }
       return markers
     })
   }, [measureOffsets, measures, rows])
 
-  const flattenedNotes = useMemo(() => {
-    const flattened: Array<{ column: number; rowId: NoteRowId; duration: number }> = []
-    measures.forEach((measure, measureIndex) => {
-      const offset = measureOffsets[measureIndex]?.start ?? 0
-      measure.notes.forEach((note) => {
-        flattened.push({
-          column: offset + note.column,
-          rowId: note.rowId,
-          duration: note.duration,
-        })
-      })
-    })
-    flattened.sort((a, b) => {
-      if (a.column !== b.column) {
-        return a.column - b.column
-      }
-      const orderA = rowOrder.get(a.rowId) ?? 0
-      const orderB = rowOrder.get(b.rowId) ?? 0
-      return orderA - orderB
-    })
-    return flattened
-  }, [measureOffsets, measures])
+  const notationByRow = useMemo(
+    () => rows.map((row) => notateRow(measures, measureOffsets, row)),
+    [measureOffsets, measures, rows],
+  )
 
-  const currentMeasureNotes = measures[currentMeasure]?.notes ?? []
-  const hasClipboard = clipboard !== null && clipboard.notes.length > 0
+  const selectedDuration = (
+    durationFor(selectedNoteValue, selectedModifier) ?? durationFor(selectedNoteValue, 'plain')
+  )?.value ?? STEPS_PER_SIXTEENTH
+  const gridSteps = gridStepsFor(selectedDuration)
+  const currentMeasureEmpty =
+    (measures[currentMeasure]?.notes.length ?? 0) === 0 &&
+    (measures[currentMeasure]?.rests.length ?? 0) === 0
+  const currentTimeSignature = measures[currentMeasure]?.timeSignature ?? COMMON_TIME
+  const currentMeasureOffMeter = measures[currentMeasure] ? isOffMeter(measures[currentMeasure]) : false
+  const rowIndexOf = (measureIndex: number) =>
+    rows.findIndex(
+      (row) =>
+        measureIndex >= row.measureStartIndex && measureIndex < row.measureStartIndex + row.measureCount,
+    )
+  const activeCursor = clampCursor(cursor, measures, drawableRows, gridSteps)
+  const cursorRowIndex = rowIndexOf(activeCursor.measureIndex)
+  const hasClipboard = clipboard.length > 0
+  const selection = rangeBetween(
+    Math.min(selectionAnchor ?? currentMeasure, measures.length - 1),
+    currentMeasure,
+  )
+  const selectionSize = rangeLength(selection)
+  const currentSection = sectionStart(measures, currentMeasure)
+  const tempos = useMemo(() => measureTempos(measures, tempo), [measures, tempo])
+  const selectionLabel =
+    selectionSize === 1
+      ? `measure ${selection.start + 1}`
+      : `measures ${selection.start + 1}–${selection.end + 1}`
 
   const locateMeasure = (column: number) => {
     for (let index = 0; index < measureOffsets.length; index += 1) {
@@ -207,20 +467,56 @@ function App() {
     }
   }
 
-  const stopPlayback = () => {
-    if (scheduledStopRef.current !== null) {
-      window.clearTimeout(scheduledStopRef.current)
-      scheduledStopRef.current = null
+  // The scheduler reads the latest tempo, feel, measures, loop settings and
+  // mix while it plays.
+  useEffect(() => {
+    playbackSheetRef.current = { tempo, feel, measures, practice, kit }
+  }, [feel, kit, measures, practice, tempo])
+
+  const playheadRow =
+    playhead && !playhead.countIn ? rowIndexOf(playhead.measureIndex) : null
+
+  useEffect(() => {
+    if (playheadRow !== null) {
+      rowRefs.current[playheadRow]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
     }
-    playingNodesRef.current.forEach((node) => {
-      try {
-        node.stop()
-      } catch {
-        // node might already be stopped
-      }
-    })
-    playingNodesRef.current = []
+  }, [playheadRow])
+
+  const lastMeasure = measures.length - 1
+  const loopStart = Math.min(practice.range.start, lastMeasure)
+  const loopEnd = Math.min(Math.max(practice.range.end, loopStart), lastMeasure)
+  const canPlay = measures.some((measure) => measure.notes.length > 0) || practice.metronome !== 'off'
+
+  const handleLoopToggle = () => {
+    setPractice((current) =>
+      current.loop
+        ? { ...current, loop: false }
+        : // Switching the loop on starts from the measure being edited.
+          { ...current, loop: true, range: { start: currentMeasure, end: currentMeasure } },
+    )
+  }
+
+  const handleLoopStartChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const start = Number(event.target.value)
+    setPractice((current) => ({
+      ...current,
+      range: { start, end: Math.max(start, Math.min(current.range.end, lastMeasure)) },
+    }))
+  }
+
+  const handleLoopEndChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const end = Number(event.target.value)
+    setPractice((current) => ({
+      ...current,
+      range: { start: Math.min(end, Math.min(current.range.start, lastMeasure)), end },
+    }))
+  }
+
+  const stopPlayback = () => {
+    schedulerRef.current?.stop()
+    schedulerRef.current = null
     setIsPlaying(false)
+    setPlayhead(null)
   }
 
   useEffect(() => {
@@ -231,118 +527,23 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
-  const getNoiseBuffer = (ctx: AudioContext) => {
-    if (!noiseBufferRef.current) {
-      const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate)
-      const data = buffer.getChannelData(0)
-      for (let i = 0; i < data.length; i += 1) {
-        data[i] = Math.random() * 2 - 1
-      }
-      noiseBufferRef.current = buffer
+  const ensureAudioContext = () => {
+    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+      return audioContextRef.current
     }
-    return noiseBufferRef.current
-  }
-
-  const triggerSound = (
-    ctx: AudioContext,
-    rowId: NoteRowId,
-    when: number,
-    durationSeconds: number,
-    nodes: StoppableNode[],
-  ) => {
-    const gain = ctx.createGain()
-    gain.connect(ctx.destination)
-
-    const scheduleGainEnvelope = (attack: number, decay: number) => {
-      gain.gain.cancelScheduledValues(when)
-      gain.gain.setValueAtTime(0.0001, when)
-      gain.gain.linearRampToValueAtTime(attack, when + 0.005)
-      gain.gain.exponentialRampToValueAtTime(0.0001, when + decay)
-    }
-
-    if (rowId === 'hh') {
-      const source = ctx.createBufferSource()
-      source.buffer = getNoiseBuffer(ctx)
-      const filter = ctx.createBiquadFilter()
-      filter.type = 'highpass'
-      filter.frequency.setValueAtTime(8000, when)
-      const decay = Math.min(durationSeconds, 0.18)
-      scheduleGainEnvelope(0.7, decay)
-      source.connect(filter)
-      filter.connect(gain)
-      source.start(when)
-      source.stop(when + decay + 0.05)
-      nodes.push(source)
-      return
-    }
-
-    if (rowId === 'sn') {
-      const noise = ctx.createBufferSource()
-      noise.buffer = getNoiseBuffer(ctx)
-      const bandpass = ctx.createBiquadFilter()
-      bandpass.type = 'bandpass'
-      bandpass.frequency.setValueAtTime(1800, when)
-      noise.connect(bandpass)
-      bandpass.connect(gain)
-      const osc = ctx.createOscillator()
-      osc.type = 'triangle'
-      osc.frequency.setValueAtTime(190, when)
-      osc.frequency.exponentialRampToValueAtTime(120, when + 0.2)
-      const oscGain = ctx.createGain()
-      oscGain.gain.setValueAtTime(0.001, when)
-      oscGain.gain.linearRampToValueAtTime(0.25, when + 0.01)
-      oscGain.gain.exponentialRampToValueAtTime(0.001, when + 0.2)
-      osc.connect(oscGain)
-      oscGain.connect(gain)
-      scheduleGainEnvelope(0.9, 0.25)
-      noise.start(when)
-      noise.stop(when + 0.25)
-      osc.start(when)
-      osc.stop(when + 0.25)
-      nodes.push(noise, osc)
-      return
-    }
-
-    if (rowId === 'ht') {
-      const osc = ctx.createOscillator()
-      osc.type = 'sine'
-      osc.frequency.setValueAtTime(320, when)
-      osc.frequency.exponentialRampToValueAtTime(220, when + 0.35)
-      scheduleGainEnvelope(0.8, Math.max(durationSeconds, 0.3))
-      osc.connect(gain)
-      osc.start(when)
-      osc.stop(when + Math.max(durationSeconds, 0.4))
-      nodes.push(osc)
-      return
-    }
-
-    // Kick
-    const osc = ctx.createOscillator()
-    osc.type = 'sine'
-    osc.frequency.setValueAtTime(160, when)
-    osc.frequency.exponentialRampToValueAtTime(55, when + 0.25)
-    scheduleGainEnvelope(1, Math.max(durationSeconds, 0.3))
-    osc.connect(gain)
-    osc.start(when)
-    osc.stop(when + Math.max(durationSeconds, 0.35))
-    nodes.push(osc)
+    const context = new AudioContext()
+    audioContextRef.current = context
+    return context
   }
 
   const startPlayback = async () => {
-    if (flattenedNotes.length === 0) {
+    if (!canPlay) {
       return
     }
 
     stopPlayback()
 
-    const ctx = (() => {
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        return audioContextRef.current
-      }
-      const context = new AudioContext()
-      audioContextRef.current = context
-      return context
-    })()
+    const ctx = ensureAudioContext()
 
     if (ctx.state === 'suspended') {
       try {
@@ -352,29 +553,66 @@ function App() {
       }
     }
 
-    const unitSeconds = (60 / tempo) / 4
-    const startAt = ctx.currentTime + 0.1
-    const nodes: StoppableNode[] = []
-
-    let latestColumn = 0
-    flattenedNotes.forEach((note) => {
-      const when = startAt + note.column * unitSeconds
-      const durationSeconds = Math.max(note.duration * unitSeconds, 0.05)
-      triggerSound(ctx, note.rowId, when, durationSeconds, nodes)
-      latestColumn = Math.max(latestColumn, note.column + note.duration)
+    schedulerRef.current = startPlaybackScheduler({
+      context: ctx,
+      getMeasures: () => playbackSheetRef.current.measures,
+      getTempo: () => playbackSheetRef.current.tempo,
+      getFeel: () => playbackSheetRef.current.feel,
+      getPractice: () => playbackSheetRef.current.practice,
+      getKit: () => playbackSheetRef.current.kit,
+      onStep: setPlayhead,
+      onEnd: () => {
+        schedulerRef.current = null
+        setIsPlaying(false)
+        setPlayhead(null)
+      },
     })
 
-    playingNodesRef.current = nodes
-
-    const totalDurationSeconds = Math.max(latestColumn * unitSeconds + 0.5, 0.5)
-    scheduledStopRef.current = window.setTimeout(() => {
-      stopPlayback()
-    }, totalDurationSeconds * 1000)
-
     setIsPlaying(true)
   }
 
-  const handlePointerMove = (
+  // What a click or key press would place at a spot on the staff.
+  const slotFor = (
+    measureIndex: number,
+    columnInMeasure: number,
+    row: NoteRow,
+    rowStart: number,
+    altKey = false,
+  ): HoverSlot => {
+    const measure = measures[measureIndex]
+    const column = (measureOffsets[measureIndex]?.start ?? 0) + columnInMeasure
+    if (restMode) {
+      return {
+        kind: 'rest',
+        measureIndex,
+        column,
+        columnInMeasure,
+        stem: row.stem,
+        duration: selectedDuration,
+        rowStart,
+        removes: entryMode === 'toggle' && findRest(measure, columnInMeasure, row.stem) !== undefined,
+      }
+    }
+    return {
+      kind: 'note',
+      measureIndex,
+      column,
+      columnInMeasure,
+      rowId: row.id,
+      duration: selectedDuration,
+      articulation:
+        selectedArticulation && supportsArticulation(row.id, selectedArticulation)
+          ? selectedArticulation
+          : undefined,
+      rowStart,
+      // Alt-clicking a note changes its articulation instead of removing it.
+      removes:
+        entryMode === 'toggle' && !altKey && findNote(measure, columnInMeasure, row.id) !== undefined,
+    }
+  }
+
+  // The measure and step under the pointer, and its height on the staff.
+  const pointerLocation = (
     event: ReactMouseEvent<SVGSVGElement>,
     rowStart: number,
     rowSubdivisions: number,
@@ -389,14 +627,41 @@ function App() {
 
     const rawColumnLocal = (x - STAFF.paddingX) / COLUMN_STEP
     const rawColumnGlobal = rawColumnLocal + rowStart
-    const column = Math.round(rawColumnGlobal)
+    const rawColumn = Math.round(rawColumnGlobal)
 
-    if (Number.isNaN(column)) {
-      setHoverSlot(null)
-      return
+    if (Number.isNaN(rawColumn)) {
+      return null
     }
 
-    if (column < rowStart || column >= rowStart + rowSubdivisions) {
+    if (rawColumn < rowStart - HALF_GAP || rawColumn >= rowStart + rowSubdivisions) {
+      return null
+    }
+
+    const location = locateMeasure(Math.max(rawColumn, rowStart))
+    return location ? { ...location, y } : null
+  }
+
+  const handlePointerMove = (
+    event: ReactMouseEvent<SVGSVGElement>,
+    rowStart: number,
+    rowSubdivisions: number,
+  ) => {
+    const pointer = pointerLocation(event, rowStart, rowSubdivisions)
+    const drag = dragRef.current
+    // Dragging into another measure selects the measures in between instead
+    // of placing a note.
+    if (drag && (event.buttons & 1) !== 0) {
+      if (pointer && (drag.moved || pointer.measureIndex !== drag.measureIndex)) {
+        drag.moved = true
+        setSelectionAnchor(drag.measureIndex)
+        setCurrentMeasure(pointer.measureIndex)
+      }
+      if (drag.moved) {
+        setHoverSlot(null)
+        return
+      }
+    }
+    if (!pointer) {
       setHoverSlot(null)
       return
     }
@@ -404,9 +669,9 @@ function App() {
     let closestRow: NoteRow | null = null
     let smallestDistance = Number.POSITIVE_INFINITY
 
-    for (const row of NOTE_ROWS) {
+    for (const row of drawableRows) {
       const rowY = yForRow(row.row)
-      const distance = Math.abs(rowY - y)
+      const distance = Math.abs(rowY - pointer.y)
       if (distance < smallestDistance) {
         smallestDistance = distance
         closestRow = row
@@ -418,20 +683,19 @@ function App() {
       return
     }
 
-    const location = locateMeasure(column)
-    if (!location) {
-      setHoverSlot(null)
-      return
-    }
+    const measure = measures[pointer.measureIndex]
+    const columnInMeasure = snapColumn(measure, pointer.columnInMeasure, gridSteps)
+    setKeyboardActive(false)
+    setHoverSlot(slotFor(pointer.measureIndex, columnInMeasure, closestRow, rowStart, event.altKey))
+  }
 
-    setHoverSlot({
-      measureIndex: location.measureIndex,
-      column,
-      columnInMeasure: location.columnInMeasure,
-      rowId: closestRow.id,
-      duration: selectedDuration,
-      rowStart,
-    })
+  const handleMouseDown = (
+    event: ReactMouseEvent<SVGSVGElement>,
+    rowStart: number,
+    rowSubdivisions: number,
+  ) => {
+    const pointer = event.button === 0 ? pointerLocation(event, rowStart, rowSubdivisions) : null
+    dragRef.current = pointer ? { measureIndex: pointer.measureIndex, moved: false } : null
   }
 
   const handleMouseLeave = () => {
@@ -443,174 +707,888 @@ function App() {
   }
 
   const handleTempoChange = (event: ChangeEvent<HTMLInputElement>) => {
-    setTempo(Number(event.target.value))
+    const value = Number(event.target.value)
+    commit(
+      'Change tempo',
+      (current) => (current.tempo === value ? current : { ...current, tempo: value }),
+      { coalesceKey: 'tempo' },
+    )
+  }
+
+  const handleSwingChange = (changes: Partial<Swing>) => {
+    commit(
+      'Change swing',
+      (current) => ({
+        ...current,
+        feel: { ...current.feel, swing: { ...current.feel.swing, ...changes } },
+      }),
+      { coalesceKey: 'swing' },
+    )
   }
 
-  const handleNoteDurationChange = (value: DurationOption['value']) => {
-    setSelectedDuration(value)
-    setHoverSlot((slot) => (slot ? { ...slot, duration: value } : slot))
+  const handleHumanizeChange = (changes: Partial<Humanize>) => {
+    commit(
+      'Change humanize',
+      (current) => ({
+        ...current,
+        feel: { ...current.feel, humanize: { ...current.feel.humanize, ...changes } },
+      }),
+      { coalesceKey: 'humanize' },
+    )
   }
 
-  const handleClick = () => {
-    if (!hoverSlot) {
+  const handleTempoMarkChange = (mark: TempoMark | undefined) => {
+    updateMeasures(
+      'Change tempo mark',
+      (current) =>
+        current.map((measure, index) => {
+          if (index !== currentMeasure) {
+            return measure
+          }
+          const next = { ...measure, tempo: mark }
+          if (!mark) {
+            delete next.tempo
+          }
+          return next
+        }),
+      // Typing a tempo is one undo step.
+      { coalesceKey: `tempo-mark-${currentMeasure}` },
+    )
+  }
+
+  // A section's swing is kept on the measure with its rehearsal mark.
+  const handleSectionSwingChange = (swing: Swing | undefined) => {
+    if (currentSection < 0) {
+      return
+    }
+    updateMeasures(
+      'Change section swing',
+      (current) =>
+        current.map((measure, index) =>
+          index === currentSection ? withForm(measure, { swing }) : measure,
+        ),
+      { coalesceKey: `section-swing-${currentSection}` },
+    )
+  }
+
+  // A new length can move the snap grid, so the hover preview is recomputed
+  // on the next pointer move.
+  const handleNoteValueChange = (value: NoteValueId) => {
+    setSelectedNoteValue(value)
+    if (!durationFor(value, selectedModifier)) {
+      setSelectedModifier('plain')
+    }
+    setHoverSlot(null)
+  }
+
+  const handleModifierChange = (modifier: DurationModifier) => {
+    setSelectedModifier((current) => (current === modifier ? 'plain' : modifier))
+    setHoverSlot(null)
+  }
+
+  const handleRestModeToggle = () => {
+    setRestMode((current) => !current)
+    setHoverSlot(null)
+  }
+
+  const handleArticulationChange = (value: Articulation | null) => {
+    setSelectedArticulation(value)
+    setHoverSlot((slot) =>
+      slot?.kind === 'note'
+        ? {
+            ...slot,
+            articulation: value && supportsArticulation(slot.rowId, value) ? value : undefined,
+          }
+        : slot,
+    )
+  }
+
+  const handleEntryModeChange = (mode: EntryMode) => {
+    setEntryMode(mode)
+    setHoverSlot(null)
+  }
+
+  const commitSlot = (slot: HoverSlot, altKey: boolean) => {
+    if (slot.kind === 'rest') {
+      const rest = {
+        column: slot.columnInMeasure,
+        duration: slot.duration,
+        stem: slot.stem,
+      }
+      const label =
+        entryMode === 'insert' ? 'Insert rest' : slot.removes ? 'Remove rest' : 'Add rest'
+      updateMeasures(label, (current) =>
+        current.map((measure, index) => {
+          if (index !== slot.measureIndex) {
+            return measure
+          }
+          return entryMode === 'insert' ? insertRest(measure, rest) : toggleRest(measure, rest)
+        }),
+      )
+      setHoverSlot(null)
+      return
+    }
+
+    const target = measures[slot.measureIndex]
+    if (
+      altKey &&
+      target &&
+      findNote(target, slot.columnInMeasure, slot.rowId) !== undefined
+    ) {
+      if (selectedArticulation && !supportsArticulation(slot.rowId, selectedArticulation)) {
+        return
+      }
+      updateMeasures('Change articulation', (current) =>
+        current.map((measure, index) =>
+          index === slot.measureIndex
+            ? toggleArticulation(
+                measure,
+                slot.columnInMeasure,
+                slot.rowId,
+                selectedArticulation,
+              )
+            : measure,
+        ),
+      )
       return
     }
 
-    setMeasures((current) =>
+    const placement = {
+      column: slot.columnInMeasure,
+      rowId: slot.rowId,
+      duration: slot.duration,
+      articulation: slot.articulation,
+    }
+    const label =
+      entryMode === 'insert' ? 'Insert note' : slot.removes ? 'Remove note' : 'Add note'
+    updateMeasures(label, (current) =>
       current.map((measure, index) => {
-        if (index !== hoverSlot.measureIndex) {
+        if (index !== slot.measureIndex) {
           return measure
         }
+        return entryMode === 'insert'
+          ? insertNote(measure, placement)
+          : toggleNote(measure, placement)
+      }),
+    )
 
-        const shiftedNotes = measure.notes.map((note) =>
-          note.column >= hoverSlot.columnInMeasure
-            ? { ...note, column: note.column + hoverSlot.duration }
-            : note,
-        )
+    setHoverSlot(null)
+  }
 
-        const conflict = shiftedNotes.some(
-          (note) => note.column === hoverSlot.columnInMeasure && note.rowId === hoverSlot.rowId,
-        )
+  const handleClick = (
+    event: ReactMouseEvent<SVGSVGElement>,
+    rowStart: number,
+    rowSubdivisions: number,
+  ) => {
+    const dragged = dragRef.current?.moved
+    dragRef.current = null
+    if (dragged) {
+      return
+    }
+    if (event.shiftKey) {
+      const pointer = pointerLocation(event, rowStart, rowSubdivisions)
+      if (pointer) {
+        extendSelection(pointer.measureIndex)
+      }
+      return
+    }
+    if (!hoverSlot) {
+      return
+    }
+    commitSlot(hoverSlot, event.altKey)
+    setSelectionAnchor(null)
+    setCurrentMeasure(hoverSlot.measureIndex)
+    // Keyboard editing picks up where the pointer left off.
+    setCursor({
+      measureIndex: hoverSlot.measureIndex,
+      column: hoverSlot.columnInMeasure,
+      rowId: hoverSlot.kind === 'note' ? hoverSlot.rowId : activeCursor.rowId,
+    })
+  }
 
-        if (conflict) {
-          return measure
-        }
+  const describeCursor = (target: StaffCursor) => {
+    const measure = measures[target.measureIndex]
+    const row = rowsById.get(target.rowId)
+    return `${row?.name ?? target.rowId}, measure ${target.measureIndex + 1}, ${describeBeatPosition(
+      measure,
+      target.column,
+      gridSteps,
+    )}: ${describeColumnContents(measure, target.column)}`
+  }
 
-        const nextNotes = [
-          ...shiftedNotes,
-          {
-            column: hoverSlot.columnInMeasure,
-            rowId: hoverSlot.rowId,
-            duration: hoverSlot.duration,
-          } as MeasureNote,
-        ]
+  const moveCursor = (next: StaffCursor) => {
+    const target = clampCursor(next, measures, drawableRows, gridSteps)
+    const row = rowsById.get(target.rowId)
+    const rowIndex = rowIndexOf(target.measureIndex)
+    setCursor(target)
+    setSelectionAnchor(null)
+    setCurrentMeasure(target.measureIndex)
+    setKeyboardActive(true)
+    setHoverSlot(
+      row ? slotFor(target.measureIndex, target.column, row, rows[rowIndex]?.start ?? 0) : null,
+    )
+    setAnnouncement(describeCursor(target))
+    if (rowIndex !== cursorRowIndex) {
+      rowRefs.current[rowIndex]?.scrollIntoView({ block: 'nearest' })
+    }
+  }
 
-        nextNotes.sort((a, b) => {
-          if (a.column !== b.column) {
-            return a.column - b.column
-          }
-          const orderA = rowOrder.get(a.rowId) ?? 0
-          const orderB = rowOrder.get(b.rowId) ?? 0
-          return orderA - orderB
-        })
+  // Strikes or clears one voice at the cursor, as a click on its position would.
+  const toggleAtCursor = (row: NoteRow) => {
+    const slot = slotFor(
+      activeCursor.measureIndex,
+      activeCursor.column,
+      row,
+      rows[cursorRowIndex]?.start ?? 0,
+    )
+    commitSlot(slot, false)
+    const subject = slot.kind === 'note' ? row.name : `${row.stem === 'up' ? 'hands' : 'feet'} rest`
+    const verb = entryMode === 'insert' ? 'Inserted' : slot.removes ? 'Removed' : 'Added'
+    setAnnouncement(`${verb} ${subject}`)
+  }
+
+  const changeNoteValueBy = (direction: -1 | 1) => {
+    const index = NOTE_VALUES.findIndex((value) => value.id === selectedNoteValue)
+    const next = NOTE_VALUES[Math.min(Math.max(index + direction, 0), NOTE_VALUES.length - 1)]
+    handleNoteValueChange(next.id)
+    setAnnouncement(`${next.label} notes`)
+  }
+
+  const toggleModifier = (modifier: DurationModifier) => {
+    const allowed = DURATION_MODIFIERS.find((option) => option.value === modifier)?.appliesTo
+    if (!allowed?.includes(selectedNoteValue)) {
+      setAnnouncement(`No ${modifier} ${selectedNoteValue} notes`)
+      return
+    }
+    const next = selectedModifier === modifier ? 'plain' : modifier
+    handleModifierChange(modifier)
+    setAnnouncement(durationFor(selectedNoteValue, next)?.label ?? '')
+  }
+
+  // Measures to the same place a row up or down; sections make rows uneven.
+  const rowJump = (direction: -1 | 1) => {
+    const from = rows[cursorRowIndex]
+    const to = rows[cursorRowIndex + direction]
+    if (!from || !to) {
+      return 0
+    }
+    const place = Math.min(activeCursor.measureIndex - from.measureStartIndex, to.measureCount - 1)
+    return to.measureStartIndex + place - activeCursor.measureIndex
+  }
 
-        return {
-          subdivisions: measure.subdivisions + hoverSlot.duration,
-          notes: nextNotes,
+  // Keys for the focused staff. Ctrl is left to undo and the browser except
+  // on Home and End, which then jump to the ends of the sheet.
+  const handleStaffKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (event.altKey || event.metaKey || (event.ctrlKey && event.key !== 'Home' && event.key !== 'End')) {
+      return
+    }
+    const lastMeasure = measures.length - 1
+    const cursorRow = rowsById.get(activeCursor.rowId)
+    switch (event.key) {
+      case 'ArrowLeft':
+        moveCursor(stepCursor(activeCursor, measures, gridSteps, -1))
+        break
+      case 'ArrowRight':
+        moveCursor(stepCursor(activeCursor, measures, gridSteps, 1))
+        break
+      case 'ArrowUp':
+        moveCursor(stepVoice(activeCursor, drawableRows, -1))
+        break
+      case 'ArrowDown':
+        moveCursor(stepVoice(activeCursor, drawableRows, 1))
+        break
+      case 'Home':
+        moveCursor(
+          measureEdge(activeCursor, measures, event.ctrlKey ? 0 : activeCursor.measureIndex, gridSteps, 'start'),
+        )
+        break
+      case 'End':
+        moveCursor(
+          measureEdge(activeCursor, measures, event.ctrlKey ? lastMeasure : activeCursor.measureIndex, gridSteps, 'end'),
+        )
+        break
+      case 'PageUp':
+        moveCursor(jumpMeasures(activeCursor, measures, gridSteps, event.shiftKey ? rowJump(-1) : -1))
+        break
+      case 'PageDown':
+        moveCursor(jumpMeasures(activeCursor, measures, gridSteps, event.shiftKey ? rowJump(1) : 1))
+        break
+      case 'Enter':
+      case ' ':
+        if (cursorRow) {
+          toggleAtCursor(cursorRow)
         }
-      }),
+        break
+      case 'Delete':
+      case 'Backspace': {
+        const measure = measures[activeCursor.measureIndex]
+        const filled =
+          cursorRow &&
+          (restMode
+            ? findRest(measure, activeCursor.column, cursorRow.stem)
+            : findNote(measure, activeCursor.column, cursorRow.id))
+        if (cursorRow && filled && entryMode === 'toggle') {
+          toggleAtCursor(cursorRow)
+        } else {
+          setAnnouncement('Nothing to remove')
+        }
+        break
+      }
+      case '[':
+        changeNoteValueBy(1)
+        break
+      case ']':
+        changeNoteValueBy(-1)
+        break
+      case '.':
+        toggleModifier('dotted')
+        break
+      case 't':
+      case 'T':
+        toggleModifier('triplet')
+        break
+      case 'r':
+      case 'R':
+        handleRestModeToggle()
+        setAnnouncement(restMode ? 'Entering notes' : 'Entering rests')
+        break
+      default: {
+        // 1 to 9, then 0, toggle the voices in legend order.
+        const digit = '1234567890'.indexOf(event.key)
+        const row = digit === -1 ? undefined : visibleRows[digit]
+        if (!row) {
+          return
+        }
+        toggleAtCursor(row)
+      }
+    }
+    event.preventDefault()
+  }
+
+  const handleStaffFocus = (event: ReactFocusEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget || !event.currentTarget.matches(':focus-visible')) {
+      return
+    }
+    moveCursor(
+      activeCursor.measureIndex === currentMeasure
+        ? activeCursor
+        : measureEdge(activeCursor, measures, currentMeasure, gridSteps, 'start'),
     )
+  }
 
+  const handleStaffBlur = (event: ReactFocusEvent<HTMLDivElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget)) {
+      return
+    }
+    setKeyboardActive(false)
     setHoverSlot(null)
   }
 
   const handleClear = () => {
-    if (currentMeasureNotes.length === 0) {
+    if (currentMeasureEmpty) {
       return
     }
-    setMeasures((current) =>
+    // Clearing takes the notes and rests but leaves the song-form signs.
+    updateMeasures('Clear measure', (current) =>
       current.map((measure, index) =>
         index === currentMeasure
-          ? { subdivisions: DEFAULT_SUBDIVISIONS, notes: [] }
+          ? { ...measure, subdivisions: stepsForTimeSignature(measure.timeSignature), notes: [], rests: [] }
           : measure,
       ),
     )
     setHoverSlot(null)
   }
 
-  const handlePrevMeasure = () => {
-    setCurrentMeasure((index) => Math.max(0, index - 1))
+  const extendSelection = (measureIndex: number) => {
+    setSelectionAnchor(selectionAnchor ?? currentMeasure)
+    setCurrentMeasure(measureIndex)
+    setHoverSlot(null)
+  }
+
+  // Shift-clicking the arrows grows the selection instead of moving it.
+  const handlePrevMeasure = (event: ReactMouseEvent<HTMLButtonElement>) => {
+    const target = Math.max(0, currentMeasure - 1)
+    if (event.shiftKey) {
+      extendSelection(target)
+      return
+    }
+    setSelectionAnchor(null)
+    setCurrentMeasure(target)
+    setHoverSlot(null)
+  }
+
+  const handleNextMeasure = (event: ReactMouseEvent<HTMLButtonElement>) => {
+    const target = Math.min(measures.length - 1, currentMeasure + 1)
+    if (event.shiftKey) {
+      extendSelection(target)
+      return
+    }
+    setSelectionAnchor(null)
+    setCurrentMeasure(target)
     setHoverSlot(null)
   }
 
-  const handleNextMeasure = () => {
-    setCurrentMeasure((index) => Math.min(measures.length - 1, index + 1))
+  const selectRange = ({ start, end }: MeasureRange) => {
+    setSelectionAnchor(start === end ? null : start)
+    setCurrentMeasure(end)
     setHoverSlot(null)
   }
 
   const handleAddMeasure = () => {
-    setMeasures((current) => [...current, { subdivisions: DEFAULT_SUBDIVISIONS, notes: [] }])
+    updateMeasures('Add measure', (current) => [
+      ...current,
+      createEmptyMeasure(current[current.length - 1]?.timeSignature),
+    ])
     setCurrentMeasure(measures.length)
     setHoverSlot(null)
   }
 
-  const handleCopyMeasure = () => {
-    const measure = measures[currentMeasure]
-    if (!measure) {
+  const handleCopyMeasures = () => {
+    setClipboard(copyMeasures(measures, selection))
+  }
+
+  const handleCutMeasures = () => {
+    setClipboard(copyMeasures(measures, selection))
+    updateMeasures(selectionSize === 1 ? 'Cut measure' : 'Cut measures', (current) =>
+      deleteMeasures(current, selection),
+    )
+    selectRange({ start: selection.start, end: selection.start })
+  }
+
+  const handleDeleteMeasures = () => {
+    updateMeasures(selectionSize === 1 ? 'Delete measure' : 'Delete measures', (current) =>
+      deleteMeasures(current, selection),
+    )
+    selectRange({ start: selection.start, end: selection.start })
+  }
+
+  const handlePasteInsert = () => {
+    if (!hasClipboard) {
       return
     }
-    setClipboard({
-      subdivisions: measure.subdivisions,
-      notes: measure.notes.map((note) => ({ ...note })),
-    })
+    updateMeasures('Insert pasted measures', (current) =>
+      insertMeasures(current, selection.start, clipboard),
+    )
+    selectRange({ start: selection.start, end: selection.start + clipboard.length - 1 })
   }
 
-  const handlePasteMeasure = () => {
-    if (!clipboard) {
+  const handlePasteOverwrite = () => {
+    if (!hasClipboard) {
       return
     }
-    setMeasures((current) =>
-      current.map((measure, index) =>
-        index === currentMeasure
-          ? {
-              subdivisions: clipboard.subdivisions,
-              notes: clipboard.notes.map((note) => ({ ...note })),
-            }
+    updateMeasures('Paste over measures', (current) =>
+      overwriteMeasures(current, selection.start, clipboard),
+    )
+    selectRange({ start: selection.start, end: selection.start + clipboard.length - 1 })
+  }
+
+  const handleDuplicateMeasures = () => {
+    updateMeasures(selectionSize === 1 ? 'Duplicate measure' : 'Duplicate measures', (current) =>
+      duplicateMeasures(current, selection, duplicateCount),
+    )
+    setHoverSlot(null)
+  }
+
+  const handleMoveMeasures = (direction: -1 | 1) => {
+    const moved = moveMeasures(measures, selection, direction)
+    if (moved.range.start === selection.start) {
+      return
+    }
+    updateMeasures(selectionSize === 1 ? 'Move measure' : 'Move measures', (current) =>
+      moveMeasures(current, selection, direction).measures,
+    )
+    // Keep the same end of the selection current after the move.
+    const anchor = selectionAnchor === null ? null : selectionAnchor + direction
+    setSelectionAnchor(anchor)
+    setCurrentMeasure(currentMeasure + direction)
+    setHoverSlot(null)
+  }
+
+  const handleTimeSignatureChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const timeSignature = TIME_SIGNATURE_PRESETS.find(
+      (preset) => formatTimeSignature(preset) === event.target.value,
+    )
+    if (!timeSignature) {
+      return
+    }
+    updateMeasures(`Change meter to ${formatTimeSignature(timeSignature)}`, (current) =>
+      changeTimeSignature(current, currentMeasure, timeSignature),
+    )
+    setHoverSlot(null)
+  }
+
+  const handleFormChange = (changes: MeasureForm) => {
+    const editsSection = 'section' in changes
+    updateMeasures(
+      editsSection ? 'Edit rehearsal mark' : 'Change song form',
+      (current) =>
+        current.map((measure, index) => (index === currentMeasure ? withForm(measure, changes) : measure)),
+      // Typing a rehearsal mark is one undo step, like the title.
+      editsSection ? { coalesceKey: `section-${currentMeasure}` } : undefined,
+    )
+  }
+
+  // Grooves replace the notes and rests of the selected measures, which are
+  // brought back to the length of their time signature first. Voices the
+  // grooves play are switched on so nothing lands on a hidden line.
+  const replaceWithGrooves = (label: string, grooves: (targets: Measure[]) => MeasureNote[][]) => {
+    commit(label, (current) => {
+      const targets = current.measures
+        .slice(selection.start, selection.end + 1)
+        .map((measure) => ({ ...measure, subdivisions: stepsForTimeSignature(measure.timeSignature) }))
+      const notes = grooves(targets)
+      const nextMeasures = current.measures.map((measure, index) =>
+        index >= selection.start && index <= selection.end
+          ? { ...targets[index - selection.start], notes: notes[index - selection.start], rests: [] }
           : measure,
-      ),
+      )
+      return {
+        ...current,
+        measures: nextMeasures,
+        voices: sortVoices([...current.voices, ...voicesInUse(nextMeasures)]),
+      }
+    })
+    setHoverSlot(null)
+  }
+
+  const handleInsertGroove = (pattern: GroovePattern) => {
+    replaceWithGrooves(`Insert ${pattern.name}`, (targets) =>
+      targets.map((measure) => patternNotes(pattern, measure)),
+    )
+  }
+
+  const handleGenerateGroove = (options: GeneratorOptions) => {
+    replaceWithGrooves('Generate groove', (targets) => generateGrooves(targets, options))
+  }
+
+  const handleTitleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value
+    commit(
+      'Rename sheet',
+      (current) => (current.title === value ? current : { ...current, title: value }),
+      { coalesceKey: 'title' },
+    )
+  }
+
+  const handleSaveFile = () => {
+    const blob = new Blob([serializeSheet(currentSheet)], { type: 'application/json' })
+    downloadBlob(blob, `${toFileStem(currentSheet.title)}${SHEET_FILE_EXTENSION}`)
+  }
+
+  const handlePitchChange = (rowId: NoteRowId, pitch: number) => {
+    const next = { ...pitchMap, [rowId]: pitch }
+    setPitchMap(next)
+    saveDrumPitchMap(next)
+  }
+
+  const handleResetPitches = () => {
+    setPitchMap({ ...GM_DRUM_PITCHES })
+    saveDrumPitchMap(GM_DRUM_PITCHES)
+  }
+
+  const handleMixChange = (rowId: NoteRowId, changes: Partial<VoiceMix>) => {
+    const next = { ...mixer, [rowId]: { ...mixer[rowId], ...changes } }
+    setMixer(next)
+    saveMixerSettings(next)
+  }
+
+  const handleResetMixer = () => {
+    const next = createDefaultMixer()
+    setMixer(next)
+    saveMixerSettings(next)
+  }
+
+  const handleLoadSamples = async (rowId: NoteRowId, files: File[]) => {
+    setLoadingVoice(rowId)
+    try {
+      const layers = await loadVoiceLayers(ensureAudioContext(), files)
+      setSamples((current) => ({ ...current, [rowId]: layers }))
+      setFileError(null)
+    } catch (error) {
+      const reason = error instanceof SampleLoadError ? error.message : 'The files could not be read.'
+      setFileError(`Could not load samples: ${reason}`)
+    } finally {
+      setLoadingVoice(null)
+    }
+  }
+
+  const handleClearSamples = (rowId: NoteRowId) => {
+    setSamples((current) => {
+      const next = { ...current }
+      delete next[rowId]
+      return next
+    })
+  }
+
+  const handleExportMidi = (format: 0 | 1) => {
+    const bytes = exportSheetToMidi(currentSheet, { format, pitchMap })
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `${toFileStem(currentSheet.title)}.mid`)
+  }
+
+  const handleExportSvg = async () => {
+    try {
+      const svg = await renderScoreSvg(currentSheet)
+      downloadBlob(
+        new Blob([svg], { type: 'image/svg+xml' }),
+        `${toFileStem(currentSheet.title)}.svg`,
+      )
+      setFileError(null)
+    } catch {
+      setFileError('Could not export an SVG: Drawing the score failed.')
+    }
+  }
+
+  const handleExportPng = async () => {
+    try {
+      const png = await renderScorePng(currentSheet)
+      downloadBlob(png, `${toFileStem(currentSheet.title)}.png`)
+      setFileError(null)
+    } catch (error) {
+      const reason = error instanceof ScoreExportError ? error.message : 'Drawing the score failed.'
+      setFileError(`Could not export a PNG: ${reason}`)
+    }
+  }
+
+  const handleExportMusicXml = () => {
+    downloadBlob(
+      new Blob([sheetToMusicXml(currentSheet, pitchMap)], {
+        type: 'application/vnd.recordare.musicxml+xml',
+      }),
+      `${toFileStem(currentSheet.title)}.musicxml`,
     )
+  }
+
+  const handleExportAudio = async (options: AudioExportOptions) => {
+    setRenderingAudio(true)
+    try {
+      const wav = await exportSheetToWav(currentSheet, options, kit)
+      downloadBlob(new Blob([wav], { type: 'audio/wav' }), `${toFileStem(currentSheet.title)}.wav`)
+      setFileError(null)
+    } catch (error) {
+      const reason = error instanceof AudioExportError ? error.message : 'Rendering the audio failed.'
+      setFileError(`Could not export audio: ${reason}`)
+    } finally {
+      setRenderingAudio(false)
+    }
+  }
+
+  // The print layout only exists while the dialog is open; rendering it
+  // synchronously first means the dialog sees the finished pages.
+  const handlePrint = () => {
+    flushSync(() => setPrinting(true))
+    window.print()
+    setPrinting(false)
+  }
+
+  const handleOpenFile = () => {
+    fileInputRef.current?.click()
+  }
+
+  const loadSheet = (id: string, sheet: DrumSheet) => {
+    stopPlayback()
+    setSheetId(id)
+    resetHistory(sheet)
+    setCurrentMeasure(0)
     setHoverSlot(null)
+    setImportReport(null)
   }
 
-  const renderNote = (
-    note: { column: number; rowId: NoteRowId; duration: number },
-    rowStart: number,
-    key: string,
-    isPreview = false,
-  ) => {
-    const row = rowsById.get(note.rowId)
-    if (!row) {
-      return null
+  const handleFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget
+    const file = input.files?.[0]
+    // Reset so choosing the same file again still fires a change event.
+    input.value = ''
+    if (!file) {
+      return
+    }
+    try {
+      const sheet = parseSheet(await file.text())
+      flushAutosaveRef.current?.()
+      // Opened files become a new library sheet instead of replacing the current one.
+      loadSheet(createSheetId(), sheet)
+      setFileError(null)
+    } catch (error) {
+      const reason =
+        error instanceof SheetFormatError ? error.message : 'The file could not be read.'
+      setFileError(`Could not open ${file.name}: ${reason}`)
+    }
+  }
+
+  const handleImportMidi = async (file: File, resolution: QuantizeSteps) => {
+    try {
+      const { sheet, report } = importMidi(await file.arrayBuffer(), {
+        pitchMap,
+        resolution,
+        fallbackTitle: file.name.replace(/\.midi?$/i, ''),
+      })
+      flushAutosaveRef.current?.()
+      loadSheet(createSheetId(), sheet)
+      setFileError(null)
+      setImportReport(describeImportReport(report))
+    } catch (error) {
+      const reason =
+        error instanceof MidiFormatError ? error.message : 'The file could not be read.'
+      setFileError(`Could not import ${file.name}: ${reason}`)
+    }
+  }
+
+  const handleImportTab = (text: string, fallbackTitle?: string) => {
+    try {
+      const { sheet, diagnostics } = parseDrumTab(text, { fallbackTitle })
+      flushAutosaveRef.current?.()
+      loadSheet(createSheetId(), sheet)
+      setFileError(null)
+      setImportReport(describeTabDiagnostics(sheet.measures.length, diagnostics))
+    } catch (error) {
+      const reason = error instanceof DrumTabError ? error.message : 'The tab could not be read.'
+      setFileError(`Could not import the tab: ${reason}`)
     }
+  }
 
-    const x = xForColumnInRow(note.column, rowStart)
-    const y = yForRow(row.row)
-    const stemLength = noteStep * 3
-    const groupClass = isPreview ? 'note preview' : 'note'
-    const headClass = isPreview ? 'note-head preview' : 'note-head'
-    const stemClass = isPreview ? 'note-stem preview' : 'note-stem'
-    const crossClass = isPreview ? 'note-x preview' : 'note-x'
-    const flagClass = isPreview ? 'note-flag preview' : 'note-flag'
-
-    return (
-      <g key={key} className={groupClass}>
-        {row.shape === 'circle' ? (
-          <ellipse cx={x} cy={y} rx={8.5} ry={6.5} className={headClass} />
-        ) : (
-          <>
-            <line x1={x - 6} y1={y - 6} x2={x + 6} y2={y + 6} className={crossClass} />
-            <line x1={x - 6} y1={y + 6} x2={x + 6} y2={y - 6} className={crossClass} />
-          </>
-        )}
-        {row.stem === 'up' ? (
-          <line x1={x + 8} y1={y} x2={x + 8} y2={y - stemLength} className={stemClass} />
-        ) : (
-          <line x1={x - 8} y1={y} x2={x - 8} y2={y + stemLength} className={stemClass} />
-        )}
-        {note.duration > 1 && (
-          <path
-            className={flagClass}
-            d={
-              row.stem === 'up'
-                ? `M ${x + 8} ${y - stemLength} L ${x + 8 + 18} ${y - stemLength + 6} L ${x + 8} ${y - stemLength + 12} Z`
-                : `M ${x - 8} ${y + stemLength} L ${x - 8 - 18} ${y + stemLength - 6} L ${x - 8} ${y + stemLength - 12} Z`
-            }
-          />
-        )}
-      </g>
+  const handleDownloadTab = () => {
+    downloadBlob(
+      new Blob([formatDrumTab(currentSheet)], { type: 'text/plain' }),
+      `${toFileStem(currentSheet.title)}.txt`,
     )
   }
 
+  const handleCopyTab = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDrumTab(currentSheet))
+      setFileError(null)
+      return true
+    } catch {
+      setFileError('Could not copy the tab: the browser did not allow access to the clipboard.')
+      return false
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await sheetLinkFor(currentSheet, window.location.href))
+      setFileError(null)
+      setLinkCopied(true)
+    } catch (error) {
+      setFileError(
+        error instanceof ShareLinkError
+          ? `Could not make a link: ${error.message}`
+          : 'Could not copy the link: the browser did not allow access to the clipboard.',
+      )
+    }
+  }
+
+  const handleOpenLibrarySheet = (id: string) => {
+    if (id === sheetId) {
+      return
+    }
+    flushAutosaveRef.current?.()
+    const sheet = readStoredSheet(id)
+    if (!sheet) {
+      setStorageError('That sheet could not be read from browser storage.')
+      return
+    }
+    lastSavedRef.current = `${id}:${serializeForStorage(sheet)}`
+    loadSheet(id, sheet)
+    try {
+      setLibraryEntries(markSheetOpened(id))
+    } catch (error) {
+      setStorageError(describeStorageError(error))
+    }
+  }
+
+  const handleCreateSheet = () => {
+    flushAutosaveRef.current?.()
+    loadSheet(createSheetId(), createEmptySheet())
+  }
+
+  const handleRenameLibrarySheet = (id: string, nextTitle: string) => {
+    if (id === sheetId) {
+      commit('Rename sheet', (current) => ({ ...current, title: nextTitle }))
+      return
+    }
+    try {
+      setLibraryEntries(renameLibrarySheet(id, nextTitle))
+    } catch (error) {
+      setStorageError(describeStorageError(error))
+    }
+  }
+
+  const handleDuplicateLibrarySheet = (id: string) => {
+    if (id === sheetId) {
+      flushAutosaveRef.current?.()
+    }
+    try {
+      setLibraryEntries(duplicateLibrarySheet(id))
+    } catch (error) {
+      setStorageError(describeStorageError(error))
+    }
+  }
+
+  const handleDeleteLibrarySheet = (id: string) => {
+    const entry = libraryEntries.find((item) => item.id === id)
+    if (!window.confirm(`Delete "${entry?.title ?? 'this sheet'}"? This cannot be undone.`)) {
+      return
+    }
+    let remaining: LibraryEntry[]
+    try {
+      remaining = deleteLibrarySheet(id)
+    } catch (error) {
+      setStorageError(describeStorageError(error))
+      return
+    }
+    setLibraryEntries(remaining)
+    if (id !== sheetId) {
+      return
+    }
+    // Drop the pending save so the deleted sheet is not written back.
+    flushAutosaveRef.current = null
+    const fallback = remaining
+      .map((item) => ({ id: item.id, sheet: readStoredSheet(item.id) }))
+      .find((item) => item.sheet !== null)
+    if (fallback?.sheet) {
+      lastSavedRef.current = `${fallback.id}:${serializeForStorage(fallback.sheet)}`
+      loadSheet(fallback.id, fallback.sheet)
+    } else {
+      loadSheet(createSheetId(), createEmptySheet())
+    }
+  }
+
+  const handleVoiceToggle = (rowId: NoteRowId) => {
+    const row = rowsById.get(rowId)
+    if (voices.includes(rowId)) {
+      if (usedVoices.has(rowId) || voices.length === 1) {
+        return
+      }
+      commit(`Hide ${row?.name ?? rowId}`, (current) => ({
+        ...current,
+        voices: current.voices.filter((voice) => voice !== rowId),
+      }))
+    } else {
+      commit(`Show ${row?.name ?? rowId}`, (current) => ({
+        ...current,
+        voices: sortVoices([...current.voices, rowId]),
+      }))
+    }
+    setHoverSlot(null)
+  }
+
+  const handlePreferVoice = (row: NoteRow) => {
+    setPreferredVoices((current) => ({ ...current, [row.row]: row.id }))
+    setHoverSlot(null)
+  }
+
+  const previewChord =
+    hoverSlot?.kind === 'note'
+      ? engraveChord([
+          {
+            column: hoverSlot.column,
+            rowId: hoverSlot.rowId,
+            duration: hoverSlot.duration,
+            articulation: hoverSlot.articulation,
+          },
+        ])
+      : null
+
   const handlePlayButton = () => {
     if (isPlaying) {
       stopPlayback()
@@ -621,251 +1599,827 @@ function App() {
 
   return (
     <div className="app">
-      <div className="intro">
-        <h1>Drum staff sketch</h1>
-        <p>
-          Sketch grooves with percussion note heads that snap to the correct voices and subdivisions.
-          Use the controls below to resize the staff, manage measures, copy ideas, choose note lengths,
-          and audition your pattern.
-        </p>
-        <div className="controls">
-          <label className="zoom-control">
-            <span>Staff size</span>
+      <SheetLibrary
+        entries={libraryEntries}
+        activeId={sheetId}
+        error={storageError}
+        onOpen={handleOpenLibrarySheet}
+        onCreate={handleCreateSheet}
+        onRename={handleRenameLibrarySheet}
+        onDuplicate={handleDuplicateLibrarySheet}
+        onDelete={handleDeleteLibrarySheet}
+      />
+      <main className="workspace">
+        <div className="intro">
+          <h1>Drum staff sketch</h1>
+          <p>
+            Sketch grooves with percussion note heads that snap to the correct voices and subdivisions.
+            Use the controls below to resize the staff, manage measures, copy ideas, choose note lengths,
+            and audition your pattern.
+          </p>
+          <div className="file-controls">
+            <label className="title-control">
+              <span>Title</span>
+              <input
+                type="text"
+                value={title}
+                onChange={handleTitleChange}
+                placeholder={DEFAULT_TITLE}
+                aria-label="Sheet title"
+              />
+            </label>
+            <button type="button" className="pill-button" onClick={handleSaveFile}>
+              Save file
+            </button>
+            <button type="button" className="pill-button" onClick={handleOpenFile}>
+              Open file
+            </button>
+            <MidiExportPanel
+              voices={voices}
+              pitchMap={pitchMap}
+              onPitchChange={handlePitchChange}
+              onResetPitches={handleResetPitches}
+              onExport={handleExportMidi}
+            />
+            <MidiImportPanel onImport={handleImportMidi} />
+            <DrumTabPanel
+              onImport={handleImportTab}
+              onDownload={handleDownloadTab}
+              onCopy={handleCopyTab}
+            />
+            <MixerPanel
+              voices={voices}
+              mixer={mixer}
+              samples={samples}
+              loadingVoice={loadingVoice}
+              onMixChange={handleMixChange}
+              onLoadSamples={handleLoadSamples}
+              onClearSamples={handleClearSamples}
+              onResetMixer={handleResetMixer}
+            />
+            <AudioExportPanel rendering={renderingAudio} onExport={handleExportAudio} />
+            <ScoreExportPanel
+              onExportSvg={handleExportSvg}
+              onExportPng={handleExportPng}
+              onExportMusicXml={handleExportMusicXml}
+              onPrint={handlePrint}
+            />
             <input
-              type="range"
-              min={1}
-              max={1.8}
-              step={0.05}
-              value={zoom}
-              onChange={handleZoomChange}
-              aria-label="Adjust staff size"
+              ref={fileInputRef}
+              type="file"
+              accept={`${SHEET_FILE_EXTENSION},.json,application/json`}
+              onChange={handleFileSelected}
+              hidden
             />
-            <span className="zoom-control-value">{zoomLabel}</span>
-          </label>
+          </div>
+          {fileError && (
+            <p className="file-error" role="alert">
+              {fileError}
+            </p>
+          )}
+          {importReport && (
+            <div className="import-report" role="status">
+              <ul>
+                {importReport.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+              <button type="button" className="text-button" onClick={() => setImportReport(null)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+          <div className="controls">
+            <div className="history-controls">
+              <button
+                type="button"
+                className="pill-button history"
+                onClick={undo}
+                disabled={undoLabel === null}
+                title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                ↶ Undo
+              </button>
+              <button
+                type="button"
+                className="pill-button history"
+                onClick={redo}
+                disabled={redoLabel === null}
+                title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                Redo ↷
+              </button>
+            </div>
 
-          <div className="playback-controls">
             <button
               type="button"
-              className={`pill-button play-button ${isPlaying ? 'active' : ''}`}
-              onClick={handlePlayButton}
-              disabled={flattenedNotes.length === 0}
+              className="pill-button"
+              onClick={handleCopyLink}
+              onBlur={() => setLinkCopied(false)}
+              title="Copy a link that opens this sheet"
             >
-              {isPlaying ? 'Stop' : 'Play'}
+              {linkCopied ? 'Link copied' : 'Copy link'}
             </button>
-            <label className="tempo-control">
-              <span>Tempo</span>
+
+            <label className="zoom-control">
+              <span>Staff size</span>
               <input
                 type="range"
-                min={TEMPO.min}
-                max={TEMPO.max}
-                step={1}
-                value={tempo}
-                onChange={handleTempoChange}
-                aria-label="Adjust tempo"
+                min={1}
+                max={1.8}
+                step={0.05}
+                value={zoom}
+                onChange={handleZoomChange}
+                aria-label="Adjust staff size"
               />
-              <span className="tempo-value">{tempo} BPM</span>
+              <span className="zoom-control-value">{zoomLabel}</span>
             </label>
-          </div>
 
-          <div className="duration-controls">
-            <span className="duration-label">Note length</span>
-            <div className="duration-buttons">
-              {DURATION_OPTIONS.map((option) => (
+            <div className="playback-controls">
+              <button
+                type="button"
+                className={`pill-button play-button ${isPlaying ? 'active' : ''}`}
+                onClick={handlePlayButton}
+                disabled={!canPlay}
+              >
+                {isPlaying ? 'Stop' : 'Play'}
+              </button>
+              <label className="tempo-control" title="Tempo up to the first tempo mark">
+                <span>Tempo</span>
+                <input
+                  type="range"
+                  min={TEMPO.min}
+                  max={TEMPO.max}
+                  step={1}
+                  value={tempo}
+                  onChange={handleTempoChange}
+                  aria-label="Adjust tempo"
+                />
+                <span className="tempo-value">{tempo} BPM</span>
+              </label>
+              <FeelPanel
+                feel={feel}
+                section={
+                  currentSection >= 0
+                    ? {
+                        name: measures[currentSection].form?.section ?? '',
+                        swing: measures[currentSection].form?.swing,
+                      }
+                    : null
+                }
+                onSwingChange={handleSwingChange}
+                onHumanizeChange={handleHumanizeChange}
+                onSectionSwingChange={handleSectionSwingChange}
+              />
+              {playhead?.countIn && (
+                <span className="count-in" role="status">
+                  Count-in
+                </span>
+              )}
+            </div>
+            <div className="practice-controls">
+              <button
+                type="button"
+                className={`pill-button loop-toggle ${practice.loop ? 'active' : ''}`}
+                onClick={handleLoopToggle}
+                aria-pressed={practice.loop}
+                title="Repeat a span of measures"
+              >
+                ⟲ Loop
+              </button>
+              {practice.loop && (
+                <span className="loop-range">
+                  <select value={loopStart} onChange={handleLoopStartChange} aria-label="Loop start">
+                    {measures.map((_, index) => (
+                      <option key={index} value={index}>
+                        {index + 1}
+                      </option>
+                    ))}
+                  </select>
+                  <span>to</span>
+                  <select value={loopEnd} onChange={handleLoopEndChange} aria-label="Loop end">
+                    {measures.map((_, index) => (
+                      <option key={index} value={index}>
+                        {index + 1}
+                      </option>
+                    ))}
+                  </select>
+                </span>
+              )}
+              <label>
+                <span>Count-in</span>
+                <select
+                  value={practice.countInBars}
+                  onChange={(event) =>
+                    setPractice((current) => ({
+                      ...current,
+                      countInBars: Number(event.target.value) as CountInBars,
+                    }))
+                  }
+                >
+                  {COUNT_IN_OPTIONS.map((bars) => (
+                    <option key={bars} value={bars}>
+                      {bars === 0 ? 'None' : `${bars} bar${bars > 1 ? 's' : ''}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>Click</span>
+                <select
+                  value={practice.metronome}
+                  onChange={(event) =>
+                    setPractice((current) => ({
+                      ...current,
+                      metronome: event.target.value as MetronomeMode,
+                    }))
+                  }
+                >
+                  {METRONOME_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="entry-controls" role="group" aria-label="Note entry mode">
+              <span className="entry-label">Entry</span>
+              <div className="entry-buttons">
+                {ENTRY_MODES.map((mode) => (
+                  <button
+                    key={mode.value}
+                    type="button"
+                    className={`pill-button entry ${entryMode === mode.value ? 'active' : ''}`}
+                    onClick={() => handleEntryModeChange(mode.value)}
+                    aria-pressed={entryMode === mode.value}
+                    title={mode.description}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="duration-controls">
+              <span className="duration-label">Note length</span>
+              <div className="duration-buttons">
+                {NOTE_VALUES.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    className={`pill-button duration ${
+                      selectedNoteValue === option.id ? 'active' : ''
+                    }`}
+                    onClick={() => handleNoteValueChange(option.id)}
+                    aria-pressed={selectedNoteValue === option.id}
+                  >
+                    <span aria-hidden>{option.symbol}</span>
+                    <span>{option.label}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="duration-buttons">
+                {DURATION_MODIFIERS.filter((modifier) => modifier.value !== 'plain').map(
+                  (modifier) => (
+                    <button
+                      key={modifier.value}
+                      type="button"
+                      className={`pill-button duration ${
+                        selectedModifier === modifier.value ? 'active' : ''
+                      }`}
+                      onClick={() => handleModifierChange(modifier.value)}
+                      aria-pressed={selectedModifier === modifier.value}
+                      disabled={!modifier.appliesTo.includes(selectedNoteValue)}
+                    >
+                      {modifier.label}
+                    </button>
+                  ),
+                )}
                 <button
-                  key={option.value}
                   type="button"
-                  className={`pill-button duration ${
-                    selectedDuration === option.value ? 'active' : ''
-                  }`}
-                  onClick={() => handleNoteDurationChange(option.value)}
+                  className={`pill-button duration ${restMode ? 'active' : ''}`}
+                  onClick={handleRestModeToggle}
+                  aria-pressed={restMode}
+                  title="Place rests instead of notes. The hands or feet voice follows the staff position you click."
                 >
-                  <span aria-hidden>{option.symbol}</span>
-                  <span>{option.label}</span>
+                  Rest
                 </button>
-              ))}
+              </div>
             </div>
-          </div>
 
-          <button
-            type="button"
-            className="pill-button"
-            onClick={handleClear}
-            disabled={currentMeasureNotes.length === 0}
-          >
-            Clear measure
-          </button>
-        </div>
-
-        <div className="measure-controls">
-          <div className="measure-navigation">
-            <button
-              type="button"
-              className="pill-button"
-              onClick={handlePrevMeasure}
-              disabled={currentMeasure === 0}
+            <div
+              className="articulation-controls"
+              title="New notes get this articulation. Alt-click a note to apply it to that note."
             >
-              ◀ Prev
-            </button>
-            <span className="measure-indicator">
-              Measure {currentMeasure + 1} / {measures.length}
-            </span>
+              <span className="articulation-label">Articulation</span>
+              <div className="articulation-buttons">
+                <button
+                  type="button"
+                  className={`pill-button articulation ${selectedArticulation === null ? 'active' : ''}`}
+                  onClick={() => handleArticulationChange(null)}
+                >
+                  Plain
+                </button>
+                {ARTICULATIONS.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    className={`pill-button articulation ${
+                      selectedArticulation === option.id ? 'active' : ''
+                    }`}
+                    onClick={() => handleArticulationChange(option.id)}
+                    title={option.description}
+                  >
+                    <span aria-hidden>{option.symbol}</span>
+                    <span>{option.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <button
               type="button"
               className="pill-button"
-              onClick={handleNextMeasure}
-              disabled={currentMeasure === measures.length - 1}
+              onClick={handleClear}
+              disabled={currentMeasureEmpty}
             >
-              Next ▶
+              Clear measure
             </button>
           </div>
-          <div className="measure-actions">
-            <button type="button" className="pill-button" onClick={handleAddMeasure}>
-              Add measure
-            </button>
-            <button
-              type="button"
-              className="pill-button"
-              onClick={handleCopyMeasure}
-              disabled={currentMeasureNotes.length === 0}
-            >
-              Copy measure
-            </button>
-            <button
-              type="button"
-              className="pill-button"
-              onClick={handlePasteMeasure}
-              disabled={!hasClipboard}
-            >
-              Paste here
-            </button>
+
+          <div className="measure-controls">
+            <div className="measure-navigation">
+              <button
+                type="button"
+                className="pill-button"
+                onClick={handlePrevMeasure}
+                disabled={currentMeasure === 0}
+                title="Shift-click to extend the selection"
+              >
+                ◀ Prev
+              </button>
+              <span className="measure-indicator">
+                {selectionSize === 1
+                  ? `Measure ${currentMeasure + 1} / ${measures.length}`
+                  : `Measures ${selection.start + 1}–${selection.end + 1} / ${measures.length}`}
+                {currentMeasureOffMeter && (
+                  <span className="measure-warning" title="This measure no longer matches its meter">
+                    {' '}· {measures[currentMeasure].subdivisions}/
+                    {stepsForTimeSignature(measures[currentMeasure].timeSignature)} steps
+                  </span>
+                )}
+              </span>
+              <button
+                type="button"
+                className="pill-button"
+                onClick={handleNextMeasure}
+                disabled={currentMeasure === measures.length - 1}
+                title="Shift-click to extend the selection"
+              >
+                Next ▶
+              </button>
+            </div>
+            <div className="measure-actions">
+              <label className="meter-control">
+                <span>Time</span>
+                <select
+                  value={formatTimeSignature(currentTimeSignature)}
+                  onChange={handleTimeSignatureChange}
+                  aria-label="Time signature of this measure"
+                >
+                  {!TIME_SIGNATURE_PRESETS.some((preset) =>
+                    sameTimeSignature(preset, currentTimeSignature),
+                  ) && (
+                    <option value={formatTimeSignature(currentTimeSignature)}>
+                      {formatTimeSignature(currentTimeSignature)}
+                    </option>
+                  )}
+                  {TIME_SIGNATURE_PRESETS.map((preset) => (
+                    <option key={formatTimeSignature(preset)} value={formatTimeSignature(preset)}>
+                      {formatTimeSignature(preset)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <TempoMarkControl
+                mark={measures[currentMeasure]?.tempo}
+                currentTempo={Math.round(tempos[currentMeasure]?.start ?? tempo)}
+                ramp={rampLabel(measures, currentMeasure)}
+                onChange={handleTempoMarkChange}
+              />
+              <button type="button" className="pill-button" onClick={handleAddMeasure}>
+                Add measure
+              </button>
+            </div>
+            <SongFormPanel
+              form={measures[currentMeasure]?.form ?? {}}
+              measureNumber={currentMeasure + 1}
+              onChange={handleFormChange}
+            />
+            <div className="measure-actions range-actions" role="group" aria-label={`Edit ${selectionLabel}`}>
+              <button type="button" className="pill-button" onClick={handleCopyMeasures}>
+                Copy
+              </button>
+              <button type="button" className="pill-button" onClick={handleCutMeasures}>
+                Cut
+              </button>
+              <button
+                type="button"
+                className="pill-button"
+                onClick={handlePasteInsert}
+                disabled={!hasClipboard}
+                title={`Insert the copied measures before measure ${selection.start + 1}`}
+              >
+                Paste insert
+              </button>
+              <button
+                type="button"
+                className="pill-button"
+                onClick={handlePasteOverwrite}
+                disabled={!hasClipboard}
+                title={`Replace measures from measure ${selection.start + 1} with the copied ones`}
+              >
+                Paste over
+              </button>
+              <span className="duplicate-control">
+                <button type="button" className="pill-button" onClick={handleDuplicateMeasures}>
+                  Duplicate
+                </button>
+                <select
+                  value={duplicateCount}
+                  onChange={(event) => setDuplicateCount(Number(event.target.value))}
+                  aria-label="Copies to add"
+                >
+                  {DUPLICATE_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      {`×${count}`}
+                    </option>
+                  ))}
+                </select>
+              </span>
+              <button
+                type="button"
+                className="pill-button"
+                onClick={() => handleMoveMeasures(-1)}
+                disabled={selection.start === 0}
+                aria-label={`Move ${selectionLabel} earlier`}
+              >
+                ◀ Move
+              </button>
+              <button
+                type="button"
+                className="pill-button"
+                onClick={() => handleMoveMeasures(1)}
+                disabled={selection.end === measures.length - 1}
+                aria-label={`Move ${selectionLabel} later`}
+              >
+                Move ▶
+              </button>
+              <button type="button" className="pill-button" onClick={handleDeleteMeasures}>
+                Delete
+              </button>
+              <GroovePanel
+                targetLabel={selectionLabel}
+                onInsert={handleInsertGroove}
+                onGenerate={handleGenerateGroove}
+              />
+            </div>
           </div>
         </div>
-      </div>
-
-      <div className="staff-card">
-        <div className="staff-rows">
-          {rows.map((row, rowIndex) => {
-            const rowWidth = computeRowWidth(row.subdivisions)
-            const rowScaledWidth = Math.round(rowWidth * zoom)
-            const rowNotes = flattenedNotes.filter(
-              (note) => note.column >= row.start && note.column < row.start + row.subdivisions,
-            )
-            const rowMarkers = beatMarkersByRow[rowIndex] ?? []
-
-            return (
-              <div key={row.rowIndex} className="staff-row">
-                <svg
-                  className="staff"
-                  viewBox={`0 0 ${rowWidth} ${staffHeight}`}
-                  onMouseMove={(event) => handlePointerMove(event, row.start, row.subdivisions)}
-                  onMouseLeave={handleMouseLeave}
-                  onClick={handleClick}
-                  style={{ width: `${rowScaledWidth}px`, maxWidth: '100%' }}
+
+        <div className="staff-card">
+          <div
+            className="staff-rows"
+            tabIndex={0}
+            role="application"
+            aria-label="Staff editor"
+            aria-describedby="staff-keyboard-help"
+            onKeyDown={handleStaffKeyDown}
+            onFocus={handleStaffFocus}
+            onBlur={handleStaffBlur}
+          >
+            {rows.map((row, rowIndex) => {
+              const rowWidth = computeRowWidth(row.subdivisions)
+              const rowScaledWidth = Math.round(rowWidth * zoom)
+              const rowNotation = notationByRow[rowIndex]
+              const rowMarkers = beatMarkersByRow[rowIndex] ?? []
+              const rowLastMeasure = row.measureStartIndex + row.measureCount - 1
+              const loopFirst = measureOffsets[Math.max(loopStart, row.measureStartIndex)]
+              const loopLast = measureOffsets[Math.min(loopEnd, rowLastMeasure)]
+              const rowLoop =
+                practice.loop && loopStart <= rowLastMeasure && loopEnd >= row.measureStartIndex
+                  ? {
+                      left: xForColumnInRow(loopFirst.start - HALF_GAP, row.start),
+                      right: xForColumnInRow(loopLast.start + loopLast.subdivisions - HALF_GAP, row.start),
+                      opens: loopStart >= row.measureStartIndex,
+                      closes: loopEnd <= rowLastMeasure,
+                    }
+                  : null
+              const selectedFirst = measureOffsets[Math.max(selection.start, row.measureStartIndex)]
+              const selectedLast = measureOffsets[Math.min(selection.end, rowLastMeasure)]
+              const rowSelection =
+                selectionSize > 1 &&
+                selection.start <= rowLastMeasure &&
+                selection.end >= row.measureStartIndex
+                  ? {
+                      left: xForColumnInRow(selectedFirst.start - HALF_GAP, row.start),
+                      right: xForColumnInRow(
+                        selectedLast.start + selectedLast.subdivisions - HALF_GAP,
+                        row.start,
+                      ),
+                    }
+                  : null
+              const playheadX =
+                playhead && playheadRow === rowIndex
+                  ? xForColumnInRow(
+                      (measureOffsets[playhead.measureIndex]?.start ?? 0) + playhead.column,
+                      row.start,
+                    )
+                  : null
+
+              return (
+                <div
+                  key={row.rowIndex}
+                  className="staff-row"
+                  ref={(element) => {
+                    rowRefs.current[rowIndex] = element
+                  }}
                 >
-                  <rect
-                    x={32}
-                    y={24}
-                    width={rowWidth - 64}
-                    height={staffHeight - 48}
-                    className="staff-surface"
-                    rx={16}
-                  />
-
-                  {Array.from({ length: row.subdivisions }, (_, index) => index + row.start).map(
-                    (column) => {
-                      if (column === row.start || column === row.start + row.subdivisions - 1) {
-                        return null
-                      }
-                      const x = xForColumnInRow(column, row.start)
-                      const isBeatMarker = rowMarkers.some(
-                        (marker) => Math.abs(marker.position - column) < 0.001,
-                      )
-                      return (
-                        <line
-                          key={`col-${rowIndex}-${column}`}
-                          x1={x}
-                          y1={topLineY - noteStep * 2}
-                          x2={x}
-                          y2={staffHeight - STAFF.paddingY + noteStep * 2}
-                          className={isBeatMarker ? 'grid-line beat' : 'grid-line subdivision'}
-                        />
-                      )
-                    },
-                  )}
+                  <svg
+                    className="staff"
+                    viewBox={`0 0 ${rowWidth} ${staffHeight}`}
+                    onMouseDown={(event) => handleMouseDown(event, row.start, row.subdivisions)}
+                    onMouseMove={(event) => handlePointerMove(event, row.start, row.subdivisions)}
+                    onMouseLeave={handleMouseLeave}
+                    onClick={(event) => handleClick(event, row.start, row.subdivisions)}
+                    style={{ width: `${rowScaledWidth}px`, maxWidth: '100%' }}
+                  >
+                    <rect
+                      x={32}
+                      y={24}
+                      width={rowWidth - 64}
+                      height={staffHeight - 48}
+                      className="staff-surface"
+                      rx={16}
+                    />
 
-                  {Array.from({ length: STAFF.lines }, (_, index) => topLineY + index * STAFF.lineSpacing).map(
-                    (y, index) => (
-                      <line
-                        key={`line-${rowIndex}-${index}`}
-                        x1={STAFF.paddingX - 24}
-                        y1={y}
-                        x2={rowWidth - STAFF.paddingX + 24}
-                        y2={y}
-                        className="staff-line"
+                    {measures
+                      .slice(row.measureStartIndex, row.measureStartIndex + row.measureCount)
+                      .map((measure, offset) => {
+                        const measureIndex = row.measureStartIndex + offset
+                        const measureStart = measureOffsets[measureIndex]?.start ?? row.start
+                        if (!isOffMeter(measure)) {
+                          return null
+                        }
+                        const meterSteps = stepsForTimeSignature(measure.timeSignature)
+                        const left = xForColumnInRow(measureStart - HALF_GAP, row.start)
+                        const right = xForColumnInRow(measureStart + measure.subdivisions - HALF_GAP, row.start)
+                        return (
+                          <g key={`drift-${measureIndex}`} className="measure-drift">
+                            <title>
+                              {`Measure ${measureIndex + 1} spans ${measure.subdivisions} steps instead of ${meterSteps} for ${formatTimeSignature(measure.timeSignature)}`}
+                            </title>
+                            <rect
+                              x={Math.max(left, 32)}
+                              y={24}
+                              width={Math.min(right, rowWidth - 32) - Math.max(left, 32)}
+                              height={staffHeight - 48}
+                              className="measure-drift-area"
+                            />
+                            <text
+                              x={(Math.max(left, 32) + Math.min(right, rowWidth - 32)) / 2}
+                              y={staffHeight - 8}
+                              className="measure-drift-label"
+                            >
+                              {`⚠ ${measure.subdivisions}/${meterSteps} steps`}
+                            </text>
+                          </g>
+                        )
+                      })}
+
+                    {rowSelection && (
+                      <rect
+                        className="selection-area"
+                        x={Math.max(rowSelection.left, 32)}
+                        y={24}
+                        width={Math.min(rowSelection.right, rowWidth - 32) - Math.max(rowSelection.left, 32)}
+                        height={staffHeight - 48}
                       />
-                    ),
-                  )}
+                    )}
 
-                  {rowMarkers.map((marker, index) => (
-                    <text
-                      key={`beat-${rowIndex}-${index}`}
-                      x={xForColumnInRow(marker.position, row.start)}
-                      y={topLineY - noteStep * 2.7}
-                      className="beat-label"
-                    >
-                      {marker.label}
-                    </text>
-                  ))}
+                    {rowLoop && (
+                      <g className="loop-region">
+                        <title>{`Looping measures ${loopStart + 1}–${loopEnd + 1}`}</title>
+                        <rect
+                          x={rowLoop.left}
+                          y={24}
+                          width={rowLoop.right - rowLoop.left}
+                          height={staffHeight - 48}
+                          className="loop-area"
+                        />
+                        {rowLoop.opens && (
+                          <path
+                            className="loop-marker"
+                            d={`M ${rowLoop.left + 10} 30 H ${rowLoop.left} V ${staffHeight - 30} H ${rowLoop.left + 10}`}
+                          />
+                        )}
+                        {rowLoop.closes && (
+                          <path
+                            className="loop-marker"
+                            d={`M ${rowLoop.right - 10} 30 H ${rowLoop.right} V ${staffHeight - 30} H ${rowLoop.right - 10}`}
+                          />
+                        )}
+                      </g>
+                    )}
 
-                  {rowNotes.map((note, index) =>
-                    renderNote(note, row.start, `note-${rowIndex}-${index}-${note.column}-${note.rowId}`),
-                  )}
+                    {measures
+                      .slice(row.measureStartIndex, row.measureStartIndex + row.measureCount)
+                      .flatMap((measure, index) => {
+                        const offset = measureOffsets[row.measureStartIndex + index]?.start ?? 0
+                        return gridColumns(measure, gridSteps).map((line) => ({
+                          ...line,
+                          column: offset + line.column,
+                        }))
+                      })
+                      .map(({ column, beatStart }) => {
+                        if (column === row.start) {
+                          return null
+                        }
+                        const x = xForColumnInRow(column, row.start)
+                        return (
+                          <line
+                            key={`col-${rowIndex}-${column}`}
+                            x1={x}
+                            y1={gridTopY}
+                            x2={x}
+                            y2={gridBottomY}
+                            className={beatStart ? 'grid-line beat' : 'grid-line subdivision'}
+                          />
+                        )
+                      })}
+
+                    <StaffNotation notation={rowNotation} rowStart={row.start} rowWidth={rowWidth} />
+
+                    {rowMarkers.map((marker, index) => (
+                      <text
+                        key={`beat-${rowIndex}-${index}`}
+                        x={xForColumnInRow(marker.position, row.start)}
+                        y={beatLabelY}
+                        className="beat-label"
+                      >
+                        {marker.label}
+                      </text>
+                    ))}
+
+                    {hoverSlot &&
+                      hoverSlot.rowStart === row.start &&
+                      (hoverSlot.kind === 'rest' ? (
+                        <NoteRest
+                          rest={{ column: hoverSlot.column, duration: hoverSlot.duration, stem: hoverSlot.stem }}
+                          rowStart={row.start}
+                          isPreview
+                          isRemoval={hoverSlot.removes}
+                        />
+                      ) : (
+                        previewChord && (
+                          <NoteChord
+                            chord={previewChord}
+                            rowStart={row.start}
+                            isPreview
+                            isRemoval={hoverSlot.removes}
+                          />
+                        )
+                      ))}
+
+                    {keyboardActive && cursorRowIndex === rowIndex && (
+                      <rect
+                        className="keyboard-cursor"
+                        x={xForColumnInRow(
+                          (measureOffsets[activeCursor.measureIndex]?.start ?? 0) + activeCursor.column - gridSteps / 2,
+                          row.start,
+                        )}
+                        y={gridTopY}
+                        width={COLUMN_STEP * gridSteps}
+                        height={gridBottomY - gridTopY}
+                        rx={6}
+                      />
+                    )}
 
-                  {hoverSlot &&
-                    hoverSlot.rowStart === row.start &&
-                    renderNote(
-                      {
-                        column: hoverSlot.column,
-                        rowId: hoverSlot.rowId,
-                        duration: hoverSlot.duration,
-                      },
-                      row.start,
-                      'preview',
-                      true,
+                    {playhead && playheadX !== null && (
+                      <line
+                        // A fresh element per step restarts the sweep animation.
+                        key={`playhead-${playhead.measureIndex}-${playhead.column}`}
+                        className="playhead"
+                        x1={playheadX}
+                        x2={playheadX}
+                        y1={gridTopY}
+                        y2={gridBottomY}
+                        style={
+                          {
+                            '--playhead-travel': `${COLUMN_STEP * STEPS_PER_SIXTEENTH}px`,
+                            '--playhead-duration': `${playhead.stepSeconds * STEPS_PER_SIXTEENTH}s`,
+                          } as CSSProperties
+                        }
+                      />
                     )}
-                </svg>
-              </div>
-            )
-          })}
-        </div>
+                  </svg>
+                </div>
+              )
+            })}
+          </div>
 
-        <div className="legend">
-          <span className="legend-title">Voices</span>
-          <div className="legend-items">
-            {NOTE_ROWS.map((row) => (
-              <div key={row.id} className="legend-item">
-                <svg width="26" height="26" viewBox="0 0 50 50">
-                  {row.shape === 'circle' ? (
-                    <ellipse
-                      cx={25}
-                      cy={25}
-                      rx={11}
-                      ry={8}
-                      className="legend-head"
-                    />
-                  ) : (
-                    <>
-                      <line x1={16} y1={16} x2={34} y2={34} className="legend-x" />
-                      <line x1={16} y1={34} x2={34} y2={16} className="legend-x" />
-                    </>
-                  )}
-                </svg>
-                <span>{row.name}</span>
-              </div>
-            ))}
+          <p id="staff-keyboard-help" className="staff-hint">
+            Keyboard: arrows move, Enter toggles the voice under the cursor and 1–9, 0 toggle voices
+            in legend order. Delete removes, [ and ] change the length, . dots it, T makes a triplet
+            and R switches to rests. Home and End jump through the measure, PageUp and PageDown to
+            the next measure (with Shift, the next line).
+          </p>
+          <p className="visually-hidden" aria-live="polite">
+            {announcement}
+          </p>
+
+          <div className="legend">
+            <div className="legend-header">
+              <span className="legend-title">Voices</span>
+              <details className="kit-picker">
+                <summary>Choose voices</summary>
+                <div className="kit-options">
+                  {NOTE_ROWS.map((row) => {
+                    const checked = voices.includes(row.id)
+                    const inUse = usedVoices.has(row.id)
+                    const locked = checked && (inUse || voices.length === 1)
+                    return (
+                      <label
+                        key={row.id}
+                        className={`kit-option ${locked ? 'locked' : ''}`}
+                        title={inUse ? 'Remove this voice\'s notes to hide it' : undefined}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          disabled={locked}
+                          onChange={() => handleVoiceToggle(row.id)}
+                        />
+                        <span>{row.name}</span>
+                      </label>
+                    )
+                  })}
+                </div>
+              </details>
+            </div>
+            <div className="legend-items">
+              {visibleRows.map((row, index) => {
+                const content = (
+                  <>
+                    {index < 10 && (
+                      <kbd className="legend-key" title={`Press ${(index + 1) % 10} to toggle at the cursor`}>
+                        {(index + 1) % 10}
+                      </kbd>
+                    )}
+                    <svg width="26" height="26" viewBox="0 0 50 50" aria-hidden>
+                      <NoteHead
+                        shape={row.shape}
+                        x={25}
+                        y={25}
+                        size={11}
+                        fillClass="legend-head"
+                        strokeClass="legend-x"
+                      />
+                    </svg>
+                    <span>{row.name}</span>
+                  </>
+                )
+                const sharesPosition = visibleRows.some(
+                  (other) => other.id !== row.id && other.row === row.row,
+                )
+                if (!sharesPosition) {
+                  return (
+                    <div key={row.id} className="legend-item">
+                      {content}
+                    </div>
+                  )
+                }
+                const isActive = drawableRows.some((drawable) => drawable.id === row.id)
+                return (
+                  <button
+                    key={row.id}
+                    type="button"
+                    className={`legend-item selectable ${isActive ? 'active' : ''}`}
+                    onClick={() => handlePreferVoice(row)}
+                    aria-pressed={isActive}
+                    title="Clicks on this staff position add this voice"
+                  >
+                    {content}
+                  </button>
+                )
+              })}
+            </div>
           </div>
         </div>
-      </div>
+      </main>
+      {printing && <PrintableScore sheet={currentSheet} />}
     </div>
   )
 }
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import {
+  DEFAULT_AUDIO_EXPORT,
+  REPEAT_OPTIONS,
+  SAMPLE_RATE_OPTIONS,
+  TAIL_OPTIONS,
+} from './audioExport'
+import type { AudioExportOptions } from './audioExport'
+
+type AudioExportPanelProps = {
+  rendering: boolean
+  onExport: (options: AudioExportOptions) => void
+}
+
+function AudioExportPanel({ rendering, onExport }: AudioExportPanelProps) {
+  const [options, setOptions] = useState<AudioExportOptions>(DEFAULT_AUDIO_EXPORT)
+
+  const update = (changes: Partial<AudioExportOptions>) =>
+    setOptions((current) => ({ ...current, ...changes }))
+
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Export audio</summary>
+      <div className="export-panel">
+        <fieldset className="export-audio">
+          <legend>WAV options</legend>
+          <label>
+            <span>Play through</span>
+            <select
+              value={options.repeats}
+              onChange={(event) => update({ repeats: Number(event.target.value) })}
+            >
+              {REPEAT_OPTIONS.map((repeats) => (
+                <option key={repeats} value={repeats}>
+                  {repeats === 1 ? 'Once' : `${repeats} times`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Ring-out</span>
+            <select
+              value={options.tailSeconds}
+              onChange={(event) => update({ tailSeconds: Number(event.target.value) })}
+            >
+              {TAIL_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds === 0 ? 'None' : `${seconds} s`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Sample rate</span>
+            <select
+              value={options.sampleRate}
+              onChange={(event) => update({ sampleRate: Number(event.target.value) })}
+            >
+              {SAMPLE_RATE_OPTIONS.map((rate) => (
+                <option key={rate} value={rate}>
+                  {`${(rate / 1000).toFixed(rate % 1000 === 0 ? 0 : 1)} kHz`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </fieldset>
+        <p className="export-hint">
+          16-bit stereo, rendered with the same drum sounds as playback. With no ring-out a
+          repeated groove loops seamlessly.
+        </p>
+        <div className="export-actions">
+          <button
+            type="button"
+            className="pill-button"
+            onClick={() => onExport(options)}
+            disabled={rendering}
+          >
+            {rendering ? 'Rendering…' : 'Download .wav'}
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+export default AudioExportPanel
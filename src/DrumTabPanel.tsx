@@ -0,0 +1,90 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+
+type DrumTabPanelProps = {
+  // `fallbackTitle` names the sheet when the tab has no title of its own.
+  onImport: (text: string, fallbackTitle?: string) => void
+  onDownload: () => void
+  // Resolves to whether the tab reached the clipboard.
+  onCopy: () => Promise<boolean>
+}
+
+const TAB_PLACEHOLDER = `HH|x-x-x-x-x-x-x-x-|
+SD|----o-------o---|
+BD|o-------o-o-----|`
+
+function DrumTabPanel({ onImport, onDownload, onCopy }: DrumTabPanelProps) {
+  const [text, setText] = useState('')
+  const [copied, setCopied] = useState(false)
+  const inputRef = useRef<HTMLInputElement | null>(null)
+
+  const handleFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget
+    const file = input.files?.[0]
+    // Reset so choosing the same file again still fires a change event.
+    input.value = ''
+    if (file) {
+      onImport(await file.text(), file.name.replace(/\.[^.]+$/, ''))
+    }
+  }
+
+  const handleCopy = async () => {
+    setCopied(await onCopy())
+  }
+
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Drum tab</summary>
+      <div className="export-panel tab-panel">
+        <label className="tab-input">
+          <span>Paste a tab</span>
+          <textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            placeholder={TAB_PLACEHOLDER}
+            rows={6}
+            spellCheck={false}
+          />
+        </label>
+        <p className="export-hint">
+          Use x or o for hits, X for accents and g for ghost notes. Tabs open as a new sheet.
+        </p>
+        <div className="export-actions">
+          <button type="button" className="text-button" onClick={() => inputRef.current?.click()}>
+            Choose .txt file
+          </button>
+          <button
+            type="button"
+            className="pill-button"
+            onClick={() => onImport(text)}
+            disabled={!text.trim()}
+          >
+            Import tab
+          </button>
+        </div>
+        <div className="export-actions">
+          <button
+            type="button"
+            className="text-button"
+            onClick={handleCopy}
+            onBlur={() => setCopied(false)}
+          >
+            {copied ? 'Copied' : 'Copy as tab'}
+          </button>
+          <button type="button" className="pill-button" onClick={onDownload}>
+            Download .txt
+          </button>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".txt,text/plain"
+          onChange={handleFileSelected}
+          hidden
+        />
+      </div>
+    </details>
+  )
+}
+
+export default DrumTabPanel
@@ -0,0 +1,165 @@
+import { formatSwing } from './feel'
+import { HUMANIZE_RANGE, SWING_AMOUNT, SWING_UNITS, isSwingUnit } from './sheet'
+import type { Humanize, PlaybackFeel, Swing } from './sheet'
+import { MAX_SEED, clampSeed, randomSeed } from './seededRandom'
+
+type FeelPanelProps = {
+  feel: PlaybackFeel
+  // The section the current measure is in, if it follows a rehearsal mark.
+  section: { name: string; swing?: Swing } | null
+  onSwingChange: (changes: Partial<Swing>) => void
+  onHumanizeChange: (changes: Partial<Humanize>) => void
+  // An undefined swing puts the section back on the sheet's.
+  onSectionSwingChange: (swing: Swing | undefined) => void
+}
+
+type SwingControlsProps = {
+  swing: Swing
+  label: string
+  onChange: (changes: Partial<Swing>) => void
+}
+
+function SwingControls({ swing, label, onChange }: SwingControlsProps) {
+  return (
+    <>
+      <label title={formatSwing(swing)}>
+        <span>Amount</span>
+        <input
+          type="range"
+          min={SWING_AMOUNT.min}
+          max={SWING_AMOUNT.max}
+          step={1}
+          value={swing.amount}
+          onChange={(event) => onChange({ amount: Number(event.target.value) })}
+          aria-label={`${label} amount`}
+        />
+        <span className="feel-value">{formatSwing(swing)}</span>
+      </label>
+      <label>
+        <span>Pairs of</span>
+        <select
+          value={swing.unit}
+          onChange={(event) => {
+            const unit = event.target.value
+            if (isSwingUnit(unit)) {
+              onChange({ unit })
+            }
+          }}
+          aria-label={`${label} note pairs`}
+        >
+          {SWING_UNITS.map((unit) => (
+            <option key={unit.id} value={unit.id}>
+              {unit.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </>
+  )
+}
+
+function FeelPanel({
+  feel,
+  section,
+  onSwingChange,
+  onHumanizeChange,
+  onSectionSwingChange,
+}: FeelPanelProps) {
+  const { humanize } = feel
+  const sectionSwing = section?.swing
+
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Feel</summary>
+      <div className="export-panel">
+        <fieldset>
+          <legend>Swing</legend>
+          <SwingControls swing={feel.swing} label="Swing" onChange={onSwingChange} />
+        </fieldset>
+        <fieldset>
+          <legend>Section swing</legend>
+          {section ? (
+            <>
+              <label className="feel-toggle">
+                <input
+                  type="checkbox"
+                  checked={sectionSwing !== undefined}
+                  onChange={(event) =>
+                    onSectionSwingChange(event.target.checked ? { ...feel.swing } : undefined)
+                  }
+                />
+                <span>{`Own swing for “${section.name}”`}</span>
+              </label>
+              {sectionSwing && (
+                <SwingControls
+                  swing={sectionSwing}
+                  label={`${section.name} swing`}
+                  onChange={(changes) => onSectionSwingChange({ ...sectionSwing, ...changes })}
+                />
+              )}
+            </>
+          ) : (
+            <p className="export-hint">
+              Add a rehearsal mark to give the section from it onward a swing of its own.
+            </p>
+          )}
+        </fieldset>
+        <fieldset>
+          <legend>Humanize</legend>
+          <label title={`Up to ${humanize.timing} ms early or late`}>
+            <span>Timing</span>
+            <input
+              type="range"
+              min={0}
+              max={HUMANIZE_RANGE.maxTiming}
+              step={1}
+              value={humanize.timing}
+              onChange={(event) => onHumanizeChange({ timing: Number(event.target.value) })}
+              aria-label="Humanize timing"
+            />
+            <span className="feel-value">{`±${humanize.timing} ms`}</span>
+          </label>
+          <label title={`Up to ${humanize.velocity}% softer or louder`}>
+            <span>Velocity</span>
+            <input
+              type="range"
+              min={0}
+              max={HUMANIZE_RANGE.maxVelocity}
+              step={1}
+              value={humanize.velocity}
+              onChange={(event) => onHumanizeChange({ velocity: Number(event.target.value) })}
+              aria-label="Humanize velocity"
+            />
+            <span className="feel-value">{`±${humanize.velocity}%`}</span>
+          </label>
+          <label>
+            <span>Seed</span>
+            <span className="seed-control">
+              <input
+                type="number"
+                min={0}
+                max={MAX_SEED}
+                value={humanize.seed}
+                onChange={(event) => onHumanizeChange({ seed: clampSeed(Number(event.target.value)) })}
+              />
+              <button
+                type="button"
+                className="text-button"
+                onClick={() => onHumanizeChange({ seed: randomSeed() })}
+                aria-label="New random seed"
+              >
+                New
+              </button>
+            </span>
+          </label>
+        </fieldset>
+        <p className="export-hint">
+          Saved with the sheet. Playback and the audio export play the same swing and the same
+          humanized hits.
+        </p>
+      </div>
+    </details>
+  )
+}
+
+export default FeelPanel
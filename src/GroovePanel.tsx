@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import {
+  DEFAULT_GENERATOR,
+  GROOVE_CATEGORIES,
+  GROOVE_PATTERNS,
+  HI_HAT_DENSITIES,
+  KICK_VARIATIONS,
+} from './grooves'
+import type { GeneratorOptions, GroovePattern, HiHatDensity, KickVariation } from './grooves'
+import { MAX_SEED, clampSeed, randomSeed } from './seededRandom'
+
+type GroovePanelProps = {
+  // "measure 3" or "measures 3–6", what the grooves will replace.
+  targetLabel: string
+  onInsert: (pattern: GroovePattern) => void
+  onGenerate: (options: GeneratorOptions) => void
+}
+
+function GroovePanel({ targetLabel, onInsert, onGenerate }: GroovePanelProps) {
+  const [patternId, setPatternId] = useState(GROOVE_PATTERNS[0].id)
+  const [options, setOptions] = useState<GeneratorOptions>(() => ({
+    ...DEFAULT_GENERATOR,
+    seed: randomSeed(),
+  }))
+  const pattern = GROOVE_PATTERNS.find((candidate) => candidate.id === patternId) ?? GROOVE_PATTERNS[0]
+
+  const update = (changes: Partial<GeneratorOptions>) =>
+    setOptions((current) => ({ ...current, ...changes }))
+
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Grooves</summary>
+      <div className="export-panel">
+        <fieldset>
+          <legend>Library</legend>
+          <label>
+            <span>Pattern</span>
+            <select value={pattern.id} onChange={(event) => setPatternId(event.target.value)}>
+              {GROOVE_CATEGORIES.map((category) => (
+                <optgroup key={category} label={category}>
+                  {GROOVE_PATTERNS.filter((candidate) => candidate.category === category).map(
+                    (candidate) => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {candidate.name}
+                      </option>
+                    ),
+                  )}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+          <div className="export-actions">
+            <button type="button" className="pill-button" onClick={() => onInsert(pattern)}>
+              Insert
+            </button>
+          </div>
+        </fieldset>
+        <fieldset>
+          <legend>Generator</legend>
+          <label>
+            <span>Hi-hat</span>
+            <select
+              value={options.hiHat}
+              onChange={(event) => update({ hiHat: event.target.value as HiHatDensity })}
+            >
+              {HI_HAT_DENSITIES.map((density) => (
+                <option key={density.id} value={density.id}>
+                  {density.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Kick</span>
+            <select
+              value={options.kick}
+              onChange={(event) => update({ kick: event.target.value as KickVariation })}
+            >
+              {KICK_VARIATIONS.map((variation) => (
+                <option key={variation.id} value={variation.id}>
+                  {variation.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label title={`${Math.round(options.ghostChance * 100)}%`}>
+            <span>Ghost notes</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={options.ghostChance}
+              onChange={(event) => update({ ghostChance: Number(event.target.value) })}
+            />
+          </label>
+          <label>
+            <span>Seed</span>
+            <span className="seed-control">
+              <input
+                type="number"
+                min={0}
+                max={MAX_SEED}
+                value={options.seed}
+                onChange={(event) => update({ seed: clampSeed(Number(event.target.value)) })}
+              />
+              <button
+                type="button"
+                className="text-button"
+                onClick={() => update({ seed: randomSeed() })}
+                aria-label="New random seed"
+              >
+                New
+              </button>
+            </span>
+          </label>
+          <div className="export-actions">
+            <button type="button" className="pill-button" onClick={() => onGenerate(options)}>
+              Generate
+            </button>
+          </div>
+        </fieldset>
+        <p className="export-hint">
+          Replaces the notes of {targetLabel}, following the time signature of each measure.
+          The same seed always generates the same groove.
+        </p>
+      </div>
+    </details>
+  )
+}
+
+export default GroovePanel
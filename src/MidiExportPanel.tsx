@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { GM_DRUM_NAMES, describePitch } from './midiDrumMap'
+import type { DrumPitchMap } from './midiDrumMap'
+import { NOTE_ROWS } from './sheet'
+import type { NoteRowId } from './sheet'
+
+type MidiExportPanelProps = {
+  voices: NoteRowId[]
+  pitchMap: DrumPitchMap
+  onPitchChange: (rowId: NoteRowId, pitch: number) => void
+  onResetPitches: () => void
+  onExport: (format: 0 | 1) => void
+}
+
+const FORMATS: Array<{ value: 0 | 1; label: string; description: string }> = [
+  { value: 1, label: 'Type 1', description: 'Tempo track plus one track per voice' },
+  { value: 0, label: 'Type 0', description: 'Everything in a single track' },
+]
+
+const knownPitches = Object.keys(GM_DRUM_NAMES).map(Number)
+
+function MidiExportPanel({
+  voices,
+  pitchMap,
+  onPitchChange,
+  onResetPitches,
+  onExport,
+}: MidiExportPanelProps) {
+  const [format, setFormat] = useState<0 | 1>(1)
+  const rows = NOTE_ROWS.filter((row) => voices.includes(row.id))
+
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Export MIDI</summary>
+      <div className="export-panel">
+        <fieldset className="export-formats">
+          <legend>File type</legend>
+          {FORMATS.map((option) => (
+            <label key={option.value} title={option.description}>
+              <input
+                type="radio"
+                name="midi-format"
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="export-pitches">
+          <legend>Drum notes (channel 10)</legend>
+          {rows.map((row) => (
+            <label key={row.id}>
+              <span>{row.name}</span>
+              <select
+                value={pitchMap[row.id]}
+                onChange={(event) => onPitchChange(row.id, Number(event.target.value))}
+              >
+                {!knownPitches.includes(pitchMap[row.id]) && (
+                  <option value={pitchMap[row.id]}>{describePitch(pitchMap[row.id])}</option>
+                )}
+                {knownPitches.map((pitch) => (
+                  <option key={pitch} value={pitch}>
+                    {describePitch(pitch)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="export-actions">
+          <button type="button" className="text-button" onClick={onResetPitches}>
+            Reset to General MIDI
+          </button>
+          <button type="button" className="pill-button" onClick={() => onExport(format)}>
+            Download .mid
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+export default MidiExportPanel
@@ -0,0 +1,63 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { QUANTIZE_OPTIONS } from './midiImport'
+import type { QuantizeSteps } from './midiImport'
+
+type MidiImportPanelProps = {
+  onImport: (file: File, resolution: QuantizeSteps) => void
+}
+
+function MidiImportPanel({ onImport }: MidiImportPanelProps) {
+  const [resolution, setResolution] = useState<QuantizeSteps>(3)
+  const inputRef = useRef<HTMLInputElement | null>(null)
+
+  const handleFileSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget
+    const file = input.files?.[0]
+    // Reset so choosing the same file again still fires a change event.
+    input.value = ''
+    if (file) {
+      onImport(file, resolution)
+    }
+  }
+
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Import MIDI</summary>
+      <div className="export-panel">
+        <fieldset className="export-quantize">
+          <legend>Snap hits to</legend>
+          {QUANTIZE_OPTIONS.map((option) => (
+            <label key={option.steps}>
+              <input
+                type="radio"
+                name="midi-quantize"
+                checked={resolution === option.steps}
+                onChange={() => setResolution(option.steps)}
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </fieldset>
+        <p className="export-hint">
+          Drum notes on channel 10 are read with the note map from Export MIDI. The file opens as a
+          new sheet.
+        </p>
+        <div className="export-actions">
+          <button type="button" className="pill-button" onClick={() => inputRef.current?.click()}>
+            Choose .mid file
+          </button>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".mid,.midi,audio/midi,audio/x-midi"
+          onChange={handleFileSelected}
+          hidden
+        />
+      </div>
+    </details>
+  )
+}
+
+export default MidiImportPanel
@@ -0,0 +1,154 @@
+import type { ChangeEvent } from 'react'
+import { PAN_RANGE, TUNE_RANGE, VOLUME_RANGE } from './drumKit'
+import type { KitSamples, MixerSettings, VoiceMix } from './drumKit'
+import { NOTE_ROWS } from './sheet'
+import type { NoteRowId } from './sheet'
+
+type MixerPanelProps = {
+  voices: NoteRowId[]
+  mixer: MixerSettings
+  samples: KitSamples
+  // Voice whose files are still decoding.
+  loadingVoice: NoteRowId | null
+  onMixChange: (rowId: NoteRowId, changes: Partial<VoiceMix>) => void
+  onLoadSamples: (rowId: NoteRowId, files: File[]) => void
+  onClearSamples: (rowId: NoteRowId) => void
+  onResetMixer: () => void
+}
+
+const formatPan = (pan: number) => {
+  if (Math.abs(pan) < 0.05) {
+    return 'C'
+  }
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`
+}
+
+const formatTune = (tune: number) => (tune > 0 ? `+${tune}` : `${tune}`)
+
+function MixerPanel({
+  voices,
+  mixer,
+  samples,
+  loadingVoice,
+  onMixChange,
+  onLoadSamples,
+  onClearSamples,
+  onResetMixer,
+}: MixerPanelProps) {
+  const rows = NOTE_ROWS.filter((row) => voices.includes(row.id))
+
+  const handleFiles = (rowId: NoteRowId) => (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget
+    const files = [...(input.files ?? [])]
+    // Reset so choosing the same files again still fires a change event.
+    input.value = ''
+    if (files.length > 0) {
+      onLoadSamples(rowId, files)
+    }
+  }
+
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Mixer</summary>
+      <div className="export-panel mixer-panel">
+        <div className="mixer-grid" role="group" aria-label="Voice mixer">
+          <span className="mixer-heading">Voice</span>
+          <span className="mixer-heading">Volume</span>
+          <span className="mixer-heading">Pan</span>
+          <span className="mixer-heading">Tune</span>
+          <span className="mixer-heading">Sound</span>
+          {rows.map((row) => {
+            const mix = mixer[row.id]
+            const layers = samples[row.id] ?? []
+            return (
+              <div key={row.id} className="mixer-row">
+                <span className="mixer-voice">{row.name}</span>
+                <label title={`${Math.round(mix.volume * 100)}%`}>
+                  <input
+                    type="range"
+                    min={VOLUME_RANGE.min}
+                    max={VOLUME_RANGE.max}
+                    step={VOLUME_RANGE.step}
+                    value={mix.volume}
+                    aria-label={`${row.name} volume`}
+                    onChange={(event) => onMixChange(row.id, { volume: Number(event.target.value) })}
+                  />
+                </label>
+                <label>
+                  <input
+                    type="range"
+                    min={PAN_RANGE.min}
+                    max={PAN_RANGE.max}
+                    step={PAN_RANGE.step}
+                    value={mix.pan}
+                    aria-label={`${row.name} pan`}
+                    onChange={(event) => onMixChange(row.id, { pan: Number(event.target.value) })}
+                  />
+                  <span className="mixer-value">{formatPan(mix.pan)}</span>
+                </label>
+                <label>
+                  <input
+                    type="number"
+                    min={TUNE_RANGE.min}
+                    max={TUNE_RANGE.max}
+                    step={TUNE_RANGE.step}
+                    value={mix.tune}
+                    aria-label={`${row.name} tuning in semitones`}
+                    onChange={(event) => {
+                      const tune = Number(event.target.value)
+                      if (Number.isInteger(tune) && tune >= TUNE_RANGE.min && tune <= TUNE_RANGE.max) {
+                        onMixChange(row.id, { tune })
+                      }
+                    }}
+                  />
+                  <span className="mixer-value">{`${formatTune(mix.tune)} st`}</span>
+                </label>
+                <div className="mixer-sound">
+                  <label
+                    className="text-button"
+                    title="Choose one file per velocity layer; they are ordered from quietest to loudest"
+                  >
+                    {loadingVoice === row.id
+                      ? 'Loading…'
+                      : layers.length > 0
+                        ? `${layers.length} ${layers.length === 1 ? 'sample' : 'layers'}`
+                        : 'Synth · load samples'}
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      multiple
+                      hidden
+                      disabled={loadingVoice !== null}
+                      onChange={handleFiles(row.id)}
+                    />
+                  </label>
+                  {layers.length > 0 && (
+                    <button
+                      type="button"
+                      className="text-button"
+                      onClick={() => onClearSamples(row.id)}
+                      aria-label={`Use the synth for ${row.name}`}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+        <p className="export-hint">
+          Samples come from files on this computer and last until the page is reloaded. Voices
+          without samples use the built-in synth.
+        </p>
+        <div className="export-actions">
+          <button type="button" className="text-button" onClick={onResetMixer}>
+            Reset levels
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+export default MixerPanel
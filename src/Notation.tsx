@@ -0,0 +1,551 @@
+import NoteHead from './NoteHead'
+import type { EngravedBeam, EngravedChord, EngravedHead } from './engraving'
+import { describeDuration, formatTimeSignature } from './sheet'
+import type { MeasureRest } from './sheet'
+import { formatEnding, jumpLabel } from './songForm'
+import {
+  BEAM_HOOK,
+  BEAM_SPACING,
+  BEAM_THICKNESS,
+  COLUMN_STEP,
+  HALF_GAP,
+  HEAD_WIDTH,
+  STAFF,
+  STEM_OFFSET,
+  ledgerRowsFor,
+  noteStep,
+  staffHeight,
+  topLineY,
+  xForColumnInRow,
+  yForRow,
+} from './staffLayout'
+import type { FormMark, RowNotation, TempoMarkLayout } from './staffLayout'
+
+type HeadProps = {
+  head: EngravedHead
+  x: number
+  isPreview: boolean
+}
+
+function Head({ head, x, isPreview }: HeadProps) {
+  const { note, row } = head
+  const y = yForRow(row.row)
+  const headClass = isPreview ? 'note-head preview' : 'note-head'
+  const stemClass = isPreview ? 'note-stem preview' : 'note-stem'
+  const crossClass = isPreview ? 'note-x preview' : 'note-x'
+  const ledgerClass = isPreview ? 'ledger-line preview' : 'ledger-line'
+  const markClass = isPreview ? 'note-mark preview' : 'note-mark'
+  const graceCount =
+    note.articulation === 'flam' ? 1 : note.articulation === 'drag' ? 2 : 0
+  const duration = describeDuration(note.duration)
+  const hollow = duration?.noteValue.id === 'whole' || duration?.noteValue.id === 'half'
+  // Dots sit in a space, so a head on a line moves its dot up a step.
+  const dotY = row.row % 2 === 0 ? y : y - noteStep
+
+  return (
+    <g>
+      {ledgerRowsFor(row.row).map((ledgerRow) => (
+        <line
+          key={ledgerRow}
+          x1={x - 14}
+          y1={yForRow(ledgerRow)}
+          x2={x + 14}
+          y2={yForRow(ledgerRow)}
+          className={ledgerClass}
+        />
+      ))}
+      <NoteHead
+        shape={row.shape}
+        x={x}
+        y={y}
+        fillClass={hollow ? `${headClass} hollow` : headClass}
+        strokeClass={crossClass}
+      />
+      {duration?.modifier === 'dotted' && <circle cx={x + 17} cy={dotY} r={3} className={headClass} />}
+      {note.articulation === 'ghost' && (
+        <>
+          <path className={markClass} d={`M ${x - 13} ${y - 10} Q ${x - 19} ${y} ${x - 13} ${y + 10}`} />
+          <path className={markClass} d={`M ${x + 13} ${y - 10} Q ${x + 19} ${y} ${x + 13} ${y + 10}`} />
+        </>
+      )}
+      {note.articulation === 'rimshot' && (
+        <line x1={x - 11} y1={y + 9} x2={x + 11} y2={y - 9} className={markClass} />
+      )}
+      {Array.from({ length: graceCount }, (_, index) => {
+        // Grace notes sit to the left with small slashed stems, beamed for a drag.
+        const graceX = x - 22 - (graceCount - 1 - index) * 11
+        return (
+          <g key={`grace-${index}`} className="grace-note">
+            <NoteHead
+              shape={row.shape}
+              x={graceX}
+              y={y}
+              size={5}
+              fillClass={headClass}
+              strokeClass={crossClass}
+            />
+            <line x1={graceX + 5} y1={y} x2={graceX + 5} y2={y - 26} className={stemClass} />
+          </g>
+        )
+      })}
+      {graceCount === 1 && (
+        <line x1={x - 22} y1={y - 12} x2={x - 10} y2={y - 22} className={markClass} />
+      )}
+      {graceCount === 2 && (
+        <>
+          <line x1={x - 28} y1={y - 26} x2={x - 17} y2={y - 26} className={markClass} />
+          <line x1={x - 34} y1={y - 12} x2={x - 12} y2={y - 24} className={markClass} />
+        </>
+      )}
+    </g>
+  )
+}
+
+// Heads hang off the right of an up stem and the left of a down stem.
+const stemXFor = (chord: EngravedChord, rowStart: number) =>
+  xForColumnInRow(chord.column, rowStart) +
+  (chord.shifted ? HEAD_WIDTH : 0) +
+  (chord.stem === 'up' ? STEM_OFFSET : -STEM_OFFSET)
+
+type NoteChordProps = {
+  chord: EngravedChord
+  rowStart: number
+  isPreview?: boolean
+  isRemoval?: boolean
+}
+
+export function NoteChord({ chord, rowStart, isPreview = false, isRemoval = false }: NoteChordProps) {
+  const x = xForColumnInRow(chord.column, rowStart) + (chord.shifted ? HEAD_WIDTH : 0)
+  const stemX = stemXFor(chord, rowStart)
+  const stemEndY = yForRow(chord.stemTip)
+  const stemDirection = chord.stem === 'up' ? -1 : 1
+  // Displaced heads sit a head's width across the stem.
+  const displacement = chord.stem === 'up' ? HEAD_WIDTH : -HEAD_WIDTH
+  const groupClass = isPreview ? `note preview${isRemoval ? ' removal' : ''}` : 'note'
+  const stemClass = isPreview ? 'note-stem preview' : 'note-stem'
+  const flagClass = isPreview ? 'note-flag preview' : 'note-flag'
+  const markClass = isPreview ? 'note-mark preview' : 'note-mark'
+  const accented = chord.heads.some((head) => head.note.articulation === 'accent')
+  // Accents go past the stem tip, clear of any beams.
+  const accentY = stemEndY + stemDirection * 8
+
+  return (
+    <g className={groupClass}>
+      {chord.heads.map((head, index) => (
+        <Head
+          key={`head-${index}`}
+          head={head}
+          x={head.displaced ? x + displacement : x}
+          isPreview={isPreview}
+        />
+      ))}
+      {chord.hasStem && (
+        <line
+          x1={stemX}
+          y1={yForRow(chord.stemBase)}
+          x2={stemX}
+          y2={stemEndY}
+          className={stemClass}
+        />
+      )}
+      {Array.from({ length: chord.flags }, (_, index) => {
+        // Each extra flag stacks a little further down the stem.
+        const flagY = stemEndY - stemDirection * index * 9
+        return (
+          <path
+            key={`flag-${index}`}
+            className={flagClass}
+            d={`M ${stemX} ${flagY} L ${stemX - stemDirection * 18} ${flagY - stemDirection * 6} L ${stemX} ${flagY - stemDirection * 12} Z`}
+          />
+        )
+      })}
+      {accented && (
+        <path
+          className={markClass}
+          d={`M ${stemX - 8} ${accentY - 5} L ${stemX + 8} ${accentY} L ${stemX - 8} ${accentY + 5}`}
+        />
+      )}
+      {!chord.beamed && describeDuration(chord.duration)?.modifier === 'triplet' && (
+        <text
+          x={stemX + (chord.stem === 'up' ? -12 : 12)}
+          y={stemEndY + (chord.stem === 'up' ? 4 : 8)}
+          className={isPreview ? 'tuplet-number preview' : 'tuplet-number'}
+        >
+          3
+        </text>
+      )}
+    </g>
+  )
+}
+
+type NoteBeamProps = {
+  beam: EngravedBeam
+  rowStart: number
+}
+
+export function NoteBeam({ beam, rowStart }: NoteBeamProps) {
+  const tipY = yForRow(beam.tip)
+  // Inner beams step back along the stems, towards the heads.
+  const inward = beam.stem === 'up' ? 1 : -1
+  const stemXs = beam.chords.map((chord) => stemXFor(chord, rowStart))
+  const first = stemXs[0]
+  const last = stemXs[stemXs.length - 1]
+
+  return (
+    <g className="beam-group">
+      {beam.segments.map((segment, index) => {
+        const y = tipY + inward * segment.level * BEAM_SPACING
+        const fromX = stemXs[segment.from]
+        const toX = segment.hook
+          ? fromX + (segment.hook === 'right' ? BEAM_HOOK : -BEAM_HOOK)
+          : stemXs[segment.to]
+        const left = Math.min(fromX, toX)
+        const right = Math.max(fromX, toX)
+        return (
+          <rect
+            key={`beam-${index}`}
+            x={left - 1}
+            y={beam.stem === 'up' ? y : y - BEAM_THICKNESS}
+            width={right - left + 2}
+            height={BEAM_THICKNESS}
+            className="note-beam"
+          />
+        )
+      })}
+      {beam.tuplet && (
+        <text
+          x={(first + last) / 2}
+          y={beam.stem === 'up' ? tipY - 6 : tipY + 16}
+          className="tuplet-number"
+        >
+          3
+        </text>
+      )}
+    </g>
+  )
+}
+
+type NoteRestProps = {
+  rest: MeasureRest
+  rowStart: number
+  isPreview?: boolean
+  isRemoval?: boolean
+}
+
+export function NoteRest({ rest, rowStart, isPreview = false, isRemoval = false }: NoteRestProps) {
+  const duration = describeDuration(rest.duration)
+  const x = xForColumnInRow(rest.column, rowStart)
+  // Hands rests sit high on the staff and feet rests low, so both voices
+  // can rest at once without colliding.
+  const lineY = yForRow(rest.stem === 'up' ? 3 : 7)
+  const groupClass = isPreview ? `rest preview${isRemoval ? ' removal' : ''}` : 'rest'
+  const value = duration?.noteValue.id ?? 'sixteenth'
+  const flags = value === 'eighth' ? 1 : value === 'sixteenth' ? 2 : 0
+
+  return (
+    <g className={groupClass}>
+      {value === 'whole' && <rect x={x - 8} y={lineY} width={16} height={noteStep * 0.8} />}
+      {value === 'half' && (
+        <rect x={x - 8} y={lineY - noteStep * 0.8} width={16} height={noteStep * 0.8} />
+      )}
+      {value === 'quarter' && (
+        <path
+          className="rest-stroke"
+          d={`M ${x - 4} ${lineY - noteStep * 2} L ${x + 5} ${lineY - noteStep} L ${x - 4} ${lineY} L ${x + 5} ${lineY + noteStep} Q ${x - 8} ${lineY + noteStep} ${x + 1} ${lineY + noteStep * 2}`}
+        />
+      )}
+      {flags > 0 && (
+        <>
+          <line
+            x1={x + 6}
+            y1={lineY - noteStep}
+            x2={x - 2}
+            y2={lineY + noteStep * (flags + 0.5)}
+            className="rest-stroke"
+          />
+          {Array.from({ length: flags }, (_, index) => {
+            const flagY = lineY - noteStep + index * noteStep
+            return (
+              <g key={`rest-flag-${index}`}>
+                <circle cx={x - 3 - index * 2} cy={flagY + 2} r={3.5} />
+                <path className="rest-stroke" d={`M ${x - 3 - index * 2} ${flagY + 4} Q ${x + 2} ${flagY + 5} ${x + 6 - index * 2.5} ${flagY}`} />
+              </g>
+            )
+          })}
+        </>
+      )}
+      {duration?.modifier === 'dotted' && <circle cx={x + 14} cy={lineY - noteStep} r={3} />}
+      {duration?.modifier === 'triplet' && (
+        <text
+          x={x}
+          y={rest.stem === 'up' ? lineY - noteStep * 3 : lineY + noteStep * 4}
+          className={isPreview ? 'tuplet-number preview' : 'tuplet-number'}
+        >
+          3
+        </text>
+      )}
+    </g>
+  )
+}
+
+const staffBottomY = topLineY + STAFF.lineSpacing * (STAFF.lines - 1)
+// A repeat sign at the front of a row needs room before the meter, so the
+// staff lines reach further left on those rows.
+const REPEAT_ROW_LEFT = 14
+// Stems and accents reach almost to the top of the row, so the signs above
+// the staff share the thin band over them and the instructions below it sit
+// right at the bottom.
+const FORM_BAND_TOP = 1
+const FORM_BAND_BASELINE = 19
+const VOLTA_Y = 6
+const SIGN_Y = 12
+
+type RepeatSignProps = {
+  x: number
+  // Which way the dots face: into the repeated passage.
+  facing: 'right' | 'left'
+}
+
+function RepeatSign({ x, facing }: RepeatSignProps) {
+  const side = facing === 'right' ? 1 : -1
+  return (
+    <g className="repeat-sign">
+      <rect x={facing === 'right' ? x : x - 5} y={topLineY} width={5} height={staffBottomY - topLineY} />
+      <line x1={x + side * 9} y1={topLineY} x2={x + side * 9} y2={staffBottomY} className="barline" />
+      <circle cx={x + side * 15} cy={topLineY + STAFF.lineSpacing * 1.5} r={3.5} />
+      <circle cx={x + side * 15} cy={topLineY + STAFF.lineSpacing * 2.5} r={3.5} />
+    </g>
+  )
+}
+
+type SignProps = {
+  x: number
+  y: number
+}
+
+function SegnoSign({ x, y }: SignProps) {
+  return (
+    <g className="form-sign" aria-label="Segno">
+      <path d={`M ${x + 5} ${y - 8} C ${x - 7} ${y - 11} ${x - 7} ${y - 1} ${x} ${y} C ${x + 7} ${y + 1} ${x + 7} ${y + 11} ${x - 5} ${y + 8}`} />
+      <line x1={x - 8} y1={y + 9} x2={x + 8} y2={y - 9} />
+      <circle cx={x - 6} cy={y + 2} r={1.8} className="form-dot" />
+      <circle cx={x + 6} cy={y - 2} r={1.8} className="form-dot" />
+    </g>
+  )
+}
+
+function CodaSign({ x, y }: SignProps) {
+  return (
+    <g className="form-sign" aria-label="Coda">
+      <ellipse cx={x} cy={y} rx={5} ry={7} />
+      <line x1={x - 10} y1={y} x2={x + 10} y2={y} />
+      <line x1={x} y1={y - 10} x2={x} y2={y + 10} />
+    </g>
+  )
+}
+
+type SongFormSignsProps = {
+  mark: FormMark
+  rowStart: number
+  rowWidth: number
+}
+
+// Where the signs at the front of a measure go in the band above the staff,
+// and where that band is free again for a tempo mark.
+const frontSigns = (mark: FormMark, rowStart: number) => {
+  const { form } = mark
+  const frontX = mark.rowStart
+    ? form.repeatStart
+      ? REPEAT_ROW_LEFT
+      : STAFF.paddingX - 24
+    : xForColumnInRow(mark.start - HALF_GAP, rowStart)
+  const markX = mark.rowStart ? 8 : frontX + 4
+  const markWidth = form.section ? form.section.length * 9 + 14 : 0
+  const signX = form.section
+    ? markX + markWidth + 14
+    : (mark.rowStart ? STAFF.paddingX - 24 : frontX) + 14
+  let freeX = form.section ? markX + markWidth + 8 : markX
+  if (form.segno || form.coda) {
+    freeX = signX + (form.segno && form.coda ? 24 : 0) + 14
+  }
+  if (form.ending && mark.opensEnding) {
+    freeX = Math.max(freeX, frontX + 18 + formatEnding(form.ending).length * 8)
+  }
+  return { frontX, markX, markWidth, signX, freeX }
+}
+
+/**
+ * The song-form signs of one measure: a boxed rehearsal mark, repeat signs
+ * at either edge, a volta bracket over the measure, segno and coda signs at
+ * its front, and To Coda, Fine and D.C./D.S. instructions at its back.
+ */
+function SongFormSigns({ mark, rowStart, rowWidth }: SongFormSignsProps) {
+  const { form } = mark
+  const { frontX, markX, markWidth, signX } = frontSigns(mark, rowStart)
+  const backX = mark.rowEnd ? rowWidth - STAFF.paddingX + 24 : xForColumnInRow(mark.end - HALF_GAP, rowStart)
+  const instructions = [form.fine ? 'Fine' : null, form.jump ? jumpLabel(form.jump) : null].filter(Boolean)
+
+  return (
+    <g className="song-form">
+      {form.section && (
+        <g className="rehearsal-mark">
+          <rect x={markX} y={FORM_BAND_TOP} width={markWidth} height={22} rx={3} />
+          <text x={markX + 7} y={FORM_BAND_BASELINE - 2}>
+            {form.section}
+          </text>
+        </g>
+      )}
+      {form.repeatStart && <RepeatSign x={frontX} facing="right" />}
+      {form.repeatEnd && <RepeatSign x={backX} facing="left" />}
+      {form.repeatEnd !== undefined && form.repeatEnd > 2 && (
+        <text x={backX - (form.ending ? 10 : 4)} y={FORM_BAND_BASELINE} className="form-text end">
+          {`×${form.repeatEnd}`}
+        </text>
+      )}
+      {form.ending && (
+        <g className="volta">
+          <path
+            d={[
+              mark.opensEnding ? `M ${frontX + 3} ${VOLTA_Y + 14} V ${VOLTA_Y}` : `M ${frontX} ${VOLTA_Y}`,
+              `H ${backX - 3}`,
+              mark.closesEnding && form.repeatEnd ? `V ${VOLTA_Y + 14}` : '',
+            ].join(' ')}
+          />
+          {mark.opensEnding && (
+            <text x={frontX + 8} y={FORM_BAND_BASELINE} className="volta-label">
+              {formatEnding(form.ending)}
+            </text>
+          )}
+        </g>
+      )}
+      {form.segno && <SegnoSign x={signX} y={SIGN_Y} />}
+      {form.coda && <CodaSign x={signX + (form.segno ? 24 : 0)} y={SIGN_Y} />}
+      {form.toCoda && (
+        <g>
+          <text x={backX - 26} y={FORM_BAND_BASELINE} className="form-text end">
+            To Coda
+          </text>
+          <CodaSign x={backX - 12} y={SIGN_Y} />
+        </g>
+      )}
+      {instructions.length > 0 && (
+        <text x={backX - 4} y={staffHeight - 4} className="form-text end">
+          {instructions.join('  ')}
+        </text>
+      )}
+    </g>
+  )
+}
+
+type TempoMarkSignProps = {
+  tempo: TempoMarkLayout
+  // The song-form signs of the same measure, which the mark makes way for.
+  form: FormMark | undefined
+  rowStart: number
+}
+
+/** A metronome mark above the front of a measure, after any song-form signs. */
+function TempoMarkSign({ tempo, form, rowStart }: TempoMarkSignProps) {
+  const x = form
+    ? frontSigns(form, rowStart).freeX
+    : tempo.rowStart
+      ? 8
+      : xForColumnInRow(tempo.position - HALF_GAP, rowStart) + 4
+  return (
+    <text x={x} y={FORM_BAND_BASELINE} className="tempo-mark">
+      {`♩ = ${tempo.mark.bpm}`}
+      {tempo.ramp && <tspan className="tempo-ramp">{` ${tempo.ramp}`}</tspan>}
+    </text>
+  )
+}
+
+type StaffNotationProps = {
+  notation: RowNotation
+  rowStart: number
+  rowWidth: number
+}
+
+/**
+ * The printed content of one staff row: lines, barlines, meters, song-form
+ * signs, tempo marks, notes, beams and rests. Shared by the editor and the score exports, so it draws
+ * nothing that depends on hover, zoom or playback.
+ */
+export function StaffNotation({ notation, rowStart, rowWidth }: StaffNotationProps) {
+  const opensWithRepeat = notation.forms.some((mark) => mark.rowStart && mark.form.repeatStart)
+  return (
+    <g className="staff-notation">
+      {Array.from({ length: STAFF.lines }, (_, index) => topLineY + index * STAFF.lineSpacing).map(
+        (y, index) => (
+          <line
+            key={`line-${index}`}
+            x1={opensWithRepeat ? REPEAT_ROW_LEFT : STAFF.paddingX - 24}
+            y1={y}
+            x2={rowWidth - STAFF.paddingX + 24}
+            y2={y}
+            className="staff-line"
+          />
+        ),
+      )}
+
+      {notation.barlines.map((position) => {
+        const x = xForColumnInRow(position - HALF_GAP, rowStart)
+        return (
+          <line
+            key={`bar-${position}`}
+            x1={x}
+            y1={topLineY}
+            x2={x}
+            y2={topLineY + STAFF.lineSpacing * (STAFF.lines - 1)}
+            className="barline"
+          />
+        )
+      })}
+
+      {notation.meters.map((mark) => {
+        const x = mark.rowStart
+          ? STAFF.paddingX - 28
+          : xForColumnInRow(mark.position - HALF_GAP, rowStart) +
+            COLUMN_STEP * HALF_GAP * 0.5
+        return (
+          <g
+            key={`meter-${mark.position}`}
+            className="time-signature"
+            aria-label={`Time signature ${formatTimeSignature(mark.timeSignature)}`}
+          >
+            <text x={x} y={topLineY + STAFF.lineSpacing}>
+              {mark.timeSignature.beats}
+            </text>
+            <text x={x} y={topLineY + STAFF.lineSpacing * 3}>
+              {mark.timeSignature.beatUnit}
+            </text>
+          </g>
+        )
+      })}
+
+      {notation.forms.map((mark) => (
+        <SongFormSigns key={`form-${mark.start}`} mark={mark} rowStart={rowStart} rowWidth={rowWidth} />
+      ))}
+
+      {notation.tempos.map((tempo) => (
+        <TempoMarkSign
+          key={`tempo-${tempo.position}`}
+          tempo={tempo}
+          form={notation.forms.find((mark) => mark.start === tempo.position)}
+          rowStart={rowStart}
+        />
+      ))}
+
+      {notation.chords.map((chord) => (
+        <NoteChord key={`chord-${chord.column}-${chord.stem}`} chord={chord} rowStart={rowStart} />
+      ))}
+
+      {notation.beams.map((beam) => (
+        <NoteBeam key={`beam-${beam.chords[0].column}-${beam.stem}`} beam={beam} rowStart={rowStart} />
+      ))}
+
+      {notation.rests.map((rest) => (
+        <NoteRest key={`rest-${rest.column}-${rest.stem}`} rest={rest} rowStart={rowStart} />
+      ))}
+    </g>
+  )
+}
@@ -0,0 +1,54 @@
+import type { NoteShape } from './sheet'
+
+type NoteHeadProps = {
+  shape: NoteShape
+  x: number
+  y: number
+  // Half the head width; staff heads use the default, the legend draws larger.
+  size?: number
+  // Class for filled heads, and for heads drawn only with strokes.
+  fillClass: string
+  strokeClass: string
+}
+
+function NoteHead({ shape, x, y, size = 8.5, fillClass, strokeClass }: NoteHeadProps) {
+  const half = size * 0.7
+
+  switch (shape) {
+    case 'circle':
+      return <ellipse cx={x} cy={y} rx={size} ry={size * 0.76} className={fillClass} />
+    case 'x':
+      return (
+        <>
+          <line x1={x - half} y1={y - half} x2={x + half} y2={y + half} className={strokeClass} />
+          <line x1={x - half} y1={y + half} x2={x + half} y2={y - half} className={strokeClass} />
+        </>
+      )
+    case 'circled-x': {
+      const inner = half * 0.75
+      return (
+        <>
+          <circle cx={x} cy={y} r={size} className={`${strokeClass} outline`} />
+          <line x1={x - inner} y1={y - inner} x2={x + inner} y2={y + inner} className={strokeClass} />
+          <line x1={x - inner} y1={y + inner} x2={x + inner} y2={y - inner} className={strokeClass} />
+        </>
+      )
+    }
+    case 'diamond':
+      return (
+        <polygon
+          points={`${x - size},${y} ${x},${y - size * 0.8} ${x + size},${y} ${x},${y + size * 0.8}`}
+          className={fillClass}
+        />
+      )
+    case 'triangle':
+      return (
+        <polygon
+          points={`${x - size},${y + size * 0.75} ${x},${y - size * 0.85} ${x + size},${y + size * 0.75}`}
+          className={fillClass}
+        />
+      )
+  }
+}
+
+export default NoteHead
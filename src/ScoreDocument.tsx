@@ -0,0 +1,118 @@
+import { StaffNotation } from './Notation'
+import type { DrumSheet } from './sheet'
+import { STAFF, layoutScore, staffHeight } from './staffLayout'
+import type { ScoreRow } from './staffLayout'
+
+// Room above the first staff for the title in a standalone SVG.
+const HEADER_HEIGHT = 72
+// Rows per printed page. A full row of four measures prints about 17mm
+// tall, so ten leave room for the header and footer on A4 or Letter.
+const ROWS_PER_PAGE = 10
+
+type ScoreRowsProps = {
+  rows: ScoreRow[]
+  top: number
+}
+
+function ScoreRows({ rows, top }: ScoreRowsProps) {
+  return (
+    <>
+      {rows.map((row, index) => (
+        <g key={row.layout.rowIndex} transform={`translate(0 ${top + index * staffHeight})`}>
+          <StaffNotation notation={row.notation} rowStart={row.layout.start} rowWidth={row.width} />
+        </g>
+      ))}
+    </>
+  )
+}
+
+type TempoMarkProps = {
+  tempo: number
+  x: number
+  y: number
+}
+
+function TempoMark({ tempo, x, y }: TempoMarkProps) {
+  return (
+    <text x={x} y={y} className="score-tempo">
+      {`♩ = ${tempo}`}
+    </text>
+  )
+}
+
+type ScoreSvgProps = {
+  sheet: DrumSheet
+  // Stylesheet embedded in the file so it renders the same anywhere.
+  styles: string
+}
+
+/** The whole sheet as one self-contained SVG, titled, with every row stacked. */
+export function ScoreSvg({ sheet, styles }: ScoreSvgProps) {
+  const { rows, width } = layoutScore(sheet.measures)
+  const height = HEADER_HEIGHT + rows.length * staffHeight
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      <style>{styles}</style>
+      <rect width={width} height={height} className="score-page" />
+      <text x={width / 2} y={HEADER_HEIGHT - 16} className="score-title">
+        {sheet.title}
+      </text>
+      {!sheet.measures[0]?.tempo && (
+        <TempoMark tempo={sheet.tempo} x={STAFF.paddingX - 24} y={HEADER_HEIGHT + 40} />
+      )}
+      <ScoreRows rows={rows} top={HEADER_HEIGHT} />
+    </svg>
+  )
+}
+
+type PrintableScoreProps = {
+  sheet: DrumSheet
+}
+
+/**
+ * The sheet split into pages for the browser's print dialog. Every page
+ * draws its rows at the same scale, carries the title and a page number, and
+ * the first one also shows the tempo unless the first measure has its own
+ * tempo mark.
+ */
+export function PrintableScore({ sheet }: PrintableScoreProps) {
+  const { rows, width } = layoutScore(sheet.measures)
+  const pages: ScoreRow[][] = []
+  for (let index = 0; index < rows.length; index += ROWS_PER_PAGE) {
+    pages.push(rows.slice(index, index + ROWS_PER_PAGE))
+  }
+
+  return (
+    <div className="print-score" aria-hidden>
+      {pages.map((pageRows, pageIndex) => {
+        const height = pageRows.length * staffHeight
+        return (
+          <section key={pageIndex} className="print-page">
+            <header className="print-header">
+              {pageIndex === 0 ? (
+                <>
+                  <h1>{sheet.title}</h1>
+                  {!sheet.measures[0]?.tempo && (
+                    <p className="print-tempo">{`♩ = ${sheet.tempo}`}</p>
+                  )}
+                </>
+              ) : (
+                <p className="print-running-title">{sheet.title}</p>
+              )}
+            </header>
+            <svg className="print-staves" viewBox={`0 0 ${width} ${height}`}>
+              <ScoreRows rows={pageRows} top={0} />
+            </svg>
+            <footer className="print-footer">{`Page ${pageIndex + 1} of ${pages.length}`}</footer>
+          </section>
+        )
+      })}
+    </div>
+  )
+}
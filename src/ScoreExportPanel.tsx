@@ -0,0 +1,42 @@
+type ScoreExportPanelProps = {
+  onExportSvg: () => void
+  onExportPng: () => void
+  onExportMusicXml: () => void
+  onPrint: () => void
+}
+
+function ScoreExportPanel({
+  onExportSvg,
+  onExportPng,
+  onExportMusicXml,
+  onPrint,
+}: ScoreExportPanelProps) {
+  return (
+    <details className="export-menu">
+      <summary className="pill-button">Export score</summary>
+      <div className="export-panel">
+        <p className="export-hint">
+          Exports draw the whole sheet at print size, whatever the zoom. To make a PDF, print and
+          choose Save as PDF as the destination. MusicXML opens in MuseScore, Finale and Sibelius,
+          with drum sounds from the Export MIDI note map.
+        </p>
+        <div className="export-actions">
+          <button type="button" className="pill-button" onClick={onExportSvg}>
+            Download .svg
+          </button>
+          <button type="button" className="pill-button" onClick={onExportPng}>
+            Download .png
+          </button>
+          <button type="button" className="pill-button" onClick={onExportMusicXml}>
+            Download MusicXML
+          </button>
+          <button type="button" className="pill-button" onClick={onPrint}>
+            Print or save PDF
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+export default ScoreExportPanel
@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { LibraryEntry } from './sheetLibrary'
+
+type SheetLibraryProps = {
+  entries: LibraryEntry[]
+  activeId: string
+  error: string | null
+  onOpen: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+const updatedFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+})
+
+function SheetLibrary({
+  entries,
+  activeId,
+  error,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: SheetLibraryProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+
+  const startRename = (entry: LibraryEntry) => {
+    setRenamingId(entry.id)
+    setDraftTitle(entry.title)
+  }
+
+  const commitRename = (event?: FormEvent) => {
+    event?.preventDefault()
+    if (renamingId === null) {
+      return
+    }
+    const nextTitle = draftTitle.trim()
+    if (nextTitle) {
+      onRename(renamingId, nextTitle)
+    }
+    setRenamingId(null)
+  }
+
+  return (
+    <aside className="library" aria-label="Saved sheets">
+      <div className="library-header">
+        <span className="library-title">Library</span>
+        <button type="button" className="pill-button library-new" onClick={onCreate}>
+          New sheet
+        </button>
+      </div>
+
+      {error && (
+        <p className="library-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="library-empty">Sheets you edit are saved here automatically.</p>
+      ) : (
+        <ul className="library-list">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className={`library-item ${entry.id === activeId ? 'active' : ''}`}
+            >
+              {renamingId === entry.id ? (
+                <form className="library-rename" onSubmit={commitRename}>
+                  <input
+                    type="text"
+                    value={draftTitle}
+                    onChange={(event) => setDraftTitle(event.target.value)}
+                    onBlur={() => commitRename()}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Escape') {
+                        setRenamingId(null)
+                      }
+                    }}
+                    aria-label="Sheet name"
+                    autoFocus
+                  />
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  className="library-open"
+                  onClick={() => onOpen(entry.id)}
+                  aria-current={entry.id === activeId ? 'true' : undefined}
+                >
+                  <span className="library-name">{entry.title}</span>
+                  <span className="library-updated">
+                    {updatedFormatter.format(entry.updatedAt)}
+                  </span>
+                </button>
+              )}
+              <div className="library-actions">
+                <button type="button" onClick={() => startRename(entry)}>
+                  Rename
+                </button>
+                <button type="button" onClick={() => onDuplicate(entry.id)}>
+                  Duplicate
+                </button>
+                <button type="button" onClick={() => onDelete(entry.id)}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  )
+}
+
+export default SheetLibrary
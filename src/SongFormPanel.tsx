@@ -0,0 +1,112 @@
+import { FORM_JUMPS, isFormJump } from './sheet'
+import type { MeasureForm } from './sheet'
+import { ENDING_OPTIONS, MAX_SECTION_LENGTH, REPEAT_PLAY_OPTIONS, formatEnding } from './songForm'
+
+type SongFormPanelProps = {
+  form: MeasureForm
+  measureNumber: number
+  // Changed fields only; an undefined or false field switches that sign off.
+  onChange: (changes: MeasureForm) => void
+}
+
+const SIGN_TOGGLES = [
+  { key: 'segno', label: 'Segno', title: 'D.S. jumps back to here' },
+  { key: 'coda', label: 'Coda', title: 'The coda starts here' },
+  { key: 'toCoda', label: 'To Coda', title: 'After a D.S. or D.C. al Coda, skip to the coda from here' },
+  { key: 'fine', label: 'Fine', title: 'After a D.S. or D.C., the song ends here' },
+] as const
+
+const endingKey = (ending: number[] | undefined) => ending?.join(',') ?? ''
+
+function SongFormPanel({ form, measureNumber, onChange }: SongFormPanelProps) {
+  return (
+    <div
+      className="measure-actions form-actions"
+      role="group"
+      aria-label={`Song form of measure ${measureNumber}`}
+    >
+      <label className="meter-control">
+        <span>Section</span>
+        <input
+          type="text"
+          value={form.section ?? ''}
+          maxLength={MAX_SECTION_LENGTH}
+          placeholder="Verse, A…"
+          onChange={(event) => onChange({ section: event.target.value })}
+          aria-label="Rehearsal mark starting at this measure"
+        />
+      </label>
+      <label className="meter-control">
+        <span>Repeat</span>
+        <select
+          value={form.repeatStart ? 'start' : ''}
+          onChange={(event) => onChange({ repeatStart: event.target.value === 'start' })}
+          aria-label="Repeat sign at the start of this measure"
+        >
+          <option value="">No start</option>
+          <option value="start">From here</option>
+        </select>
+        <select
+          value={form.repeatEnd ?? 0}
+          onChange={(event) => onChange({ repeatEnd: Number(event.target.value) || undefined })}
+          aria-label="Repeat sign at the end of this measure"
+        >
+          <option value={0}>No end</option>
+          {REPEAT_PLAY_OPTIONS.map((plays) => (
+            <option key={plays} value={plays}>
+              {`Back, play ${plays}×`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="meter-control">
+        <span>Ending</span>
+        <select
+          value={endingKey(form.ending)}
+          onChange={(event) =>
+            onChange({
+              ending: ENDING_OPTIONS.find((ending) => endingKey(ending) === event.target.value),
+            })
+          }
+          aria-label="Volta bracket over this measure"
+        >
+          <option value="">None</option>
+          {ENDING_OPTIONS.map((ending) => (
+            <option key={endingKey(ending)} value={endingKey(ending)}>
+              {formatEnding(ending)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="meter-control">
+        <span>Jump</span>
+        <select
+          value={form.jump ?? ''}
+          onChange={(event) =>
+            onChange({ jump: isFormJump(event.target.value) ? event.target.value : undefined })
+          }
+          aria-label="Jump at the end of this measure"
+        >
+          <option value="">None</option>
+          {FORM_JUMPS.map((jump) => (
+            <option key={jump.id} value={jump.id}>
+              {jump.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {SIGN_TOGGLES.map((sign) => (
+        <label key={sign.key} className="form-toggle" title={sign.title}>
+          <input
+            type="checkbox"
+            checked={form[sign.key] ?? false}
+            onChange={(event) => onChange({ [sign.key]: event.target.checked })}
+          />
+          <span>{sign.label}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export default SongFormPanel
@@ -0,0 +1,52 @@
+import { TEMPO } from './sheet'
+import type { TempoMark } from './sheet'
+
+type TempoMarkControlProps = {
+  mark: TempoMark | undefined
+  // Tempo the measure would start at without a mark, the first value of a new one.
+  currentTempo: number
+  // "accel." or "rit." while the mark ramps towards the next one.
+  ramp: string | null
+  onChange: (mark: TempoMark | undefined) => void
+}
+
+function TempoMarkControl({ mark, currentTempo, ramp, onChange }: TempoMarkControlProps) {
+  const mode = mark ? (mark.ramp ? 'ramp' : 'hold') : ''
+
+  return (
+    <label className="meter-control">
+      <span>Tempo</span>
+      <select
+        value={mode}
+        onChange={(event) => {
+          const next = event.target.value
+          const bpm = mark?.bpm ?? currentTempo
+          onChange(next === '' ? undefined : next === 'ramp' ? { bpm, ramp: true } : { bpm })
+        }}
+        aria-label="Tempo mark at the start of this measure"
+      >
+        <option value="">No mark</option>
+        <option value="hold">Mark</option>
+        <option value="ramp">{ramp ? `Mark, ${ramp}` : 'Mark, ramp to next'}</option>
+      </select>
+      {mark && (
+        <input
+          type="number"
+          min={TEMPO.min}
+          max={TEMPO.max}
+          step={1}
+          value={mark.bpm}
+          onChange={(event) => {
+            const bpm = Number(event.target.value)
+            if (Number.isInteger(bpm) && bpm >= TEMPO.min && bpm <= TEMPO.max) {
+              onChange({ ...mark, bpm })
+            }
+          }}
+          aria-label="Tempo of the mark in quarter notes per minute"
+        />
+      )}
+    </label>
+  )
+}
+
+export default TempoMarkControl
@@ -0,0 +1,90 @@
+import type { DrumKit } from './drumKit'
+import { triggerNote } from './drumSynth'
+import type { StoppableNode } from './drumSynth'
+import { playedHit } from './feel'
+import type { DrumSheet } from './sheet'
+import { buildMeasureTimeline, noteSeconds, secondsBetween, stepSecondsAt } from './timing'
+import { encodeWav } from './wavFile'
+
+export const SAMPLE_RATE_OPTIONS = [44100, 48000, 22050] as const
+export const REPEAT_OPTIONS = [1, 2, 4, 8] as const
+export const TAIL_OPTIONS = [0, 1, 2] as const
+
+export type AudioExportOptions = {
+  // Times the whole sheet plays back to back.
+  repeats: number
+  // Seconds of silence left after the last pass for the final hits to ring out.
+  tailSeconds: number
+  sampleRate: number
+}
+
+export const DEFAULT_AUDIO_EXPORT: AudioExportOptions = {
+  repeats: 1,
+  tailSeconds: 1,
+  sampleRate: 44100,
+}
+
+const CHANNELS = 2
+
+export class AudioExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AudioExportError'
+  }
+}
+
+/**
+ * Plays the sheet into an OfflineAudioContext with the same kit, mixer and
+ * feel as live playback, as fast as the machine allows, and returns the
+ * rendering.
+ */
+export const renderSheetAudio = async (
+  sheet: DrumSheet,
+  options: AudioExportOptions,
+  kit: DrumKit,
+) => {
+  if (typeof OfflineAudioContext === 'undefined') {
+    throw new AudioExportError('This browser cannot render audio offline.')
+  }
+  const timeline = buildMeasureTimeline(sheet.measures, sheet.tempo)
+  const passSeconds = timeline.reduce((total, timing) => total + timing.durationSeconds, 0)
+  const totalSeconds = passSeconds * options.repeats + options.tailSeconds
+  const frames = Math.max(1, Math.ceil(totalSeconds * options.sampleRate))
+  const context = new OfflineAudioContext(CHANNELS, frames, options.sampleRate)
+  // Nothing needs stopping offline, but the synth hands its nodes back.
+  const nodes: StoppableNode[] = []
+
+  for (let pass = 0; pass < options.repeats; pass += 1) {
+    const passStart = pass * passSeconds
+    // The timeline follows the performance order, so its index is the
+    // order step live playback humanizes with.
+    timeline.forEach((timing, orderStep) => {
+      sheet.measures[timing.measureIndex].notes.forEach((note) => {
+        const { measureIndex, tempo, subdivisions } = timing
+        const stepSeconds = stepSecondsAt(timing, note.column)
+        const hit = playedHit(sheet.measures, measureIndex, orderStep, note, sheet.feel, stepSeconds)
+        const written =
+          passStart + timing.startSeconds + secondsBetween(tempo, subdivisions, 0, note.column)
+        const when = Math.max(written + hit.offsetSeconds, 0)
+        const seconds = noteSeconds(note.duration, stepSeconds)
+        triggerNote(context, note, when, seconds, nodes, kit, hit.velocity)
+      })
+    })
+  }
+  return context.startRendering()
+}
+
+/** Renders the sheet and encodes it as a 16-bit WAV file. */
+export const exportSheetToWav = async (
+  sheet: DrumSheet,
+  options: AudioExportOptions,
+  kit: DrumKit,
+) => {
+  const buffer = await renderSheetAudio(sheet, options, kit)
+  return encodeWav({
+    sampleRate: buffer.sampleRate,
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+      buffer.getChannelData(index),
+    ),
+  })
+}
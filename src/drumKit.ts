@@ -0,0 +1,144 @@
+import { NOTE_ROWS, isNoteRowId } from './sheet'
+import type { NoteRowId } from './sheet'
+
+export type VoiceMix = {
+  // Gain, 1 being the kit's own level.
+  volume: number
+  // -1 is hard left, 1 hard right.
+  pan: number
+  // Semitones up or down.
+  tune: number
+}
+
+export type MixerSettings = Record<NoteRowId, VoiceMix>
+
+export type SampleLayer = {
+  name: string
+  buffer: AudioBuffer
+  // Loudest absolute sample value, used to order a voice's layers.
+  peak: number
+}
+
+// Layers run from the softest recording to the loudest. Voices without
+// samples fall back to the synthesized kit.
+export type KitSamples = Partial<Record<NoteRowId, SampleLayer[]>>
+
+export type DrumKit = {
+  mixer: MixerSettings
+  samples: KitSamples
+}
+
+export const VOLUME_RANGE = { min: 0, max: 1.5, step: 0.05 } as const
+export const PAN_RANGE = { min: -1, max: 1, step: 0.1 } as const
+export const TUNE_RANGE = { min: -12, max: 12, step: 1 } as const
+
+export const DEFAULT_VOICE_MIX: VoiceMix = { volume: 1, pan: 0, tune: 0 }
+
+export const createDefaultMixer = () =>
+  Object.fromEntries(NOTE_ROWS.map((row) => [row.id, { ...DEFAULT_VOICE_MIX }])) as MixerSettings
+
+export const SYNTH_KIT: DrumKit = { mixer: createDefaultMixer(), samples: {} }
+
+const STORAGE_KEY = 'drumsheet:mixer'
+
+const inRange = (value: unknown, range: { min: number; max: number }): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= range.min && value <= range.max
+
+const isVoiceMix = (value: unknown): value is VoiceMix => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const { volume, pan, tune } = value as Record<string, unknown>
+  return inRange(volume, VOLUME_RANGE) && inRange(pan, PAN_RANGE) && inRange(tune, TUNE_RANGE)
+}
+
+/** The user's mixer from browser storage; unknown or damaged voices stay flat. */
+export const loadMixerSettings = (): MixerSettings => {
+  const mixer = createDefaultMixer()
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    const stored: unknown = raw ? JSON.parse(raw) : null
+    if (stored && typeof stored === 'object') {
+      Object.entries(stored).forEach(([rowId, mix]) => {
+        if (isNoteRowId(rowId) && isVoiceMix(mix)) {
+          mixer[rowId] = { volume: mix.volume, pan: mix.pan, tune: mix.tune }
+        }
+      })
+    }
+  } catch {
+    // Unreadable or unavailable storage leaves the defaults in place.
+  }
+  return mixer
+}
+
+export const saveMixerSettings = (mixer: MixerSettings) => {
+  try {
+    const changed = Object.fromEntries(
+      NOTE_ROWS.filter((row) => {
+        const mix = mixer[row.id]
+        return (
+          mix.volume !== DEFAULT_VOICE_MIX.volume ||
+          mix.pan !== DEFAULT_VOICE_MIX.pan ||
+          mix.tune !== DEFAULT_VOICE_MIX.tune
+        )
+      }).map((row) => [row.id, mixer[row.id]]),
+    )
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(changed))
+  } catch {
+    // The mix still applies for this session.
+  }
+}
+
+export class SampleLoadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SampleLoadError'
+  }
+}
+
+// Decoding is slow, so each file is decoded once per page load even when it
+// is chosen again for another voice or after clearing a voice.
+const decodedLayers = new Map<string, Promise<SampleLayer>>()
+
+const fileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`
+
+const peakOf = (buffer: AudioBuffer) => {
+  let peak = 0
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel)
+    for (let index = 0; index < data.length; index += 1) {
+      peak = Math.max(peak, Math.abs(data[index]))
+    }
+  }
+  return peak
+}
+
+const decodeLayer = async (ctx: BaseAudioContext, file: File): Promise<SampleLayer> => {
+  try {
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer())
+    return { name: file.name, buffer, peak: peakOf(buffer) }
+  } catch {
+    throw new SampleLoadError(`${file.name} is not an audio file this browser can play.`)
+  }
+}
+
+const loadLayer = (ctx: BaseAudioContext, file: File) => {
+  const key = fileKey(file)
+  let layer = decodedLayers.get(key)
+  if (!layer) {
+    layer = decodeLayer(ctx, file)
+    // A failed decode is forgotten so the file can be tried again.
+    layer.catch(() => decodedLayers.delete(key))
+    decodedLayers.set(key, layer)
+  }
+  return layer
+}
+
+/**
+ * Decodes the files chosen for one voice into velocity layers, ordered from
+ * the quietest recording to the loudest.
+ */
+export const loadVoiceLayers = async (ctx: BaseAudioContext, files: File[]) => {
+  const layers = await Promise.all(files.map((file) => loadLayer(ctx, file)))
+  return [...layers].sort((a, b) => a.peak - b.peak)
+}
@@ -0,0 +1,357 @@
+import { SYNTH_KIT } from './drumKit'
+import type { DrumKit, SampleLayer, VoiceMix } from './drumKit'
+import type { Articulation, NoteRowId } from './sheet'
+
+export type StoppableNode = AudioScheduledSourceNode
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>()
+
+const getNoiseBuffer = (ctx: BaseAudioContext) => {
+  let buffer = noiseBuffers.get(ctx)
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i += 1) {
+      data[i] = Math.random() * 2 - 1
+    }
+    noiseBuffers.set(ctx, buffer)
+  }
+  return buffer
+}
+
+type NoiseLayer = {
+  filter: BiquadFilterType
+  frequency: number
+  q?: number
+  decay: number
+}
+
+type ToneLayer = {
+  type: OscillatorType
+  from: number
+  to?: number
+  glide?: number
+  level: number
+  decay: number
+}
+
+export type SoundOptions = {
+  // Level of the hit, 1 being a normal stroke.
+  velocity?: number
+  // Node the hit plays into; the context's speakers unless a mixer channel
+  // is given.
+  output?: AudioNode
+  // Frequency ratio, 2 sounding an octave higher.
+  pitch?: number
+}
+
+/**
+ * Synthesizes one drum hit on `ctx` at `when`. Every source node started is
+ * pushed onto `nodes` so playback can stop them early.
+ */
+export const triggerSound = (
+  ctx: BaseAudioContext,
+  rowId: NoteRowId,
+  when: number,
+  durationSeconds: number,
+  nodes: StoppableNode[],
+  { velocity = 1, output = ctx.destination, pitch = 1 }: SoundOptions = {},
+) => {
+  const gain = ctx.createGain()
+  gain.connect(output)
+
+  const scheduleGainEnvelope = (attack: number, decay: number) => {
+    gain.gain.cancelScheduledValues(when)
+    gain.gain.setValueAtTime(0.0001, when)
+    gain.gain.linearRampToValueAtTime(attack * velocity, when + 0.005)
+    gain.gain.exponentialRampToValueAtTime(0.0001, when + decay)
+  }
+
+  const playNoise = ({ filter: filterType, frequency, q, decay }: NoiseLayer) => {
+    const source = ctx.createBufferSource()
+    source.buffer = getNoiseBuffer(ctx)
+    const filter = ctx.createBiquadFilter()
+    filter.type = filterType
+    filter.frequency.setValueAtTime(frequency * pitch, when)
+    if (q !== undefined) {
+      filter.Q.setValueAtTime(q, when)
+    }
+    source.connect(filter)
+    filter.connect(gain)
+    source.start(when)
+    source.stop(when + decay + 0.05)
+    nodes.push(source)
+  }
+
+  const playTone = ({ type, from, to, glide, level, decay }: ToneLayer) => {
+    const osc = ctx.createOscillator()
+    osc.type = type
+    osc.frequency.setValueAtTime(from * pitch, when)
+    if (to !== undefined) {
+      osc.frequency.exponentialRampToValueAtTime(to * pitch, when + (glide ?? decay))
+    }
+    const toneGain = ctx.createGain()
+    toneGain.gain.setValueAtTime(0.001, when)
+    toneGain.gain.linearRampToValueAtTime(level, when + 0.005)
+    toneGain.gain.exponentialRampToValueAtTime(0.001, when + decay)
+    osc.connect(toneGain)
+    toneGain.connect(gain)
+    osc.start(when)
+    osc.stop(when + decay + 0.05)
+    nodes.push(osc)
+  }
+
+  switch (rowId) {
+    case 'cr': {
+      const decay = Math.max(durationSeconds, 1.4)
+      scheduleGainEnvelope(0.55, decay)
+      playNoise({ filter: 'highpass', frequency: 4500, decay })
+      playNoise({ filter: 'bandpass', frequency: 7200, q: 0.8, decay: decay * 0.6 })
+      return
+    }
+    case 'hh': {
+      const decay = Math.min(durationSeconds, 0.18)
+      scheduleGainEnvelope(0.7, decay)
+      playNoise({ filter: 'highpass', frequency: 8000, decay })
+      return
+    }
+    case 'oh': {
+      const decay = Math.max(durationSeconds, 0.55)
+      scheduleGainEnvelope(0.6, decay)
+      playNoise({ filter: 'highpass', frequency: 7000, decay })
+      return
+    }
+    case 'hf': {
+      scheduleGainEnvelope(0.45, 0.07)
+      playNoise({ filter: 'bandpass', frequency: 6500, q: 1.2, decay: 0.07 })
+      return
+    }
+    case 'rd': {
+      const decay = Math.max(durationSeconds, 0.9)
+      scheduleGainEnvelope(0.45, decay)
+      playNoise({ filter: 'bandpass', frequency: 9000, q: 2, decay })
+      playTone({ type: 'sine', from: 3100, level: 0.12, decay: decay * 0.7 })
+      return
+    }
+    case 'rb': {
+      const decay = Math.max(durationSeconds, 0.8)
+      scheduleGainEnvelope(0.6, decay)
+      playTone({ type: 'sine', from: 740, level: 0.35, decay })
+      playTone({ type: 'sine', from: 1110, level: 0.25, decay: decay * 0.8 })
+      playTone({ type: 'triangle', from: 2230, level: 0.1, decay: decay * 0.4 })
+      return
+    }
+    case 'cb': {
+      scheduleGainEnvelope(0.5, 0.35)
+      playTone({ type: 'square', from: 540, level: 0.25, decay: 0.35 })
+      playTone({ type: 'square', from: 800, level: 0.2, decay: 0.3 })
+      return
+    }
+    case 'sn': {
+      const noise = ctx.createBufferSource()
+      noise.buffer = getNoiseBuffer(ctx)
+      const bandpass = ctx.createBiquadFilter()
+      bandpass.type = 'bandpass'
+      bandpass.frequency.setValueAtTime(1800 * pitch, when)
+      noise.connect(bandpass)
+      bandpass.connect(gain)
+      const osc = ctx.createOscillator()
+      osc.type = 'triangle'
+      osc.frequency.setValueAtTime(190 * pitch, when)
+      osc.frequency.exponentialRampToValueAtTime(120 * pitch, when + 0.2)
+      const oscGain = ctx.createGain()
+      oscGain.gain.setValueAtTime(0.001, when)
+      oscGain.gain.linearRampToValueAtTime(0.25, when + 0.01)
+      oscGain.gain.exponentialRampToValueAtTime(0.001, when + 0.2)
+      osc.connect(oscGain)
+      oscGain.connect(gain)
+      scheduleGainEnvelope(0.9, 0.25)
+      noise.start(when)
+      noise.stop(when + 0.25)
+      osc.start(when)
+      osc.stop(when + 0.25)
+      nodes.push(noise, osc)
+      return
+    }
+    case 'ht': {
+      const osc = ctx.createOscillator()
+      osc.type = 'sine'
+      osc.frequency.setValueAtTime(320 * pitch, when)
+      osc.frequency.exponentialRampToValueAtTime(220 * pitch, when + 0.35)
+      scheduleGainEnvelope(0.8, Math.max(durationSeconds, 0.3))
+      osc.connect(gain)
+      osc.start(when)
+      osc.stop(when + Math.max(durationSeconds, 0.4))
+      nodes.push(osc)
+      return
+    }
+    case 'mt': {
+      const decay = Math.max(durationSeconds, 0.38)
+      scheduleGainEnvelope(0.85, decay)
+      playTone({ type: 'sine', from: 240, to: 160, glide: 0.4, level: 0.9, decay })
+      return
+    }
+    case 'ft': {
+      const decay = Math.max(durationSeconds, 0.5)
+      scheduleGainEnvelope(0.9, decay)
+      playTone({ type: 'sine', from: 140, to: 85, glide: 0.5, level: 0.95, decay })
+      return
+    }
+    case 'bd': {
+      const osc = ctx.createOscillator()
+      osc.type = 'sine'
+      osc.frequency.setValueAtTime(160 * pitch, when)
+      osc.frequency.exponentialRampToValueAtTime(55 * pitch, when + 0.25)
+      scheduleGainEnvelope(1, Math.max(durationSeconds, 0.3))
+      osc.connect(gain)
+      osc.start(when)
+      osc.stop(when + Math.max(durationSeconds, 0.35))
+      nodes.push(osc)
+      return
+    }
+  }
+}
+
+// Level of the main stroke for each articulation, relative to a plain hit.
+const ARTICULATION_VELOCITY: Record<Articulation, number> = {
+  accent: 1.45,
+  ghost: 0.3,
+  flam: 1,
+  drag: 1,
+  rimshot: 1.3,
+}
+
+const GRACE_VELOCITY = 0.35
+const GRACE_SPACING_SECONDS = 0.03
+
+const playRimCrack = (
+  ctx: BaseAudioContext,
+  when: number,
+  nodes: StoppableNode[],
+  output: AudioNode,
+  pitch: number,
+) => {
+  const osc = ctx.createOscillator()
+  osc.type = 'square'
+  osc.frequency.setValueAtTime(2100 * pitch, when)
+  osc.frequency.exponentialRampToValueAtTime(900 * pitch, when + 0.03)
+  const gain = ctx.createGain()
+  gain.gain.setValueAtTime(0.0001, when)
+  gain.gain.linearRampToValueAtTime(0.3, when + 0.001)
+  gain.gain.exponentialRampToValueAtTime(0.0001, when + 0.05)
+  osc.connect(gain)
+  gain.connect(output)
+  osc.start(when)
+  osc.stop(when + 0.06)
+  nodes.push(osc)
+}
+
+// Velocities of the softest and loudest strokes; a voice's sample layers
+// are spread evenly across that range.
+const SOFTEST_VELOCITY = Math.min(GRACE_VELOCITY, ...Object.values(ARTICULATION_VELOCITY))
+const LOUDEST_VELOCITY = Math.max(...Object.values(ARTICULATION_VELOCITY))
+
+/**
+ * Plays the sample layer nearest the stroke's velocity. The layer's own
+ * recording carries most of the dynamics; the gain only nudges it towards
+ * the exact level asked for.
+ */
+const playSample = (
+  ctx: BaseAudioContext,
+  layers: SampleLayer[],
+  when: number,
+  nodes: StoppableNode[],
+  { velocity = 1, output = ctx.destination, pitch = 1 }: SoundOptions,
+) => {
+  const position = Math.min(
+    Math.max((velocity - SOFTEST_VELOCITY) / (LOUDEST_VELOCITY - SOFTEST_VELOCITY), 0),
+    1,
+  )
+  const index = layers.length > 1 ? Math.round(position * (layers.length - 1)) : 0
+  const layerVelocity =
+    layers.length > 1
+      ? SOFTEST_VELOCITY + (index / (layers.length - 1)) * (LOUDEST_VELOCITY - SOFTEST_VELOCITY)
+      : 1
+  const source = ctx.createBufferSource()
+  source.buffer = layers[index].buffer
+  source.playbackRate.setValueAtTime(pitch, when)
+  const gain = ctx.createGain()
+  gain.gain.setValueAtTime(velocity / layerVelocity, when)
+  source.connect(gain)
+  gain.connect(output)
+  source.start(when)
+  nodes.push(source)
+}
+
+// A mixer channel for one hit: level, then pan, then the speakers.
+const createVoiceOutput = (ctx: BaseAudioContext, { volume, pan }: VoiceMix) => {
+  const gain = ctx.createGain()
+  gain.gain.value = volume
+  const panner = ctx.createStereoPanner()
+  panner.pan.value = pan
+  gain.connect(panner)
+  panner.connect(ctx.destination)
+  return gain
+}
+
+/**
+ * Plays a note with its articulation: accents and ghosts change the level,
+ * flams and drags add soft grace strokes just before `when`, and rimshots
+ * add a rim crack on top of the head. The kit decides whether the voice
+ * plays its samples or the synth, and through which mixer channel.
+ */
+export const triggerNote = (
+  ctx: BaseAudioContext,
+  note: { rowId: NoteRowId; articulation?: Articulation },
+  when: number,
+  durationSeconds: number,
+  nodes: StoppableNode[],
+  kit: DrumKit = SYNTH_KIT,
+  // Factor on the stroke's level, from humanized playback.
+  velocity = 1,
+) => {
+  const { rowId, articulation } = note
+  const mix = kit.mixer[rowId]
+  const output = createVoiceOutput(ctx, mix)
+  const pitch = 2 ** (mix.tune / 12)
+  const layers = kit.samples[rowId]
+  const strike = (time: number, seconds: number, velocity: number) => {
+    if (layers && layers.length > 0) {
+      playSample(ctx, layers, time, nodes, { velocity, output, pitch })
+    } else {
+      triggerSound(ctx, rowId, time, seconds, nodes, { velocity, output, pitch })
+    }
+  }
+
+  const graceCount = articulation === 'flam' ? 1 : articulation === 'drag' ? 2 : 0
+  for (let grace = graceCount; grace > 0; grace -= 1) {
+    // Grace notes can't sound before the clock; a late one lands on the beat.
+    const graceTime = Math.max(ctx.currentTime, when - grace * GRACE_SPACING_SECONDS)
+    strike(graceTime, GRACE_SPACING_SECONDS, GRACE_VELOCITY * velocity)
+  }
+  strike(when, durationSeconds, (articulation ? ARTICULATION_VELOCITY[articulation] : 1) * velocity)
+  if (articulation === 'rimshot') {
+    playRimCrack(ctx, when, nodes, output, pitch)
+  }
+}
+
+/** A metronome blip; the accented click marks the downbeat. */
+export const triggerClick = (
+  ctx: BaseAudioContext,
+  when: number,
+  accented: boolean,
+  nodes: StoppableNode[],
+) => {
+  const osc = ctx.createOscillator()
+  osc.type = 'square'
+  osc.frequency.setValueAtTime(accented ? 1760 : 1320, when)
+  const gain = ctx.createGain()
+  gain.gain.setValueAtTime(0.0001, when)
+  gain.gain.linearRampToValueAtTime(accented ? 0.35 : 0.2, when + 0.002)
+  gain.gain.exponentialRampToValueAtTime(0.0001, when + 0.06)
+  osc.connect(gain)
+  gain.connect(ctx.destination)
+  osc.start(when)
+  osc.stop(when + 0.08)
+  nodes.push(osc)
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { DrumTabError, formatDrumTab, parseDrumTab } from './drumTab'
+import { createEmptyMeasure, createEmptySheet } from './sheet'
+import type { DrumSheet } from './sheet'
+
+// The example from the top of drumTab.ts.
+const EXAMPLE = `Title: Four on the floor
+Tempo: 110 bpm
+Time: 4/4
+
+HH|x-x-x-x-x-x-x-o-|x-x-x-x-x-x-X-x-|
+SD|----o-------o---|----o--g----o---|
+BD|o-------o-------|o-------o-o-----|
+`
+
+describe('parseDrumTab', () => {
+  it('reads the example tab', () => {
+    const { sheet, diagnostics } = parseDrumTab(EXAMPLE)
+    expect(diagnostics).toEqual([])
+    expect(sheet.title).toBe('Four on the floor')
+    expect(sheet.tempo).toBe(110)
+    expect(sheet.measures).toHaveLength(2)
+    const [first, second] = sheet.measures
+    expect(first.timeSignature).toEqual({ beats: 4, beatUnit: 4 })
+    expect(first.notes.filter((note) => note.rowId === 'hh')).toHaveLength(7)
+    expect(first.notes).toContainEqual({ column: 42, rowId: 'oh', duration: 3 })
+    expect(second.notes).toContainEqual({ column: 36, rowId: 'hh', duration: 3, articulation: 'accent' })
+    expect(second.notes).toContainEqual({ column: 21, rowId: 'sn', duration: 3, articulation: 'ghost' })
+  })
+
+  it('writes the example tab back as it was', () => {
+    const { sheet } = parseDrumTab(EXAMPLE)
+    const written = formatDrumTab({ ...sheet, voices: ['hh', 'sn', 'bd'] })
+    expect(written).toBe(EXAMPLE)
+    expect(parseDrumTab(written).sheet.measures).toEqual(sheet.measures)
+  })
+
+  it('reports bars of uneven length and lines with fewer bars', () => {
+    const { sheet, diagnostics } = parseDrumTab(
+      ['HH|x-x-x-x-x-x-x-x-|x-x-x-x-x-x-x-x-|', 'SD|----o-------o-----|', 'BD|o-------o---|'].join('\n'),
+    )
+    expect(sheet.measures).toHaveLength(2)
+    expect(diagnostics).toEqual([
+      { line: 2, message: '1 bars where line 1 has 2; the bars are lined up from the left.' },
+      {
+        line: 2,
+        message: 'Bar 1 is 18 characters long but 16 on line 1; the extra characters were dropped.',
+      },
+      { line: 3, message: '1 bars where line 1 has 2; the bars are lined up from the left.' },
+      {
+        line: 3,
+        message: 'Bar 1 is 12 characters long but 16 on line 1; the rest of the bar is left empty.',
+      },
+    ])
+  })
+
+  it('skips lines with unknown labels', () => {
+    const { sheet, diagnostics } = parseDrumTab(['HH|x-x-x-x-|', 'XY|o-o-o-o-|', '|o-------|'].join('\n'))
+    expect(sheet.voices).not.toContain('xy')
+    expect(sheet.measures[0].notes.every((note) => note.rowId === 'hh')).toBe(true)
+    expect(diagnostics).toEqual([
+      { line: 2, message: 'Unknown drum "XY"; the line was skipped.' },
+      { line: 3, message: 'The line has no drum label; it was skipped.' },
+    ])
+  })
+
+  it('throws when there is no drum line at all', () => {
+    expect(() => parseDrumTab('Just a title\n\n')).toThrow(DrumTabError)
+  })
+})
+
+describe('formatDrumTab', () => {
+  it('keeps open hi-hat ghost notes on the open hi-hat', () => {
+    const sheet: DrumSheet = {
+      ...createEmptySheet(),
+      measures: [
+        {
+          ...createEmptyMeasure(),
+          notes: [
+            { column: 0, rowId: 'hh', duration: 3, articulation: 'ghost' },
+            { column: 6, rowId: 'oh', duration: 3, articulation: 'ghost' },
+            { column: 12, rowId: 'oh', duration: 3 },
+          ],
+        },
+      ],
+    }
+    const tab = formatDrumTab(sheet)
+    expect(tab).toContain('HH|g---o-----------|')
+    expect(tab).toContain('OH|--g-------------|')
+    expect(parseDrumTab(tab).sheet.measures[0].notes).toEqual(sheet.measures[0].notes)
+  })
+})
@@ -0,0 +1,413 @@
+import {
+  COMMON_TIME,
+  DEFAULT_TITLE,
+  DEFAULT_VOICES,
+  DURATION_OPTIONS,
+  NOTE_ROWS,
+  TEMPO,
+  clampTempo,
+  compareNotes,
+  createDefaultFeel,
+  formatTimeSignature,
+  isValidTimeSignature,
+  rowsById,
+  sameTimeSignature,
+  sharesStaffPosition,
+  sortVoices,
+  stepsForTimeSignature,
+  voicesInUse,
+} from './sheet'
+import type { Articulation, DrumSheet, Measure, MeasureNote, NoteRowId, TimeSignature } from './sheet'
+
+/*
+ * ASCII drum tabs
+ *
+ * A tab is plain text with one line per voice and `|` bar lines:
+ *
+ *   Title: Four on the floor
+ *   Tempo: 110 bpm
+ *   Time: 4/4
+ *
+ *   HH|x-x-x-x-x-x-x-o-|x-x-x-x-x-x-X-x-|
+ *   SD|----o-------o---|----o--g----o---|
+ *   BD|o-------o-------|o-------o-o-----|
+ *
+ * - Lines that run on without a blank line between them form a system and
+ *   are read in parallel; the next system continues after the last bar.
+ * - The label before the first `|` names the voice (see `LABEL_ALIASES`).
+ * - Every character of a bar is one grid step: a 4/4 bar of 16 characters is
+ *   written in sixteenths, 12 in eighth triplets and 8 in eighths.
+ * - `x` and `o` are hits, `X` and `O` accented hits and `g` a ghost note. On
+ *   the hi-hat line `o` is the open hi-hat; open hi-hat ghost notes go on an
+ *   `OH` line. `-`, `.` and spaces are silence.
+ * - `Title:`, `Tempo:` and `Time:` lines are optional. `Time:` applies to
+ *   the bars after it; a text line before the first system is a title too.
+ */
+
+export type TabDiagnostic = {
+  // One-based line of the tab the message is about.
+  line: number
+  message: string
+}
+
+export class DrumTabError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DrumTabError'
+  }
+}
+
+// Labels are matched without case; the first one is what the exporter writes.
+const LABEL_ALIASES: Record<NoteRowId, string[]> = {
+  cb: ['CB', 'COW', 'COWBELL'],
+  cr: ['CC', 'C', 'CR', 'CY', 'CRASH'],
+  hh: ['HH', 'H', 'HAT', 'HIHAT', 'HI-HAT'],
+  oh: ['OH', 'O', 'OPEN'],
+  rd: ['RD', 'R', 'RC', 'RIDE'],
+  rb: ['RB', 'BELL'],
+  ht: ['T1', 'HT', 'T', 'TOM1'],
+  mt: ['T2', 'MT', 'TOM2'],
+  sn: ['SD', 'S', 'SN', 'SNARE'],
+  ft: ['FT', 'F', 'T3', 'FLOOR'],
+  bd: ['BD', 'B', 'K', 'KD', 'KICK', 'BASS'],
+  hf: ['HF', 'HP', 'FH', 'PEDAL'],
+}
+
+const voicesByLabel = new Map<string, NoteRowId>()
+NOTE_ROWS.forEach((row) =>
+  LABEL_ALIASES[row.id].forEach((label) => voicesByLabel.set(label, row.id)),
+)
+
+// The open hi-hat shares the closed hi-hat's line, written as `o`.
+const lineVoiceFor = (rowId: NoteRowId): NoteRowId => (rowId === 'oh' ? 'hh' : rowId)
+
+// A `g` on the hi-hat line reads as a closed ghost, so open hi-hat ghosts are
+// written on an `OH` line of their own.
+const noteLineFor = (note: MeasureNote): NoteRowId =>
+  note.rowId === 'oh' && note.articulation === 'ghost' ? 'oh' : lineVoiceFor(note.rowId)
+
+const SILENCE = new Set(['-', '.', ' '])
+
+type TabHit = { rowId: NoteRowId; articulation?: Articulation }
+
+const readSymbol = (symbol: string, rowId: NoteRowId): TabHit | null => {
+  const openHat = rowId === 'hh' && (symbol === 'o' || symbol === 'O')
+  const voice = openHat ? 'oh' : rowId
+  switch (symbol) {
+    case 'x':
+    case 'o':
+      return { rowId: voice }
+    case 'X':
+    case 'O':
+      return { rowId: voice, articulation: 'accent' }
+    case 'g':
+      return { rowId: voice, articulation: 'ghost' }
+    default:
+      return null
+  }
+}
+
+// Cymbals are written with crosses and drums with circles, as on the staff.
+const writeSymbol = (note: MeasureNote) => {
+  const cymbal = rowsById.get(note.rowId)?.shape === 'x'
+  const open = note.rowId === 'oh'
+  if (note.articulation === 'ghost') {
+    return 'g'
+  }
+  const symbol = cymbal && !open ? 'x' : 'o'
+  return note.articulation === 'accent' ? symbol.toUpperCase() : symbol
+}
+
+// The longest note value that fits one character, so hits never overlap.
+const noteDurationFor = (stepsPerChar: number) => {
+  const fitting = DURATION_OPTIONS.map((option) => option.value).filter(
+    (value) => value <= stepsPerChar,
+  )
+  return fitting.length > 0
+    ? Math.max(...fitting)
+    : Math.min(...DURATION_OPTIONS.map((option) => option.value))
+}
+
+// A bar that does not fit the current meter is read in sixteenths, with the
+// meter it spells out.
+const inferTimeSignature = (length: number): TimeSignature =>
+  length % 4 === 0
+    ? { beats: length / 4, beatUnit: 4 }
+    : length % 2 === 0
+      ? { beats: length / 2, beatUnit: 8 }
+      : { beats: length, beatUnit: 16 }
+
+type TabLine = {
+  lineNumber: number
+  rowId: NoteRowId
+  bars: string[]
+}
+
+const HEADER_PATTERN = /^\s*(title|tempo|time)\s*:\s*(.*?)\s*$/i
+const TIME_PATTERN = /^(\d+)\s*\/\s*(\d+)$/
+const TEMPO_PATTERN = /^(\d+(?:\.\d+)?)\s*(?:bpm)?$/i
+
+/**
+ * Reads an ASCII drum tab into a sheet. Problems that leave the rest of the
+ * tab readable, such as unknown labels or bars of different lengths, are
+ * returned as line-numbered diagnostics; a tab without a single drum line
+ * throws a `DrumTabError`.
+ */
+export const parseDrumTab = (text: string, { fallbackTitle }: { fallbackTitle?: string } = {}) => {
+  const diagnostics: TabDiagnostic[] = []
+  const measures: Measure[] = []
+  let title: string | null = null
+  let tempo: number = TEMPO.default
+  let timeSignature = COMMON_TIME
+  let system: TabLine[] = []
+  let mergedNotes = 0
+
+  const addSystem = () => {
+    if (system.length === 0) {
+      return
+    }
+    const [reference] = system
+    system.slice(1).forEach((line) => {
+      if (line.bars.length !== reference.bars.length) {
+        diagnostics.push({
+          line: line.lineNumber,
+          message: `${line.bars.length} bars where line ${reference.lineNumber} has ${reference.bars.length}; the bars are lined up from the left.`,
+        })
+      }
+    })
+
+    reference.bars.forEach((referenceBar, barIndex) => {
+      const length = referenceBar.length
+      let barSignature = timeSignature
+      let stepsPerChar = stepsForTimeSignature(timeSignature) / length
+      if (!Number.isInteger(stepsPerChar)) {
+        barSignature = inferTimeSignature(length)
+        if (!isValidTimeSignature(barSignature)) {
+          diagnostics.push({
+            line: reference.lineNumber,
+            message: `Bar ${barIndex + 1} is ${length} characters long, more than a measure can hold; it was skipped.`,
+          })
+          return
+        }
+        stepsPerChar = stepsForTimeSignature(barSignature) / length
+        diagnostics.push({
+          line: reference.lineNumber,
+          message: `Bar ${barIndex + 1} has ${length} characters, which does not divide ${formatTimeSignature(timeSignature)}; it was read as ${formatTimeSignature(barSignature)} in sixteenths.`,
+        })
+      }
+
+      const duration = noteDurationFor(stepsPerChar)
+      const measure: Measure = {
+        timeSignature: { ...barSignature },
+        subdivisions: stepsForTimeSignature(barSignature),
+        notes: [],
+        rests: [],
+      }
+      system.forEach((line) => {
+        const bar = line.bars[barIndex]
+        if (bar === undefined) {
+          return
+        }
+        if (bar.length !== length) {
+          diagnostics.push({
+            line: line.lineNumber,
+            message: `Bar ${barIndex + 1} is ${bar.length} characters long but ${length} on line ${reference.lineNumber}; ${bar.length > length ? 'the extra characters were dropped' : 'the rest of the bar is left empty'}.`,
+          })
+        }
+        ;[...bar.slice(0, length)].forEach((symbol, index) => {
+          if (SILENCE.has(symbol)) {
+            return
+          }
+          const hit = readSymbol(symbol, line.rowId)
+          if (!hit) {
+            diagnostics.push({
+              line: line.lineNumber,
+              message: `Unknown symbol "${symbol}" in bar ${barIndex + 1} was skipped.`,
+            })
+            return
+          }
+          const column = index * stepsPerChar
+          const clash = measure.notes.some(
+            (note) => note.column === column && sharesStaffPosition(note.rowId, hit.rowId),
+          )
+          if (clash) {
+            mergedNotes += 1
+            return
+          }
+          measure.notes.push({ column, duration, ...hit })
+        })
+      })
+      measure.notes.sort(compareNotes)
+      measures.push(measure)
+    })
+    system = []
+  }
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1
+    const line = rawLine.trimEnd()
+    if (!line.trim()) {
+      addSystem()
+      return
+    }
+
+    const barStart = line.indexOf('|')
+    if (barStart === -1) {
+      addSystem()
+      const header = HEADER_PATTERN.exec(line)
+      if (!header) {
+        if (title === null && measures.length === 0) {
+          title = line.trim()
+        } else {
+          diagnostics.push({ line: lineNumber, message: 'Not a drum line; it was skipped.' })
+        }
+        return
+      }
+      const [, key, value] = header
+      switch (key.toLowerCase()) {
+        case 'title':
+          title = value
+          break
+        case 'tempo': {
+          const match = TEMPO_PATTERN.exec(value)
+          if (!match) {
+            diagnostics.push({ line: lineNumber, message: `"${value}" is not a tempo.` })
+            break
+          }
+          tempo = clampTempo(Number(match[1]))
+          if (tempo !== Math.round(Number(match[1]))) {
+            diagnostics.push({
+              line: lineNumber,
+              message: `The tempo was limited to ${TEMPO.min}–${TEMPO.max} BPM.`,
+            })
+          }
+          break
+        }
+        case 'time': {
+          const match = TIME_PATTERN.exec(value)
+          const parsed = match ? { beats: Number(match[1]), beatUnit: Number(match[2]) } : null
+          if (!parsed || !isValidTimeSignature(parsed)) {
+            diagnostics.push({ line: lineNumber, message: `"${value}" is not a supported time signature.` })
+            break
+          }
+          timeSignature = parsed
+          break
+        }
+      }
+      return
+    }
+
+    const label = line.slice(0, barStart).trim().replace(/:$/, '').toUpperCase()
+    const rowId = voicesByLabel.get(label)
+    if (!rowId) {
+      diagnostics.push({
+        line: lineNumber,
+        message: label ? `Unknown drum "${label}"; the line was skipped.` : 'The line has no drum label; it was skipped.',
+      })
+      return
+    }
+
+    const segments = line.slice(barStart + 1).split('|')
+    const trailing = segments.pop() ?? ''
+    // A line may stop without a closing bar line; anything after a space is
+    // a comment such as a repeat count.
+    if (trailing.trim()) {
+      const [bar, ...comment] = trailing.split(/\s+/)
+      if (bar) {
+        segments.push(bar)
+      }
+      if (comment.some(Boolean)) {
+        diagnostics.push({ line: lineNumber, message: 'Text after the last bar was ignored.' })
+      }
+    }
+    // Double bar lines leave empty segments behind.
+    system.push({ lineNumber, rowId, bars: segments.filter((bar) => bar.length > 0) })
+  })
+  addSystem()
+
+  if (measures.length === 0) {
+    throw new DrumTabError('No drum lines were found. Tab lines look like "HH|x-x-x-x-|".')
+  }
+  if (mergedNotes > 0) {
+    diagnostics.push({
+      line: 0,
+      message: `${mergedNotes} hits shared a step and staff position with another hit and were merged.`,
+    })
+  }
+
+  const sheet: DrumSheet = {
+    title: title ?? fallbackTitle ?? DEFAULT_TITLE,
+    tempo,
+    voices: sortVoices([...DEFAULT_VOICES, ...voicesInUse(measures)]),
+    measures,
+    feel: createDefaultFeel(),
+  }
+  return { sheet, diagnostics: diagnostics.sort((a, b) => a.line - b.line) }
+}
+
+export const describeTabDiagnostics = (measureCount: number, diagnostics: TabDiagnostic[]) => [
+  `Imported ${measureCount} ${measureCount === 1 ? 'measure' : 'measures'} from the tab.`,
+  ...diagnostics.map(({ line, message }) => (line > 0 ? `Line ${line}: ${message}` : message)),
+]
+
+// Measures per system in an exported tab, as on the staff.
+const BARS_PER_SYSTEM = 4
+// Characters per step, tried coarsest first: sixteenths, then eighth and
+// sixteenth triplets, then single steps for mixed grids.
+const TAB_RESOLUTIONS = [3, 4, 2, 1]
+
+const resolutionFor = (measure: Measure) =>
+  TAB_RESOLUTIONS.find(
+    (steps) =>
+      measure.subdivisions % steps === 0 && measure.notes.every((note) => note.column % steps === 0),
+  ) ?? 1
+
+const writeBar = (measure: Measure, lineVoice: NoteRowId) => {
+  const steps = resolutionFor(measure)
+  const chars = Array.from({ length: measure.subdivisions / steps }, () => '-')
+  measure.notes.forEach((note) => {
+    if (noteLineFor(note) === lineVoice) {
+      chars[note.column / steps] = writeSymbol(note)
+    }
+  })
+  return chars.join('')
+}
+
+/**
+ * Writes the sheet as an ASCII tab that `parseDrumTab` reads back. Flams,
+ * drags and rimshots have no tab symbol and are written as plain hits.
+ */
+export const formatDrumTab = (sheet: DrumSheet) => {
+  const lineVoices = sortVoices([
+    ...sheet.voices.map(lineVoiceFor),
+    ...sheet.measures.flatMap((measure) => measure.notes.map(noteLineFor)),
+  ])
+  const labelWidth = Math.max(...lineVoices.map((rowId) => LABEL_ALIASES[rowId][0].length))
+  const lines = [`Title: ${sheet.title}`, `Tempo: ${sheet.tempo} bpm`]
+
+  let timeSignature: TimeSignature | null = null
+  let index = 0
+  while (index < sheet.measures.length) {
+    // A system ends after four bars or where the meter changes.
+    const start = index
+    const meter = sheet.measures[start].timeSignature
+    while (
+      index < sheet.measures.length &&
+      index - start < BARS_PER_SYSTEM &&
+      sameTimeSignature(sheet.measures[index].timeSignature, meter)
+    ) {
+      index += 1
+    }
+    if (!timeSignature || !sameTimeSignature(timeSignature, meter)) {
+      lines.push(`Time: ${formatTimeSignature(meter)}`)
+      timeSignature = meter
+    }
+    lines.push('')
+    const bars = sheet.measures.slice(start, index)
+    lineVoices.forEach((rowId) => {
+      const label = LABEL_ALIASES[rowId][0].padEnd(labelWidth)
+      lines.push(`${label}|${bars.map((measure) => writeBar(measure, rowId)).join('|')}|`)
+    })
+  }
+  return `${lines.join('\n')}\n`
+}
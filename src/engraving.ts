@@ -0,0 +1,261 @@
+import { beatLengths, compareNotes, describeDuration, rowsById } from './sheet'
+import type { Measure, MeasureNote, NoteRow, StemDirection } from './sheet'
+
+// Everything here is measured in staff rows (half line-spaces, see NOTE_ROWS)
+// and grid columns; turning those into pixels is up to the renderer.
+
+// A stem reaches two and a half spaces past the head farthest along it.
+const STEM_ROWS = 5
+// Stems stop short of these rows so beams stay inside the staff's drawing
+// area, even over the cowbell's ledger lines.
+const HIGHEST_STEM_TIP = -4
+const LOWEST_STEM_TIP = 15
+// A clamped stem still clears its own head.
+const MIN_STEM_ROWS = 2
+const VOICES: StemDirection[] = ['up', 'down']
+
+export type EngravedHead = {
+  note: MeasureNote
+  row: NoteRow
+  // A head a step away from its neighbour on the same stem moves to the
+  // other side of the stem so the two don't overlap.
+  displaced: boolean
+}
+
+export type EngravedChord = {
+  column: number
+  stem: StemDirection
+  // The shortest note in the chord sets the stem and flags.
+  duration: number
+  heads: EngravedHead[]
+  // Rows the stem runs between: from the head farthest from the tip, to the
+  // tip itself. Whole notes have no stem.
+  stemBase: number
+  stemTip: number
+  hasStem: boolean
+  // Flags drawn on the stem; beamed chords have none.
+  flags: number
+  beamed: boolean
+  // Feet chords that would touch a hands chord in the same column move a
+  // head's width right.
+  shifted: boolean
+}
+
+export type BeamSegment = {
+  // 0 is the eighth beam across the whole group; 1 joins sixteenths.
+  level: number
+  // Indices into the beam's chords.
+  from: number
+  to: number
+  // A lone sixteenth beside an eighth gets a short stub pointing at its
+  // neighbour instead of a full segment.
+  hook?: 'left' | 'right'
+}
+
+export type EngravedBeam = {
+  stem: StemDirection
+  // Beams are drawn level at this row.
+  tip: number
+  chords: EngravedChord[]
+  segments: BeamSegment[]
+  // Every chord under the beam is a triplet, so the group gets one "3".
+  tuplet: boolean
+}
+
+export type EngravedMeasure = {
+  chords: EngravedChord[]
+  beams: EngravedBeam[]
+}
+
+const flagsFor = (duration: number) => describeDuration(duration)?.noteValue.flags ?? 0
+
+const clampTip = (stem: StemDirection, tip: number, base: number) =>
+  stem === 'up'
+    ? Math.min(Math.max(tip, HIGHEST_STEM_TIP), base - MIN_STEM_ROWS)
+    : Math.max(Math.min(tip, LOWEST_STEM_TIP), base + MIN_STEM_ROWS)
+
+/**
+ * Stacks the notes one voice strikes together on a single stem. Heads are
+ * walked from the stem's base outwards; any head a step from the one before
+ * it flips to the far side of the stem.
+ */
+export const engraveChord = (notes: MeasureNote[]): EngravedChord | null => {
+  const placed = notes
+    .map((note) => ({ note, row: rowsById.get(note.rowId) }))
+    .filter((head): head is { note: MeasureNote; row: NoteRow } => head.row !== undefined)
+  if (placed.length === 0) {
+    return null
+  }
+  const stem = placed[0].row.stem
+  placed.sort((a, b) => (stem === 'up' ? b.row.row - a.row.row : a.row.row - b.row.row))
+
+  const heads: EngravedHead[] = []
+  placed.forEach((head, index) => {
+    const previous = heads[index - 1]
+    const displaced =
+      previous !== undefined && !previous.displaced && Math.abs(previous.row.row - head.row.row) === 1
+    heads.push({ ...head, displaced })
+  })
+
+  const duration = Math.min(...placed.map((head) => head.note.duration))
+  const stemBase = heads[0].row.row
+  const farthest = heads[heads.length - 1].row.row
+  const stemTip = clampTip(
+    stem,
+    stem === 'up' ? farthest - STEM_ROWS : farthest + STEM_ROWS,
+    farthest,
+  )
+  return {
+    column: placed[0].note.column,
+    stem,
+    duration,
+    heads,
+    stemBase,
+    stemTip,
+    hasStem: describeDuration(duration)?.noteValue.id !== 'whole',
+    flags: flagsFor(duration),
+    beamed: false,
+    shifted: false,
+  }
+}
+
+// Beat boundaries of a measure, continued past the meter with the last
+// beat's length when insert-mode edits grew it.
+const beatIndexFor = (measure: Measure) => {
+  const lengths = beatLengths(measure.timeSignature)
+  const fallback = lengths[lengths.length - 1] ?? measure.subdivisions
+  return (column: number) => {
+    let start = 0
+    for (let index = 0; index < lengths.length; index += 1) {
+      if (column < start + lengths[index]) {
+        return index
+      }
+      start += lengths[index]
+    }
+    return lengths.length + Math.floor((column - start) / fallback)
+  }
+}
+
+const beamSegments = (chords: EngravedChord[]) => {
+  const segments: BeamSegment[] = [{ level: 0, from: 0, to: chords.length - 1 }]
+  const deepest = Math.max(...chords.map((chord) => chord.flags))
+  for (let level = 1; level < deepest; level += 1) {
+    let runStart: number | null = null
+    chords.forEach((chord, index) => {
+      if (chord.flags > level) {
+        runStart ??= index
+      }
+      const runEnds = chord.flags <= level || index === chords.length - 1
+      if (runStart === null || !runEnds) {
+        return
+      }
+      const runEnd = chord.flags > level ? index : index - 1
+      if (runEnd > runStart) {
+        segments.push({ level, from: runStart, to: runEnd })
+      } else {
+        segments.push({ level, from: runStart, to: runStart, hook: runStart === 0 ? 'right' : 'left' })
+      }
+      runStart = null
+    })
+  }
+  return segments
+}
+
+const engraveBeam = (chords: EngravedChord[]): EngravedBeam => {
+  const stem = chords[0].stem
+  const farthest =
+    stem === 'up'
+      ? Math.min(...chords.flatMap((chord) => chord.heads.map((head) => head.row.row)))
+      : Math.max(...chords.flatMap((chord) => chord.heads.map((head) => head.row.row)))
+  const tip = clampTip(stem, stem === 'up' ? farthest - STEM_ROWS : farthest + STEM_ROWS, farthest)
+  chords.forEach((chord) => {
+    chord.stemTip = tip
+    chord.beamed = true
+  })
+  return {
+    stem,
+    tip,
+    chords,
+    segments: beamSegments(chords),
+    tuplet: chords.every((chord) => describeDuration(chord.duration)?.modifier === 'triplet'),
+  }
+}
+
+/**
+ * Lays out one measure the way a printed drum chart would: hands and feet
+ * as separate voices, notes struck together sharing a stem, and eighths and
+ * shorter beamed together within each beat. A rest in a voice breaks that
+ * voice's beam. `offset` is added to every column so a row of measures can
+ * be engraved in one coordinate space.
+ */
+export const engraveMeasure = (measure: Measure, offset = 0): EngravedMeasure => {
+  const byColumn = new Map<string, MeasureNote[]>()
+  const sortedNotes = [...measure.notes].sort(compareNotes)
+  sortedNotes.forEach((note) => {
+    const stem = rowsById.get(note.rowId)?.stem ?? 'up'
+    const key = `${stem}:${note.column}`
+    const group = byColumn.get(key) ?? []
+    group.push({ ...note, column: note.column + offset })
+    byColumn.set(key, group)
+  })
+  const chords = [...byColumn.values()]
+    .map(engraveChord)
+    .filter((chord): chord is EngravedChord => chord !== null)
+
+  chords.forEach((chord) => {
+    if (chord.stem !== 'down') {
+      return
+    }
+    const hands = chords.find((other) => other.stem === 'up' && other.column === chord.column)
+    if (!hands) {
+      return
+    }
+    const lowestHand = Math.max(...hands.heads.map((head) => head.row.row))
+    const highestFoot = Math.min(...chord.heads.map((head) => head.row.row))
+    chord.shifted = highestFoot - lowestHand <= 1
+  })
+
+  const beatOf = beatIndexFor(measure)
+  const restsBetween = (stem: StemDirection, from: number, to: number) =>
+    measure.rests.some(
+      (rest) =>
+        rest.stem === stem && rest.column + offset > from && rest.column + offset < to,
+    )
+
+  const beams: EngravedBeam[] = []
+  VOICES.forEach((stem) => {
+    let group: EngravedChord[] = []
+    const closeGroup = () => {
+      if (group.length > 1) {
+        beams.push(engraveBeam(group))
+      }
+      group = []
+    }
+    chords
+      .filter((chord) => chord.stem === stem)
+      .sort((a, b) => a.column - b.column)
+      .forEach((chord) => {
+        const previous = group[group.length - 1]
+        const joins =
+          previous !== undefined &&
+          beatOf(previous.column - offset) === beatOf(chord.column - offset) &&
+          !restsBetween(stem, previous.column, chord.column)
+        if (!joins) {
+          closeGroup()
+        }
+        if (chord.flags > 0) {
+          group.push(chord)
+        } else {
+          closeGroup()
+        }
+      })
+    closeGroup()
+  })
+
+  chords.forEach((chord) => {
+    if (chord.beamed) {
+      chord.flags = 0
+    }
+  })
+  return { chords: chords.sort((a, b) => a.column - b.column), beams }
+}
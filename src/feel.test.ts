@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { humanizeHit, isStraight, playedHit, swingForMeasure, swungColumn } from './feel'
+import { COMMON_TIME, createDefaultFeel, createEmptyMeasure } from './sheet'
+import type { Humanize, MeasureNote, PlaybackFeel, Swing } from './sheet'
+import { withForm } from './songForm'
+
+const SIX_EIGHT = { beats: 6, beatUnit: 8 }
+const TRIPLET_SWING: Swing = { amount: 67, unit: 'eighth' }
+const STRAIGHT: Swing = { amount: 50, unit: 'eighth' }
+
+describe('swungColumn', () => {
+  it('moves the second eighth of a beat two thirds of the way in at 67%', () => {
+    expect(swungColumn(6, COMMON_TIME, TRIPLET_SWING)).toBeCloseTo(8.04)
+    expect(swungColumn(18, COMMON_TIME, TRIPLET_SWING)).toBeCloseTo(20.04)
+  })
+
+  it('leaves the beats where they are', () => {
+    ;[0, 12, 24, 36].forEach((column) => {
+      expect(swungColumn(column, COMMON_TIME, TRIPLET_SWING)).toBe(column)
+    })
+  })
+
+  it('moves notes inside a pair in proportion', () => {
+    // A sixteenth and the eighth-note triplets of the first beat.
+    expect(swungColumn(3, COMMON_TIME, TRIPLET_SWING)).toBeCloseTo(4.02)
+    expect(swungColumn(4, COMMON_TIME, TRIPLET_SWING)).toBeCloseTo(5.36)
+    expect(swungColumn(8, COMMON_TIME, TRIPLET_SWING)).toBeCloseTo(9.36)
+  })
+
+  it('keeps the pair that does not fit a dotted-quarter beat straight', () => {
+    expect(swungColumn(6, SIX_EIGHT, TRIPLET_SWING)).toBeCloseTo(8.04)
+    expect(swungColumn(12, SIX_EIGHT, TRIPLET_SWING)).toBe(12)
+    expect(swungColumn(15, SIX_EIGHT, TRIPLET_SWING)).toBe(15)
+    expect(swungColumn(24, SIX_EIGHT, TRIPLET_SWING)).toBeCloseTo(26.04)
+    expect(swungColumn(30, SIX_EIGHT, TRIPLET_SWING)).toBe(30)
+  })
+
+  it('swings sixteenths in pairs of their own', () => {
+    const swing: Swing = { amount: 60, unit: 'sixteenth' }
+    expect(swungColumn(3, COMMON_TIME, swing)).toBeCloseTo(3.6)
+    expect(swungColumn(6, COMMON_TIME, swing)).toBe(6)
+    expect(swungColumn(9, COMMON_TIME, swing)).toBeCloseTo(9.6)
+  })
+
+  it('plays straight at 50%', () => {
+    expect(isStraight(STRAIGHT)).toBe(true)
+    expect(swungColumn(6, COMMON_TIME, STRAIGHT)).toBe(6)
+  })
+})
+
+describe('swingForMeasure', () => {
+  const sectionSwing: Swing = { amount: 60, unit: 'sixteenth' }
+  const measures = [
+    createEmptyMeasure(),
+    withForm(createEmptyMeasure(), { section: 'A' }),
+    createEmptyMeasure(),
+    withForm(createEmptyMeasure(), { section: 'B', swing: sectionSwing }),
+    createEmptyMeasure(),
+    withForm(createEmptyMeasure(), { section: 'C' }),
+  ]
+
+  it("uses a section's own swing up to the next rehearsal mark", () => {
+    expect(swingForMeasure(measures, 3, TRIPLET_SWING)).toEqual(sectionSwing)
+    expect(swingForMeasure(measures, 4, TRIPLET_SWING)).toEqual(sectionSwing)
+  })
+
+  it("uses the sheet's swing elsewhere", () => {
+    ;[0, 1, 2, 5].forEach((index) => {
+      expect(swingForMeasure(measures, index, TRIPLET_SWING)).toEqual(TRIPLET_SWING)
+    })
+  })
+})
+
+describe('humanizeHit', () => {
+  const humanize: Humanize = { timing: 20, velocity: 25, seed: 4711 }
+  const note: MeasureNote = { column: 12, rowId: 'sn', duration: 12 }
+
+  it('gives the same drift and velocity for the same seed, step, column and voice', () => {
+    const first = humanizeHit(humanize, 5, note)
+    expect(humanizeHit({ ...humanize }, 5, { ...note })).toEqual(first)
+    expect(Math.abs(first.driftSeconds)).toBeLessThanOrEqual(0.02)
+    expect(Math.abs(first.velocity - 1)).toBeLessThanOrEqual(0.25)
+  })
+
+  it('does not depend on the order hits are asked for', () => {
+    const notes: MeasureNote[] = [note, { column: 0, rowId: 'bd', duration: 12 }]
+    const forward = notes.map((each) => humanizeHit(humanize, 2, each))
+    const backward = [...notes].reverse().map((each) => humanizeHit(humanize, 2, each))
+    expect(backward.reverse()).toEqual(forward)
+  })
+
+  it('draws other numbers for another seed, pass or voice', () => {
+    const first = humanizeHit(humanize, 5, note)
+    expect(humanizeHit({ ...humanize, seed: 4712 }, 5, note)).not.toEqual(first)
+    expect(humanizeHit(humanize, 6, note)).not.toEqual(first)
+    expect(humanizeHit(humanize, 5, { ...note, rowId: 'hh' })).not.toEqual(first)
+  })
+
+  it('leaves hits alone when humanize is off', () => {
+    expect(humanizeHit({ timing: 0, velocity: 0, seed: 4711 }, 5, note)).toEqual({
+      driftSeconds: 0,
+      velocity: 1,
+    })
+  })
+})
+
+describe('playedHit', () => {
+  it('places a hit the same way every time it is scheduled', () => {
+    const feel: PlaybackFeel = {
+      swing: TRIPLET_SWING,
+      humanize: { timing: 15, velocity: 10, seed: 99 },
+    }
+    const measures = [createEmptyMeasure()]
+    const note: MeasureNote = { column: 6, rowId: 'hh', duration: 6 }
+    const stepSeconds = 0.05
+    const hit = playedHit(measures, 0, 3, note, feel, stepSeconds)
+    expect(playedHit(measures, 0, 3, note, feel, stepSeconds)).toEqual(hit)
+    const drift = humanizeHit(feel.humanize, 3, note).driftSeconds
+    expect(hit.offsetSeconds).toBeCloseTo(2.04 * stepSeconds + drift)
+  })
+
+  it('plays on the grid with the default feel', () => {
+    const note: MeasureNote = { column: 6, rowId: 'hh', duration: 6 }
+    expect(playedHit([createEmptyMeasure()], 0, 0, note, createDefaultFeel(), 0.05)).toEqual({
+      offsetSeconds: 0,
+      velocity: 1,
+    })
+  })
+})
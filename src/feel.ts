@@ -0,0 +1,114 @@
+import { SWING_AMOUNT, SWING_UNITS, beatLengths, rowOrder } from './sheet'
+import type { Humanize, Measure, MeasureNote, PlaybackFeel, Swing, TimeSignature } from './sheet'
+import { createRandom, mixSeed } from './seededRandom'
+
+// Playback feel: swing and humanize move hits off the written grid. Live
+// playback and the WAV export both place every hit through `playedHit`, so
+// the same sheet sounds the same in both, down to the humanized details.
+
+const unitSteps = new Map(SWING_UNITS.map((unit) => [unit.id, unit.steps]))
+
+export const isStraight = (swing: Swing) => swing.amount <= SWING_AMOUNT.min
+
+/** "Straight" or the swing amount, e.g. "67% 8ths". */
+export const formatSwing = (swing: Swing) =>
+  isStraight(swing)
+    ? 'Straight'
+    : `${swing.amount}% ${SWING_UNITS.find((unit) => unit.id === swing.unit)?.label ?? swing.unit}`
+
+/**
+ * The measure whose rehearsal mark starts the section a measure is in, or
+ * -1 before the first mark.
+ */
+export const sectionStart = (measures: Measure[], measureIndex: number) => {
+  for (let index = Math.min(measureIndex, measures.length - 1); index >= 0; index -= 1) {
+    if (measures[index].form?.section) {
+      return index
+    }
+  }
+  return -1
+}
+
+/** The swing a measure plays with: its section's own, or else the sheet's. */
+export const swingForMeasure = (measures: Measure[], measureIndex: number, swing: Swing) => {
+  const start = sectionStart(measures, measureIndex)
+  return (start >= 0 ? measures[start].form?.swing : undefined) ?? swing
+}
+
+/**
+ * Where a written column sounds once swung, in steps from the start of the
+ * measure. Each pair of swing units inside a beat is stretched so the first
+ * half takes `amount` percent of it; notes in between, such as triplets,
+ * move in proportion. A pair that doesn't fit in its beat, like the last
+ * eighths of a dotted-quarter beat, stays straight.
+ */
+export const swungColumn = (column: number, timeSignature: TimeSignature, swing: Swing) => {
+  if (isStraight(swing)) {
+    return column
+  }
+  const unit = unitSteps.get(swing.unit) ?? 0
+  const pair = unit * 2
+  let beatStart = 0
+  for (const length of beatLengths(timeSignature)) {
+    if (column < beatStart + length) {
+      const offset = column - beatStart
+      const pairStart = offset - (offset % pair)
+      if (pairStart + pair > length) {
+        return column
+      }
+      const inPair = offset - pairStart
+      const split = (pair * swing.amount) / 100
+      const swung =
+        inPair < unit ? (inPair * split) / unit : split + ((inPair - unit) * (pair - split)) / unit
+      return beatStart + pairStart + swung
+    }
+    beatStart += length
+  }
+  // Steps past the meter, from insert-mode edits, are left alone.
+  return column
+}
+
+/**
+ * The humanized drift in seconds and level factor of one hit. The numbers
+ * are drawn for the hit's place in the performance (`orderStep`, its column
+ * and voice) rather than from a running sequence, so they don't depend on
+ * when or in which order hits are scheduled.
+ */
+export const humanizeHit = (humanize: Humanize, orderStep: number, note: MeasureNote) => {
+  if (humanize.timing === 0 && humanize.velocity === 0) {
+    return { driftSeconds: 0, velocity: 1 }
+  }
+  const random = createRandom(
+    mixSeed(humanize.seed, orderStep, note.column, rowOrder.get(note.rowId) ?? 0),
+  )
+  return {
+    driftSeconds: ((random() * 2 - 1) * humanize.timing) / 1000,
+    velocity: 1 + ((random() * 2 - 1) * humanize.velocity) / 100,
+  }
+}
+
+export type PlayedHit = {
+  // Seconds after the note's written time that it sounds; negative is early.
+  offsetSeconds: number
+  // Factor on the note's level, 1 as written.
+  velocity: number
+}
+
+/**
+ * How a note of the measure at `measureIndex` is played with the sheet's
+ * feel, `orderStep` being the measure's place in the performance order.
+ */
+export const playedHit = (
+  measures: Measure[],
+  measureIndex: number,
+  orderStep: number,
+  note: MeasureNote,
+  feel: PlaybackFeel,
+  stepSeconds: number,
+): PlayedHit => {
+  const measure = measures[measureIndex]
+  const swing = swingForMeasure(measures, measureIndex, feel.swing)
+  const swingSteps = swungColumn(note.column, measure.timeSignature, swing) - note.column
+  const { driftSeconds, velocity } = humanizeHit(feel.humanize, orderStep, note)
+  return { offsetSeconds: swingSteps * stepSeconds + driftSeconds, velocity }
+}
@@ -0,0 +1,318 @@
+import { COMMON_TIME, DURATION_OPTIONS, beatLengths, compareNotes } from './sheet'
+import type { Articulation, Measure, MeasureNote, NoteRowId, TimeSignature } from './sheet'
+import { createRandom } from './seededRandom'
+
+/*
+ * Groove patterns
+ *
+ * Each pattern spells one measure per voice, one character per grid cell of
+ * `grid` steps, like a drum tab:
+ *
+ *   x  a plain hit          X  an accent
+ *   g  a ghost note         r  a rimshot (cross-stick in the bossa)
+ *   f  a flam               -  nothing
+ *
+ * A pattern is written in `timeSignature`. Inserted into a measure of
+ * another length it repeats or is cut off at the barline, so the notes
+ * always fit the measure they land in.
+ */
+
+export const GROOVE_CATEGORIES = ['Rock', 'Half-time', 'Shuffle', 'Bossa nova', 'Funk', 'Fills'] as const
+
+export type GrooveCategory = (typeof GROOVE_CATEGORIES)[number]
+
+export type GroovePattern = {
+  id: string
+  name: string
+  category: GrooveCategory
+  timeSignature: TimeSignature
+  // Steps per character: 6 for eighths, 3 for sixteenths, 4 for eighth triplets.
+  grid: number
+  lines: Partial<Record<NoteRowId, string>>
+}
+
+export const GROOVE_PATTERNS: GroovePattern[] = [
+  {
+    id: 'rock-eighths',
+    name: 'Rock eighths',
+    category: 'Rock',
+    timeSignature: COMMON_TIME,
+    grid: 6,
+    lines: { hh: 'xxxxxxxx', sn: '--x---x-', bd: 'x---x---' },
+  },
+  {
+    id: 'rock-push',
+    name: 'Rock with a pushed kick',
+    category: 'Rock',
+    timeSignature: COMMON_TIME,
+    grid: 6,
+    lines: { hh: 'xxxxxxxx', sn: '--x---x-', bd: 'x---xx--' },
+  },
+  {
+    id: 'rock-sixteenths',
+    name: 'Rock sixteenths',
+    category: 'Rock',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: { hh: 'xxxxxxxxxxxxxxxx', sn: '----X-------X---', bd: 'x-----x-x-------' },
+  },
+  {
+    id: 'half-time',
+    name: 'Half-time',
+    category: 'Half-time',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: { hh: 'x-x-x-x-x-x-x-x-', sn: '--------X-------', bd: 'x------x--x-----' },
+  },
+  {
+    id: 'half-time-ghosts',
+    name: 'Half-time with ghost notes',
+    category: 'Half-time',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: { hh: 'x-x-x-x-x-x-x-x-', sn: '---g----X--g---g', bd: 'x------x--x-----' },
+  },
+  {
+    id: 'shuffle',
+    name: 'Shuffle',
+    category: 'Shuffle',
+    timeSignature: COMMON_TIME,
+    grid: 4,
+    lines: { hh: 'x-xx-xx-xx-x', sn: '---X-----X--', bd: 'x-----x-----' },
+  },
+  {
+    id: 'half-time-shuffle',
+    name: 'Half-time shuffle',
+    category: 'Shuffle',
+    timeSignature: COMMON_TIME,
+    grid: 4,
+    lines: { hh: 'x-xx-xx-xx-x', sn: '-g--g-X--g-g', bd: 'x----x---x--' },
+  },
+  {
+    id: 'bossa-nova',
+    name: 'Bossa nova',
+    category: 'Bossa nova',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: { hh: 'x-x-x-x-x-x-x-x-', sn: 'r--r--r---r--r--', bd: 'x--xx--xx--xx--x' },
+  },
+  {
+    id: 'funk-sixteenths',
+    name: 'Funk sixteenths',
+    category: 'Funk',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: { hh: 'XxxxXxxxXxxxXxxx', sn: '----X--g-g--X--g', bd: 'x-x----x--x-----' },
+  },
+  {
+    id: 'funk-open-hat',
+    name: 'Funk with an open hi-hat',
+    category: 'Funk',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: {
+      hh: 'xxxxxxxxxxxxxx-x',
+      oh: '--------------x-',
+      sn: '----X--g-g--X---',
+      bd: 'x--x--x---x--x--',
+    },
+  },
+  {
+    id: 'fill-snare',
+    name: 'Snare sixteenths',
+    category: 'Fills',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: { sn: 'XxxxXxxxXxxxXxxx', bd: 'x---x---x---x---' },
+  },
+  {
+    id: 'fill-toms',
+    name: 'Down the toms',
+    category: 'Fills',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: {
+      sn: 'Xxxx------------',
+      ht: '----Xxxx--------',
+      mt: '--------Xxxx----',
+      ft: '------------Xxxx',
+      bd: 'x---x---x---x---',
+    },
+  },
+  {
+    id: 'fill-half-bar',
+    name: 'Half-bar fill',
+    category: 'Fills',
+    timeSignature: COMMON_TIME,
+    grid: 3,
+    lines: {
+      hh: 'x-x-x-x---------',
+      sn: '----X---fxxx----',
+      ht: '------------xx--',
+      ft: '--------------xx',
+      bd: 'x-------x-------',
+    },
+  },
+  {
+    id: 'fill-triplets',
+    name: 'Triplet fill',
+    category: 'Fills',
+    timeSignature: COMMON_TIME,
+    grid: 4,
+    lines: {
+      sn: 'Xxx---------',
+      ht: '---Xxx------',
+      mt: '------Xxx---',
+      ft: '---------Xxx',
+      bd: 'x--x--x--x--',
+    },
+  },
+]
+
+export const groovesById = new Map(GROOVE_PATTERNS.map((pattern) => [pattern.id, pattern]))
+
+const PATTERN_SYMBOLS: Record<string, Articulation | null> = {
+  x: null,
+  X: 'accent',
+  g: 'ghost',
+  r: 'rimshot',
+  f: 'flam',
+}
+
+// The longest note value that fits one grid cell, so hits never overlap.
+const durationForGrid = (steps: number) => {
+  const fitting = DURATION_OPTIONS.map((option) => option.value).filter((value) => value <= steps)
+  return fitting.length > 0
+    ? Math.max(...fitting)
+    : Math.min(...DURATION_OPTIONS.map((option) => option.value))
+}
+
+const toNote = (column: number, rowId: NoteRowId, duration: number, articulation: Articulation | null) =>
+  articulation ? { column, rowId, duration, articulation } : { column, rowId, duration }
+
+/** The pattern's notes laid over a measure, repeated or cut off to fit it. */
+export const patternNotes = (pattern: GroovePattern, measure: Measure): MeasureNote[] => {
+  const cells = Math.floor(measure.subdivisions / pattern.grid)
+  const duration = durationForGrid(pattern.grid)
+  const notes: MeasureNote[] = []
+  Object.entries(pattern.lines).forEach(([rowId, line]) => {
+    for (let cell = 0; cell < cells && line.length > 0; cell += 1) {
+      const symbol = line[cell % line.length]
+      if (symbol in PATTERN_SYMBOLS) {
+        notes.push(toNote(cell * pattern.grid, rowId as NoteRowId, duration, PATTERN_SYMBOLS[symbol]))
+      }
+    }
+  })
+  return notes.sort(compareNotes)
+}
+
+export const HI_HAT_DENSITIES = [
+  { id: 'beats', label: 'On the beat' },
+  { id: 'eighths', label: 'Eighths' },
+  { id: 'sixteenths', label: 'Sixteenths' },
+] as const
+
+export type HiHatDensity = (typeof HI_HAT_DENSITIES)[number]['id']
+
+export const KICK_VARIATIONS = [
+  { id: 'anchored', label: 'Every other beat' },
+  { id: 'four', label: 'Every beat' },
+  { id: 'syncopated', label: 'Syncopated eighths' },
+  { id: 'busy', label: 'Busy sixteenths' },
+] as const
+
+export type KickVariation = (typeof KICK_VARIATIONS)[number]['id']
+
+export type GeneratorOptions = {
+  hiHat: HiHatDensity
+  kick: KickVariation
+  // Chance from 0 to 1 that an open sixteenth gets a snare ghost note.
+  ghostChance: number
+  seed: number
+}
+
+export const DEFAULT_GENERATOR: GeneratorOptions = {
+  hiHat: 'eighths',
+  kick: 'anchored',
+  ghostChance: 0.2,
+  seed: 1,
+}
+
+// How likely an open offbeat is to get an extra kick.
+const SYNCOPATED_KICK_CHANCE = 0.35
+const BUSY_KICK_CHANCE = 0.25
+
+const EIGHTH_STEPS = 6
+const SIXTEENTH_STEPS = 3
+
+const greatestCommonDivisor = (a: number, b: number): number =>
+  b === 0 ? a : greatestCommonDivisor(b, a % b)
+
+const columnsEvery = (steps: number, subdivisions: number) =>
+  Array.from({ length: Math.ceil(subdivisions / steps) }, (_, index) => index * steps)
+
+/**
+ * One generated measure: hi-hats at the chosen density, the snare on the
+ * backbeats (every second beat of the meter), kicks anchored on the other
+ * beats with seeded extras, and seeded snare ghost notes in the gaps. Notes
+ * are as long as the finest grid they use.
+ */
+const generateMeasure = (measure: Measure, options: GeneratorOptions, random: () => number) => {
+  const beatStarts: number[] = []
+  let start = 0
+  beatLengths(measure.timeSignature).forEach((length) => {
+    if (start < measure.subdivisions) {
+      beatStarts.push(start)
+    }
+    start += length
+  })
+  const onBeat = new Set(beatStarts)
+  const backbeats = new Set(beatStarts.filter((_, index) => index % 2 === 1))
+  const hits: Array<{ column: number; rowId: NoteRowId; articulation: Articulation | null }> = []
+
+  const hats =
+    options.hiHat === 'beats'
+      ? beatStarts
+      : columnsEvery(options.hiHat === 'eighths' ? EIGHTH_STEPS : SIXTEENTH_STEPS, measure.subdivisions)
+  hats.forEach((column) => hits.push({ column, rowId: 'hh', articulation: null }))
+  backbeats.forEach((column) => hits.push({ column, rowId: 'sn', articulation: null }))
+
+  const kicks = new Set(
+    options.kick === 'four' ? beatStarts : beatStarts.filter((_, index) => index % 2 === 0),
+  )
+  if (options.kick === 'syncopated' || options.kick === 'busy') {
+    columnsEvery(EIGHTH_STEPS, measure.subdivisions).forEach((column) => {
+      if (!onBeat.has(column) && random() < SYNCOPATED_KICK_CHANCE) {
+        kicks.add(column)
+      }
+    })
+  }
+  if (options.kick === 'busy') {
+    columnsEvery(SIXTEENTH_STEPS, measure.subdivisions).forEach((column) => {
+      if (column % EIGHTH_STEPS !== 0 && random() < BUSY_KICK_CHANCE) {
+        kicks.add(column)
+      }
+    })
+  }
+  kicks.forEach((column) => hits.push({ column, rowId: 'bd', articulation: null }))
+
+  columnsEvery(SIXTEENTH_STEPS, measure.subdivisions).forEach((column) => {
+    if (!onBeat.has(column) && random() < options.ghostChance) {
+      hits.push({ column, rowId: 'sn', articulation: 'ghost' })
+    }
+  })
+
+  const grid = hits.reduce((divisor, hit) => greatestCommonDivisor(divisor, hit.column), measure.subdivisions)
+  const duration = durationForGrid(grid)
+  return hits.map((hit) => toNote(hit.column, hit.rowId, duration, hit.articulation)).sort(compareNotes)
+}
+
+/**
+ * Generated notes for each of the measures, in order. One seeded sequence
+ * runs through them all, so the same seed and options always give the same
+ * grooves while consecutive measures still vary.
+ */
+export const generateGrooves = (measures: Measure[], options: GeneratorOptions) => {
+  const random = createRandom(options.seed)
+  return measures.map((measure) => generateMeasure(measure, options, random))
+}
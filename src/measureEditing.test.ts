@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { changeTimeSignature } from './measureEditing'
+import { createEmptyMeasure } from './sheet'
+import type { Measure } from './sheet'
+import { performanceOrder, withForm } from './songForm'
+
+const THREE_FOUR = { beats: 3, beatUnit: 4 }
+
+// [A |: measure 1 | measure 2 :|x2] measure 3
+const repeatedSheet = (): Measure[] => [
+  withForm(
+    { ...createEmptyMeasure(), notes: [{ column: 36, rowId: 'sn', duration: 12 }] },
+    { section: 'A', repeatStart: true },
+  ),
+  withForm(createEmptyMeasure(), { repeatEnd: 2 }),
+  createEmptyMeasure(),
+]
+
+describe('changeTimeSignature', () => {
+  it('refits the measures that shared the old meter', () => {
+    const measures = changeTimeSignature(repeatedSheet(), 0, THREE_FOUR)
+    expect(measures.map((measure) => measure.timeSignature)).toEqual([
+      THREE_FOUR,
+      THREE_FOUR,
+      THREE_FOUR,
+    ])
+    expect(measures.map((measure) => measure.subdivisions)).toEqual([36, 36, 36])
+    expect(measures[0].notes).toEqual([])
+  })
+
+  it('keeps the song form of the measures it refits', () => {
+    const before = repeatedSheet()
+    const after = changeTimeSignature(before, 0, THREE_FOUR)
+    expect(after.map((measure) => measure.form)).toEqual(before.map((measure) => measure.form))
+    expect(performanceOrder(after)).toEqual(performanceOrder(before))
+    expect(performanceOrder(after)).toEqual([0, 1, 0, 1, 2])
+  })
+
+  it('keeps the tempo marks of the measures it refits', () => {
+    const before = repeatedSheet()
+    before[1] = { ...before[1], tempo: { bpm: 90 } }
+    before[2] = { ...before[2], tempo: { bpm: 140, ramp: true } }
+    const after = changeTimeSignature(before, 0, THREE_FOUR)
+    expect(after.map((measure) => measure.tempo)).toEqual([
+      undefined,
+      { bpm: 90 },
+      { bpm: 140, ramp: true },
+    ])
+  })
+})
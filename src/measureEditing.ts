@@ -0,0 +1,269 @@
+import {
+  STEPS_PER_SIXTEENTH,
+  beatLengths,
+  compareNotes,
+  describeDuration,
+  isOffMeter,
+  rowsById,
+  sameTimeSignature,
+  sharesStaffPosition,
+  stepsForTimeSignature,
+} from './sheet'
+import type {
+  Articulation,
+  Measure,
+  MeasureNote,
+  MeasureRest,
+  NoteRowId,
+  StemDirection,
+  TimeSignature,
+} from './sheet'
+
+export type EntryMode = 'toggle' | 'insert'
+
+export type NotePlacement = {
+  column: number
+  rowId: NoteRowId
+  duration: number
+  articulation?: Articulation
+}
+
+export const ENTRY_MODES: Array<{ value: EntryMode; label: string; description: string }> = [
+  {
+    value: 'toggle',
+    label: 'Toggle',
+    description: 'Click an empty step to add a note, click a note to remove it',
+  },
+  {
+    value: 'insert',
+    label: 'Insert',
+    description: 'Push later notes right and lengthen the measure',
+  },
+]
+
+export const findNote = (measure: Measure, column: number, rowId: NoteRowId) =>
+  measure.notes.find((note) => note.column === column && note.rowId === rowId)
+
+export const findRest = (measure: Measure, column: number, stem: StemDirection) =>
+  measure.rests.find((rest) => rest.column === column && rest.stem === stem)
+
+const stemOf = (rowId: NoteRowId) => rowsById.get(rowId)?.stem ?? 'up'
+
+const compareRests = (a: MeasureRest, b: MeasureRest) =>
+  a.column - b.column || (a.stem === b.stem ? 0 : a.stem === 'up' ? -1 : 1)
+
+const overlaps = (start: number, end: number, item: { column: number; duration: number }) =>
+  item.column < end && item.column + item.duration > start
+
+/**
+ * Triplet durations edit on their own triplet grid; everything else snaps to
+ * sixteenths.
+ */
+export const gridStepsFor = (duration: number) => {
+  const option = describeDuration(duration)
+  return option?.modifier === 'triplet' ? option.value : STEPS_PER_SIXTEENTH
+}
+
+/**
+ * Grid lines of a measure: every `gridSteps` from the start of each beat,
+ * then on past the meter's length if insert-mode edits grew the measure.
+ */
+export const gridColumns = (measure: Measure, gridSteps: number) => {
+  const columns: Array<{ column: number; beatStart: boolean }> = []
+  let beatStart = 0
+  const addLines = (from: number, to: number) => {
+    for (let column = from; column < Math.min(to, measure.subdivisions); column += gridSteps) {
+      columns.push({ column, beatStart: column === from })
+    }
+  }
+  beatLengths(measure.timeSignature).forEach((length) => {
+    addLines(beatStart, beatStart + length)
+    beatStart += length
+  })
+  addLines(beatStart, measure.subdivisions)
+  return columns
+}
+
+/**
+ * Rounds a step inside a measure to the nearest grid line. The grid restarts
+ * on every beat so triplets line up with the beat in any meter; steps past
+ * the meter's length use a grid counted from the end of the last beat.
+ */
+export const snapColumn = (measure: Measure, column: number, gridSteps: number) => {
+  let beatStart = 0
+  let beatEnd = measure.subdivisions
+  for (const length of beatLengths(measure.timeSignature)) {
+    if (column < beatStart + length) {
+      beatEnd = beatStart + length
+      break
+    }
+    beatStart += length
+  }
+  const lastLine = Math.floor((beatEnd - beatStart - 1) / gridSteps) * gridSteps
+  const offset = Math.round((column - beatStart) / gridSteps) * gridSteps
+  const snapped = beatStart + Math.min(Math.max(offset, 0), lastLine)
+  return Math.min(snapped, measure.subdivisions - 1)
+}
+
+const toNote = ({ column, rowId, duration, articulation }: NotePlacement): MeasureNote =>
+  articulation ? { column, rowId, duration, articulation } : { column, rowId, duration }
+
+const shiftRests = (rests: MeasureRest[], from: number, by: number) =>
+  rests.map((rest) => (rest.column >= from ? { ...rest, column: rest.column + by } : rest))
+
+/** Adds a note and shifts every later note and rest right, growing the measure. */
+export const insertNote = (measure: Measure, placement: NotePlacement): Measure => {
+  const shiftedNotes = measure.notes.map((note) =>
+    note.column >= placement.column ? { ...note, column: note.column + placement.duration } : note,
+  )
+  const nextNotes: MeasureNote[] = [...shiftedNotes, toNote(placement)]
+  nextNotes.sort(compareNotes)
+  return {
+    ...measure,
+    subdivisions: measure.subdivisions + placement.duration,
+    notes: nextNotes,
+    rests: shiftRests(measure.rests, placement.column, placement.duration),
+  }
+}
+
+/** Adds a rest and shifts every later note and rest right, growing the measure. */
+export const insertRest = (measure: Measure, rest: MeasureRest): Measure => ({
+  ...measure,
+  subdivisions: measure.subdivisions + rest.duration,
+  notes: measure.notes.map((note) =>
+    note.column >= rest.column ? { ...note, column: note.column + rest.duration } : note,
+  ),
+  rests: [...shiftRests(measure.rests, rest.column, rest.duration), { ...rest }].sort(compareRests),
+})
+
+/**
+ * Removes the rest at the placement if there is one, otherwise places a new
+ * rest. Notes of the same voice that start inside the rest and rests it
+ * overlaps make way for it.
+ */
+export const toggleRest = (measure: Measure, rest: MeasureRest): Measure => {
+  if (findRest(measure, rest.column, rest.stem)) {
+    return {
+      ...measure,
+      rests: measure.rests.filter(
+        (existing) => !(existing.column === rest.column && existing.stem === rest.stem),
+      ),
+    }
+  }
+  const end = rest.column + rest.duration
+  return {
+    ...measure,
+    notes: measure.notes.filter(
+      (note) => stemOf(note.rowId) !== rest.stem || note.column < rest.column || note.column >= end,
+    ),
+    rests: [
+      ...measure.rests.filter(
+        (existing) => existing.stem !== rest.stem || !overlaps(rest.column, end, existing),
+      ),
+      { ...rest },
+    ].sort(compareRests),
+  }
+}
+
+/**
+ * Removes the note at the placement if there is one, otherwise places a new
+ * note there. The measure length never changes; a new note replaces any note
+ * of the same voice that starts inside its span, any note of another voice
+ * drawn on the same staff position in that column, and any rest of its
+ * hands or feet voice that covers the column.
+ */
+export const toggleNote = (measure: Measure, placement: NotePlacement): Measure => {
+  if (findNote(measure, placement.column, placement.rowId)) {
+    return {
+      ...measure,
+      notes: measure.notes.filter(
+        (note) => !(note.column === placement.column && note.rowId === placement.rowId),
+      ),
+    }
+  }
+  const end = placement.column + placement.duration
+  const nextNotes: MeasureNote[] = [
+    ...measure.notes.filter((note) => {
+      if (note.rowId === placement.rowId) {
+        return note.column < placement.column || note.column >= end
+      }
+      return note.column !== placement.column || !sharesStaffPosition(note.rowId, placement.rowId)
+    }),
+    toNote(placement),
+  ]
+  nextNotes.sort(compareNotes)
+  // A rest in the same voice can't sound alongside the new note.
+  const stem = stemOf(placement.rowId)
+  return {
+    ...measure,
+    notes: nextNotes,
+    rests: measure.rests.filter(
+      (rest) => rest.stem !== stem || !overlaps(placement.column, placement.column + 1, rest),
+    ),
+  }
+}
+
+const refitMeasure = (measure: Measure, timeSignature: TimeSignature): Measure => {
+  // Drifted measures keep their length so the warning stays visible.
+  const subdivisions = isOffMeter(measure)
+    ? measure.subdivisions
+    : stepsForTimeSignature(timeSignature)
+  return {
+    ...measure,
+    timeSignature: { ...timeSignature },
+    subdivisions,
+    notes: measure.notes.filter((note) => note.column < subdivisions),
+    rests: measure.rests.filter((rest) => rest.column < subdivisions),
+  }
+}
+
+/**
+ * Sets the meter of a measure and of the following measures that shared its
+ * old meter, the way a time signature holds until the next change. Measures
+ * that shrink lose the notes past their new end.
+ */
+export const changeTimeSignature = (
+  measures: Measure[],
+  index: number,
+  timeSignature: TimeSignature,
+) => {
+  const target = measures[index]
+  if (!target || sameTimeSignature(target.timeSignature, timeSignature)) {
+    return measures
+  }
+  const previous = target.timeSignature
+  let end = index + 1
+  while (end < measures.length && sameTimeSignature(measures[end].timeSignature, previous)) {
+    end += 1
+  }
+  return measures.map((measure, measureIndex) =>
+    measureIndex >= index && measureIndex < end ? refitMeasure(measure, timeSignature) : measure,
+  )
+}
+
+/**
+ * Gives the note at `column` on `rowId` an articulation, or clears it when
+ * the note already has that one. Returns the measure unchanged when there is
+ * no such note.
+ */
+export const toggleArticulation = (
+  measure: Measure,
+  column: number,
+  rowId: NoteRowId,
+  articulation: Articulation | null,
+): Measure => {
+  const target = findNote(measure, column, rowId)
+  if (!target) {
+    return measure
+  }
+  const next = articulation && target.articulation !== articulation ? articulation : undefined
+  if (next === target.articulation) {
+    return measure
+  }
+  return {
+    ...measure,
+    notes: measure.notes.map((note) =>
+      note === target ? toNote({ ...note, articulation: next }) : note,
+    ),
+  }
+}
@@ -0,0 +1,75 @@
+import { createEmptyMeasure } from './sheet'
+import type { Measure, MeasureRange } from './sheet'
+
+// Arranging edits over runs of whole measures. Ranges are inclusive at both
+// ends, like the practice loop, and every function returns a new array.
+
+// Copies a duplicate adds after the original run.
+export const DUPLICATE_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8] as const
+
+/** The range between two measures, whichever way round they were picked. */
+export const rangeBetween = (anchor: number, focus: number): MeasureRange => ({
+  start: Math.min(anchor, focus),
+  end: Math.max(anchor, focus),
+})
+
+export const rangeLength = ({ start, end }: MeasureRange) => end - start + 1
+
+export const cloneMeasure = (measure: Measure): Measure => ({
+  timeSignature: { ...measure.timeSignature },
+  subdivisions: measure.subdivisions,
+  notes: measure.notes.map((note) => ({ ...note })),
+  rests: measure.rests.map((rest) => ({ ...rest })),
+  ...(measure.form ? { form: { ...measure.form } } : {}),
+  ...(measure.tempo ? { tempo: { ...measure.tempo } } : {}),
+})
+
+export const copyMeasures = (measures: Measure[], { start, end }: MeasureRange) =>
+  measures.slice(start, end + 1).map(cloneMeasure)
+
+/** Removes the range; a sheet never drops below one empty measure. */
+export const deleteMeasures = (measures: Measure[], { start, end }: MeasureRange) => {
+  const remaining = [...measures.slice(0, start), ...measures.slice(end + 1)]
+  return remaining.length > 0 ? remaining : [createEmptyMeasure(measures[0]?.timeSignature)]
+}
+
+/** Puts copies of `clip` in front of measure `index`, pushing later ones back. */
+export const insertMeasures = (measures: Measure[], index: number, clip: Measure[]) => [
+  ...measures.slice(0, index),
+  ...clip.map(cloneMeasure),
+  ...measures.slice(index),
+]
+
+/** Writes copies of `clip` over the measures from `index`, adding any that run past the end. */
+export const overwriteMeasures = (measures: Measure[], index: number, clip: Measure[]) => [
+  ...measures.slice(0, index),
+  ...clip.map(cloneMeasure),
+  ...measures.slice(index + clip.length),
+]
+
+/** Repeats the range `times` more times straight after itself. */
+export const duplicateMeasures = (measures: Measure[], range: MeasureRange, times: number) => {
+  const phrase = copyMeasures(measures, range)
+  return insertMeasures(
+    measures,
+    range.end + 1,
+    Array.from({ length: times }, () => phrase).flat(),
+  )
+}
+
+/**
+ * Shifts the range one measure earlier or later by swapping it with its
+ * neighbour, returning the measures and where the range ended up.
+ */
+export const moveMeasures = (measures: Measure[], range: MeasureRange, direction: -1 | 1) => {
+  if (range.start + direction < 0 || range.end + direction >= measures.length) {
+    return { measures, range }
+  }
+  const block = measures.slice(range.start, range.end + 1)
+  const rest = [...measures.slice(0, range.start), ...measures.slice(range.end + 1)]
+  const start = range.start + direction
+  return {
+    measures: [...rest.slice(0, start), ...block, ...rest.slice(start)],
+    range: { start, end: range.end + direction },
+  }
+}
@@ -0,0 +1,88 @@
+import { NOTE_ROWS, isNoteRowId } from './sheet'
+import type { NoteRowId } from './sheet'
+
+export type DrumPitchMap = Record<NoteRowId, number>
+
+// General MIDI percussion key numbers (channel 10).
+export const GM_DRUM_PITCHES: DrumPitchMap = {
+  cb: 56,
+  cr: 49,
+  hh: 42,
+  oh: 46,
+  rd: 51,
+  rb: 53,
+  ht: 50,
+  mt: 47,
+  sn: 38,
+  ft: 43,
+  bd: 36,
+  hf: 44,
+}
+
+export const GM_DRUM_NAMES: Record<number, string> = {
+  35: 'Acoustic bass drum',
+  36: 'Bass drum 1',
+  37: 'Side stick',
+  38: 'Acoustic snare',
+  39: 'Hand clap',
+  40: 'Electric snare',
+  41: 'Low floor tom',
+  42: 'Closed hi-hat',
+  43: 'High floor tom',
+  44: 'Pedal hi-hat',
+  45: 'Low tom',
+  46: 'Open hi-hat',
+  47: 'Low-mid tom',
+  48: 'Hi-mid tom',
+  49: 'Crash cymbal 1',
+  50: 'High tom',
+  51: 'Ride cymbal 1',
+  52: 'Chinese cymbal',
+  53: 'Ride bell',
+  54: 'Tambourine',
+  55: 'Splash cymbal',
+  56: 'Cowbell',
+  57: 'Crash cymbal 2',
+  59: 'Ride cymbal 2',
+}
+
+const STORAGE_KEY = 'drumsheet:midi-pitches'
+
+export const isMidiNote = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 127
+
+export const describePitch = (pitch: number) =>
+  GM_DRUM_NAMES[pitch] ? `${pitch} · ${GM_DRUM_NAMES[pitch]}` : `${pitch}`
+
+/** The user's pitch map from browser storage, falling back to General MIDI. */
+export const loadDrumPitchMap = (): DrumPitchMap => {
+  const map = { ...GM_DRUM_PITCHES }
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    const stored: unknown = raw ? JSON.parse(raw) : null
+    if (stored && typeof stored === 'object') {
+      Object.entries(stored).forEach(([rowId, pitch]) => {
+        if (isNoteRowId(rowId) && isMidiNote(pitch)) {
+          map[rowId] = pitch
+        }
+      })
+    }
+  } catch {
+    // Unreadable or unavailable storage leaves the defaults in place.
+  }
+  return map
+}
+
+export const saveDrumPitchMap = (map: DrumPitchMap) => {
+  try {
+    const changed = Object.fromEntries(
+      NOTE_ROWS.filter((row) => map[row.id] !== GM_DRUM_PITCHES[row.id]).map((row) => [
+        row.id,
+        map[row.id],
+      ]),
+    )
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(changed))
+  } catch {
+    // The map still applies for this session.
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { MIDI_TICKS_PER_QUARTER, sheetToMidi } from './midiExport'
+import { GM_DRUM_PITCHES } from './midiDrumMap'
+import { PERCUSSION_CHANNEL, encodeMidiFile, parseMidiFile } from './midiFile'
+import type { MidiEvent, MidiFile } from './midiFile'
+import { createEmptyMeasure, createEmptySheet } from './sheet'
+import type { DrumSheet } from './sheet'
+
+const QUARTER = MIDI_TICKS_PER_QUARTER
+
+// Two measures of 4/4 and one of 3/4 at 120 bpm: kick and snare on the
+// beats, hi-hat eighths in the first measure.
+const testSheet = (): DrumSheet => ({
+  ...createEmptySheet(),
+  title: 'Round trip',
+  tempo: 120,
+  voices: ['hh', 'sn', 'bd'],
+  measures: [
+    {
+      ...createEmptyMeasure(),
+      notes: [
+        { column: 0, rowId: 'bd', duration: 12 },
+        ...Array.from({ length: 8 }, (_, index) => ({
+          column: index * 6,
+          rowId: 'hh' as const,
+          duration: 6,
+        })),
+        { column: 12, rowId: 'sn', duration: 12 },
+      ],
+    },
+    { ...createEmptyMeasure(), notes: [{ column: 24, rowId: 'bd', duration: 12 }] },
+    {
+      ...createEmptyMeasure({ beats: 3, beatUnit: 4 }),
+      notes: [{ column: 24, rowId: 'sn', duration: 12 }],
+    },
+  ],
+})
+
+const roundTrip = (file: MidiFile) => parseMidiFile(encodeMidiFile(file))
+
+const allEvents = (file: MidiFile) => file.tracks.flatMap((track) => track.events)
+
+const noteOns = (events: MidiEvent[]) =>
+  events
+    .filter((event) => event.type === 'noteOn')
+    .map((event) => ({ tick: event.tick, note: event.note, channel: event.channel }))
+    .sort((a, b) => a.tick - b.tick || a.note - b.note)
+
+describe('sheetToMidi read back through parseMidiFile', () => {
+  for (const format of [0, 1] as const) {
+    describe(`format ${format}`, () => {
+      const written = sheetToMidi(testSheet(), { format, pitchMap: GM_DRUM_PITCHES })
+      const parsed = roundTrip(written)
+
+      it('keeps the header', () => {
+        expect(parsed.format).toBe(format)
+        expect(parsed.ticksPerQuarter).toBe(QUARTER)
+        expect(parsed.tracks).toHaveLength(format === 0 ? 1 : 4)
+      })
+
+      it('keeps the tempo', () => {
+        const tempos = allEvents(parsed).filter((event) => event.type === 'tempo')
+        expect(tempos).toEqual([{ tick: 0, type: 'tempo', microsecondsPerQuarter: 500_000 }])
+      })
+
+      it('writes a time signature where the meter changes', () => {
+        const meters = allEvents(parsed)
+          .filter((event) => event.type === 'timeSignature')
+          .map(({ tick, numerator, denominator }) => ({ tick, numerator, denominator }))
+        expect(meters).toEqual([
+          { tick: 0, numerator: 4, denominator: 4 },
+          { tick: 8 * QUARTER, numerator: 3, denominator: 4 },
+        ])
+      })
+
+      it('places every note on channel 10 at its tick with its GM key', () => {
+        const expected = [
+          { tick: 0, note: GM_DRUM_PITCHES.bd },
+          ...Array.from({ length: 8 }, (_, index) => ({
+            tick: (index * QUARTER) / 2,
+            note: GM_DRUM_PITCHES.hh,
+          })),
+          { tick: QUARTER, note: GM_DRUM_PITCHES.sn },
+          { tick: 6 * QUARTER, note: GM_DRUM_PITCHES.bd },
+          { tick: 10 * QUARTER, note: GM_DRUM_PITCHES.sn },
+        ]
+          .map((note) => ({ ...note, channel: PERCUSSION_CHANNEL }))
+          .sort((a, b) => a.tick - b.tick || a.note - b.note)
+        expect(noteOns(allEvents(parsed))).toEqual(expected)
+      })
+
+      it('ends each note after its written length', () => {
+        const offs = allEvents(parsed).filter((event) => event.type === 'noteOff')
+        const snareOffs = offs.filter((event) => event.note === GM_DRUM_PITCHES.sn)
+        expect(snareOffs.map((event) => event.tick).sort((a, b) => a - b)).toEqual([
+          2 * QUARTER,
+          11 * QUARTER,
+        ])
+      })
+    })
+  }
+})
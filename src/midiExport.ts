@@ -0,0 +1,162 @@
+import { PERCUSSION_CHANNEL, encodeMidiFile } from './midiFile'
+import type { MidiEvent, MidiFile, MidiTrack } from './midiFile'
+import type { DrumPitchMap } from './midiDrumMap'
+import { NOTE_ROWS, STEPS_PER_QUARTER, beatLengths, sameTimeSignature } from './sheet'
+import type { Articulation, DrumSheet, Measure, NoteRowId, TimeSignature } from './sheet'
+import { performanceOrder } from './songForm'
+import { measureTempos, secondsBetween } from './timing'
+import type { MeasureTempo } from './timing'
+
+export const MIDI_TICKS_PER_QUARTER = 480
+const TICKS_PER_STEP = MIDI_TICKS_PER_QUARTER / STEPS_PER_QUARTER
+const DEFAULT_VELOCITY = 100
+const GRACE_VELOCITY = 45
+const GRACE_TICKS = 30
+
+const ARTICULATION_VELOCITY: Record<Articulation, number> = {
+  accent: 127,
+  ghost: 40,
+  flam: DEFAULT_VELOCITY,
+  drag: DEFAULT_VELOCITY,
+  rimshot: 120,
+}
+
+export type MidiExportOptions = {
+  format: 0 | 1
+  pitchMap: DrumPitchMap
+}
+
+// MIDI clocks run at 24 per quarter note; the click falls on each counted beat.
+const clocksPerClick = (timeSignature: TimeSignature) =>
+  Math.round((beatLengths(timeSignature)[0] / STEPS_PER_QUARTER) * 24)
+
+// MIDI tempos hold until the next change, so a ramp is written as a change
+// on every beat, each set to make the beat last as long as it plays.
+const tempoEvents = (measures: Measure[], tempos: MeasureTempo[]) => {
+  const events: MidiEvent[] = []
+  let previous: number | null = null
+  let tick = 0
+  measures.forEach((measure, index) => {
+    const tempo = tempos[index]
+    const lengths = tempo.start === tempo.end ? [measure.subdivisions] : beatLengths(measure.timeSignature)
+    let column = 0
+    for (let beat = 0; column < measure.subdivisions; beat += 1) {
+      const to = Math.min(column + lengths[beat % lengths.length], measure.subdivisions)
+      const seconds = secondsBetween(tempo, measure.subdivisions, column, to)
+      const microsecondsPerQuarter = Math.round(
+        (seconds * 1_000_000 * STEPS_PER_QUARTER) / (to - column),
+      )
+      if (microsecondsPerQuarter !== previous) {
+        events.push({ tick: tick + column * TICKS_PER_STEP, type: 'tempo', microsecondsPerQuarter })
+        previous = microsecondsPerQuarter
+      }
+      column = to
+    }
+    tick += measure.subdivisions * TICKS_PER_STEP
+  })
+  return events
+}
+
+const conductorEvents = (sheet: DrumSheet, tempos: MeasureTempo[]): MidiEvent[] => {
+  const events: MidiEvent[] = [
+    { tick: 0, type: 'trackName', text: sheet.title },
+    ...tempoEvents(sheet.measures, tempos),
+  ]
+  let tick = 0
+  sheet.measures.forEach((measure, index) => {
+    const previous = sheet.measures[index - 1]
+    if (!previous || !sameTimeSignature(previous.timeSignature, measure.timeSignature)) {
+      events.push({
+        tick,
+        type: 'timeSignature',
+        numerator: measure.timeSignature.beats,
+        denominator: measure.timeSignature.beatUnit,
+        clocksPerClick: clocksPerClick(measure.timeSignature),
+        thirtySecondsPerQuarter: 8,
+      })
+    }
+    tick += measure.subdivisions * TICKS_PER_STEP
+  })
+  return events
+}
+
+const noteEvents = (sheet: DrumSheet, pitchMap: DrumPitchMap) => {
+  const byVoice = new Map<NoteRowId, MidiEvent[]>()
+  let measureTick = 0
+  sheet.measures.forEach((measure) => {
+    measure.notes.forEach((note) => {
+      const start = measureTick + note.column * TICKS_PER_STEP
+      const end = start + note.duration * TICKS_PER_STEP
+      const pitch = pitchMap[note.rowId]
+      const events = byVoice.get(note.rowId) ?? []
+      // Flams and drags lead in with short grace strokes, never before the start.
+      const graceCount = note.articulation === 'flam' ? 1 : note.articulation === 'drag' ? 2 : 0
+      for (let grace = graceCount; grace > 0; grace -= 1) {
+        const graceStart = start - grace * GRACE_TICKS
+        if (graceStart >= 0) {
+          events.push(
+            {
+              tick: graceStart,
+              type: 'noteOn',
+              channel: PERCUSSION_CHANNEL,
+              note: pitch,
+              velocity: GRACE_VELOCITY,
+            },
+            {
+              tick: graceStart + GRACE_TICKS,
+              type: 'noteOff',
+              channel: PERCUSSION_CHANNEL,
+              note: pitch,
+              velocity: 0,
+            },
+          )
+        }
+      }
+      events.push(
+        {
+          tick: start,
+          type: 'noteOn',
+          channel: PERCUSSION_CHANNEL,
+          note: pitch,
+          velocity: note.articulation ? ARTICULATION_VELOCITY[note.articulation] : DEFAULT_VELOCITY,
+        },
+        { tick: end, type: 'noteOff', channel: PERCUSSION_CHANNEL, note: pitch, velocity: 0 },
+      )
+      byVoice.set(note.rowId, events)
+    })
+    measureTick += measure.subdivisions * TICKS_PER_STEP
+  })
+  return byVoice
+}
+
+/**
+ * Builds a Standard MIDI File of the sheet on the GM percussion channel.
+ * Type 0 puts everything in one track; type 1 writes a conductor track with
+ * tempo and meters followed by one track per voice. MIDI has no repeat
+ * signs, so the song form is written out in the order it plays, each
+ * measure keeping the tempo it has on the written sheet.
+ */
+export const sheetToMidi = (sheet: DrumSheet, { format, pitchMap }: MidiExportOptions): MidiFile => {
+  const order = performanceOrder(sheet.measures)
+  const tempos = measureTempos(sheet.measures, sheet.tempo)
+  const performed = { ...sheet, measures: order.map((index) => sheet.measures[index]) }
+  const conductor = conductorEvents(performed, order.map((index) => tempos[index]))
+  const byVoice = noteEvents(performed, pitchMap)
+
+  if (format === 0) {
+    const events = [...conductor, ...[...byVoice.values()].flat()]
+    return { format, ticksPerQuarter: MIDI_TICKS_PER_QUARTER, tracks: [{ events }] }
+  }
+
+  const voiceTracks: MidiTrack[] = NOTE_ROWS.filter((row) => byVoice.has(row.id)).map((row) => ({
+    events: [{ tick: 0, type: 'trackName', text: row.name }, ...(byVoice.get(row.id) ?? [])],
+  }))
+  return {
+    format,
+    ticksPerQuarter: MIDI_TICKS_PER_QUARTER,
+    tracks: [{ events: conductor }, ...voiceTracks],
+  }
+}
+
+export const exportSheetToMidi = (sheet: DrumSheet, options: MidiExportOptions) =>
+  encodeMidiFile(sheetToMidi(sheet, options))
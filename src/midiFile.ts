@@ -0,0 +1,350 @@
+// Reading and writing Standard MIDI Files. Events carry absolute ticks; delta
+// times only exist in the encoded bytes.
+
+export type MidiEvent =
+  | { tick: number; type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { tick: number; type: 'noteOff'; channel: number; note: number; velocity: number }
+  | { tick: number; type: 'tempo'; microsecondsPerQuarter: number }
+  | {
+      tick: number
+      type: 'timeSignature'
+      numerator: number
+      denominator: number
+      clocksPerClick: number
+      thirtySecondsPerQuarter: number
+    }
+  | { tick: number; type: 'trackName'; text: string }
+
+export type MidiTrack = {
+  events: MidiEvent[]
+}
+
+export type MidiFile = {
+  format: 0 | 1
+  ticksPerQuarter: number
+  tracks: MidiTrack[]
+}
+
+export class MidiFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MidiFormatError'
+  }
+}
+
+export const PERCUSSION_CHANNEL = 9
+
+const META = {
+  trackName: 0x03,
+  endOfTrack: 0x2f,
+  tempo: 0x51,
+  timeSignature: 0x58,
+} as const
+
+const writeUint32 = (bytes: number[], value: number) => {
+  bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff)
+}
+
+const writeUint16 = (bytes: number[], value: number) => {
+  bytes.push((value >>> 8) & 0xff, value & 0xff)
+}
+
+const writeVariableLength = (bytes: number[], value: number) => {
+  let buffer = value & 0x7f
+  let remaining = value >>> 7
+  while (remaining > 0) {
+    buffer = (buffer << 8) | 0x80 | (remaining & 0x7f)
+    remaining >>>= 7
+  }
+  for (;;) {
+    bytes.push(buffer & 0xff)
+    if (buffer & 0x80) {
+      buffer >>>= 8
+    } else {
+      break
+    }
+  }
+}
+
+// Note-offs sort ahead of note-ons on the same tick so a re-struck note is
+// released before it sounds again; meta events come first of all.
+const eventPriority = (event: MidiEvent) => {
+  switch (event.type) {
+    case 'trackName':
+    case 'tempo':
+    case 'timeSignature':
+      return 0
+    case 'noteOff':
+      return 1
+    case 'noteOn':
+      return 2
+  }
+}
+
+const encodeEvent = (bytes: number[], event: MidiEvent) => {
+  switch (event.type) {
+    case 'noteOn':
+      bytes.push(0x90 | event.channel, event.note & 0x7f, event.velocity & 0x7f)
+      return
+    case 'noteOff':
+      bytes.push(0x80 | event.channel, event.note & 0x7f, event.velocity & 0x7f)
+      return
+    case 'tempo': {
+      const value = Math.round(event.microsecondsPerQuarter)
+      bytes.push(0xff, META.tempo, 3, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff)
+      return
+    }
+    case 'timeSignature':
+      bytes.push(
+        0xff,
+        META.timeSignature,
+        4,
+        event.numerator,
+        Math.round(Math.log2(event.denominator)),
+        event.clocksPerClick,
+        event.thirtySecondsPerQuarter,
+      )
+      return
+    case 'trackName': {
+      const text = Array.from(new TextEncoder().encode(event.text))
+      bytes.push(0xff, META.trackName)
+      writeVariableLength(bytes, text.length)
+      bytes.push(...text)
+      return
+    }
+  }
+}
+
+const encodeTrack = (track: MidiTrack) => {
+  const events = [...track.events].sort(
+    (a, b) => a.tick - b.tick || eventPriority(a) - eventPriority(b),
+  )
+  const body: number[] = []
+  let lastTick = 0
+  events.forEach((event) => {
+    writeVariableLength(body, Math.max(0, Math.round(event.tick - lastTick)))
+    lastTick = Math.max(lastTick, Math.round(event.tick))
+    encodeEvent(body, event)
+  })
+  body.push(0x00, 0xff, META.endOfTrack, 0x00)
+
+  const bytes: number[] = [0x4d, 0x54, 0x72, 0x6b] // "MTrk"
+  writeUint32(bytes, body.length)
+  return bytes.concat(body)
+}
+
+export const encodeMidiFile = (file: MidiFile) => {
+  if (file.format === 0 && file.tracks.length !== 1) {
+    throw new MidiFormatError('A type 0 MIDI file must contain exactly one track.')
+  }
+  const bytes: number[] = [0x4d, 0x54, 0x68, 0x64] // "MThd"
+  writeUint32(bytes, 6)
+  writeUint16(bytes, file.format)
+  writeUint16(bytes, file.tracks.length)
+  writeUint16(bytes, file.ticksPerQuarter)
+  file.tracks.forEach((track) => {
+    bytes.push(...encodeTrack(track))
+  })
+  return Uint8Array.from(bytes)
+}
+
+class ByteReader {
+  private readonly view: DataView
+  position = 0
+
+  constructor(bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get length() {
+    return this.view.byteLength
+  }
+
+  private ensure(count: number) {
+    if (this.position + count > this.view.byteLength) {
+      throw new MidiFormatError('The MIDI file ends unexpectedly.')
+    }
+  }
+
+  uint8() {
+    this.ensure(1)
+    const value = this.view.getUint8(this.position)
+    this.position += 1
+    return value
+  }
+
+  uint16() {
+    this.ensure(2)
+    const value = this.view.getUint16(this.position)
+    this.position += 2
+    return value
+  }
+
+  uint32() {
+    this.ensure(4)
+    const value = this.view.getUint32(this.position)
+    this.position += 4
+    return value
+  }
+
+  ascii(count: number) {
+    this.ensure(count)
+    let text = ''
+    for (let index = 0; index < count; index += 1) {
+      text += String.fromCharCode(this.view.getUint8(this.position + index))
+    }
+    this.position += count
+    return text
+  }
+
+  bytes(count: number) {
+    this.ensure(count)
+    const start = this.view.byteOffset + this.position
+    this.position += count
+    return new Uint8Array(this.view.buffer, start, count)
+  }
+
+  variableLength() {
+    let value = 0
+    for (let index = 0; index < 4; index += 1) {
+      const byte = this.uint8()
+      value = (value << 7) | (byte & 0x7f)
+      if ((byte & 0x80) === 0) {
+        return value
+      }
+    }
+    throw new MidiFormatError('The MIDI file has a malformed length value.')
+  }
+}
+
+// Data bytes that follow each channel message status (high nibble).
+const CHANNEL_DATA_LENGTH: Record<number, number> = {
+  0x80: 2,
+  0x90: 2,
+  0xa0: 2,
+  0xb0: 2,
+  0xc0: 1,
+  0xd0: 1,
+  0xe0: 2,
+}
+
+const parseTrack = (reader: ByteReader, end: number): MidiTrack => {
+  const events: MidiEvent[] = []
+  let tick = 0
+  let runningStatus: number | null = null
+
+  while (reader.position < end) {
+    tick += reader.variableLength()
+    let status = reader.uint8()
+
+    if (status === 0xff) {
+      const type = reader.uint8()
+      const length = reader.variableLength()
+      const data = reader.bytes(length)
+      if (type === META.endOfTrack) {
+        break
+      }
+      if (type === META.tempo && length === 3) {
+        const microsecondsPerQuarter = (data[0] << 16) | (data[1] << 8) | data[2]
+        if (microsecondsPerQuarter === 0) {
+          throw new MidiFormatError('The MIDI file has a tempo of zero microseconds per quarter note.')
+        }
+        events.push({ tick, type: 'tempo', microsecondsPerQuarter })
+      } else if (type === META.timeSignature && length >= 4) {
+        events.push({
+          tick,
+          type: 'timeSignature',
+          numerator: data[0],
+          denominator: 2 ** data[1],
+          clocksPerClick: data[2],
+          thirtySecondsPerQuarter: data[3],
+        })
+      } else if (type === META.trackName) {
+        events.push({ tick, type: 'trackName', text: new TextDecoder().decode(data) })
+      }
+      continue
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      reader.bytes(reader.variableLength())
+      runningStatus = null
+      continue
+    }
+
+    let firstData: number | null = null
+    if (status < 0x80) {
+      if (runningStatus === null) {
+        throw new MidiFormatError('The MIDI file uses running status without a prior message.')
+      }
+      firstData = status
+      status = runningStatus
+    } else {
+      runningStatus = status
+    }
+
+    const kind = status & 0xf0
+    const dataLength = CHANNEL_DATA_LENGTH[kind]
+    if (dataLength === undefined) {
+      throw new MidiFormatError(`The MIDI file has an unsupported status byte 0x${status.toString(16)}.`)
+    }
+    const data1 = firstData ?? reader.uint8()
+    const data2 = dataLength === 2 ? reader.uint8() : 0
+    const channel = status & 0x0f
+
+    if (kind === 0x90 && data2 > 0) {
+      events.push({ tick, type: 'noteOn', channel, note: data1, velocity: data2 })
+    } else if (kind === 0x80 || kind === 0x90) {
+      events.push({ tick, type: 'noteOff', channel, note: data1, velocity: data2 })
+    }
+  }
+
+  reader.position = end
+  return { events }
+}
+
+export const parseMidiFile = (input: ArrayBuffer | Uint8Array): MidiFile => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input)
+  const reader = new ByteReader(bytes)
+  if (reader.length < 14 || reader.ascii(4) !== 'MThd') {
+    throw new MidiFormatError('This is not a Standard MIDI File.')
+  }
+  const headerLength = reader.uint32()
+  const format = reader.uint16()
+  const trackCount = reader.uint16()
+  const division = reader.uint16()
+  reader.position = 8 + headerLength
+
+  if (format > 2) {
+    throw new MidiFormatError(`MIDI format ${format} is not supported.`)
+  }
+  if (format === 2) {
+    throw new MidiFormatError('Type 2 MIDI files (independent sequences) are not supported.')
+  }
+  if (division & 0x8000) {
+    throw new MidiFormatError('MIDI files timed in SMPTE frames are not supported.')
+  }
+  if (division === 0) {
+    throw new MidiFormatError('The MIDI file header sets zero ticks per quarter note.')
+  }
+
+  const tracks: MidiTrack[] = []
+  while (tracks.length < trackCount && reader.position + 8 <= reader.length) {
+    const chunkType = reader.ascii(4)
+    const chunkLength = reader.uint32()
+    const end = reader.position + chunkLength
+    if (end > reader.length) {
+      throw new MidiFormatError('The MIDI file ends in the middle of a track.')
+    }
+    if (chunkType === 'MTrk') {
+      tracks.push(parseTrack(reader, end))
+    } else {
+      reader.position = end
+    }
+  }
+
+  if (tracks.length === 0) {
+    throw new MidiFormatError('The MIDI file has no tracks.')
+  }
+
+  return { format: format as 0 | 1, ticksPerQuarter: division, tracks }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { sheetToMidi } from './midiExport'
+import { GM_DRUM_PITCHES } from './midiDrumMap'
+import { MidiFormatError, PERCUSSION_CHANNEL, encodeMidiFile } from './midiFile'
+import type { MidiFile } from './midiFile'
+import { MAX_IMPORTED_MEASURES, importMidi, midiToSheet } from './midiImport'
+import { createEmptyMeasure, createEmptySheet } from './sheet'
+import type { DrumSheet } from './sheet'
+
+const OPTIONS = { pitchMap: GM_DRUM_PITCHES, resolution: 3 } as const
+
+// A 4/4 groove with an accent, then a bar of 3/4, at 96 bpm.
+const testSheet = (): DrumSheet => ({
+  ...createEmptySheet(),
+  title: 'Import me',
+  tempo: 96,
+  measures: [
+    {
+      ...createEmptyMeasure(),
+      notes: [
+        { column: 0, rowId: 'hh', duration: 3 },
+        { column: 0, rowId: 'bd', duration: 3 },
+        { column: 12, rowId: 'sn', duration: 3, articulation: 'accent' },
+        { column: 27, rowId: 'bd', duration: 3 },
+      ],
+    },
+    {
+      ...createEmptyMeasure({ beats: 3, beatUnit: 4 }),
+      notes: [{ column: 24, rowId: 'ft', duration: 3 }],
+    },
+  ],
+})
+
+const exported = (sheet: DrumSheet, format: 0 | 1 = 1) =>
+  encodeMidiFile(sheetToMidi(sheet, { format, pitchMap: GM_DRUM_PITCHES }))
+
+const bufferOf = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+
+// The header's division field sits in bytes 12 and 13.
+const withDivision = (bytes: Uint8Array, high: number, low: number) => {
+  const patched = bytes.slice()
+  patched[12] = high
+  patched[13] = low
+  return bufferOf(patched)
+}
+
+const importError = (buffer: ArrayBuffer) => {
+  try {
+    importMidi(buffer, OPTIONS)
+  } catch (error) {
+    expect(error).toBeInstanceOf(MidiFormatError)
+    return (error as Error).message
+  }
+  throw new Error('The file was imported.')
+}
+
+describe('importMidi', () => {
+  for (const format of [0, 1] as const) {
+    it(`reads back the notes, meters and tempo of a type ${format} export`, () => {
+      const sheet = testSheet()
+      const { sheet: imported, report } = importMidi(bufferOf(exported(sheet, format)), OPTIONS)
+      expect(imported.title).toBe('Import me')
+      expect(imported.tempo).toBe(96)
+      expect(report.tempo).toEqual({ found: true, bpm: 96, clamped: false })
+      expect(imported.measures.map((measure) => measure.timeSignature)).toEqual(
+        sheet.measures.map((measure) => measure.timeSignature),
+      )
+      expect(imported.measures.map((measure) => measure.notes)).toEqual(
+        sheet.measures.map((measure) => measure.notes),
+      )
+      expect(report.importedNotes).toBe(5)
+      expect(report.unmappedPitches).toEqual([])
+    })
+  }
+
+  it('rejects a header with zero ticks per quarter note', () => {
+    expect(importError(withDivision(exported(testSheet()), 0, 0))).toBe(
+      'The MIDI file header sets zero ticks per quarter note.',
+    )
+  })
+
+  it('rejects SMPTE timing', () => {
+    expect(importError(withDivision(exported(testSheet()), 0xe7, 40))).toBe(
+      'MIDI files timed in SMPTE frames are not supported.',
+    )
+  })
+
+  it('rejects a zero tempo', () => {
+    const file: MidiFile = {
+      format: 0,
+      ticksPerQuarter: 480,
+      tracks: [{ events: [{ tick: 0, type: 'tempo', microsecondsPerQuarter: 0 }] }],
+    }
+    expect(importError(bufferOf(encodeMidiFile(file)))).toBe(
+      'The MIDI file has a tempo of zero microseconds per quarter note.',
+    )
+  })
+
+  it('stops at the measure cap instead of building measures without end', () => {
+    const file: MidiFile = {
+      format: 0,
+      ticksPerQuarter: 480,
+      tracks: [
+        {
+          events: [
+            {
+              tick: 480 * 4 * MAX_IMPORTED_MEASURES,
+              type: 'noteOn',
+              channel: PERCUSSION_CHANNEL,
+              note: GM_DRUM_PITCHES.sn,
+              velocity: 100,
+            },
+          ],
+        },
+      ],
+    }
+    expect(() => midiToSheet(file, OPTIONS)).toThrow(MidiFormatError)
+  })
+})
@@ -0,0 +1,274 @@
+import { MidiFormatError, PERCUSSION_CHANNEL, parseMidiFile } from './midiFile'
+import type { MidiFile } from './midiFile'
+import { GM_DRUM_NAMES } from './midiDrumMap'
+import type { DrumPitchMap } from './midiDrumMap'
+import {
+  COMMON_TIME,
+  DEFAULT_TITLE,
+  DEFAULT_VOICES,
+  DURATION_OPTIONS,
+  NOTE_ROWS,
+  STEPS_PER_QUARTER,
+  TEMPO,
+  clampTempo,
+  compareNotes,
+  createDefaultFeel,
+  isValidTimeSignature,
+  sharesStaffPosition,
+  sortVoices,
+  stepsForTimeSignature,
+  voicesInUse,
+} from './sheet'
+import type { Articulation, DrumSheet, Measure, NoteRowId, TimeSignature } from './sheet'
+
+export const QUANTIZE_OPTIONS = [
+  { steps: 3, label: 'Sixteenth' },
+  { steps: 6, label: 'Eighth' },
+  { steps: 12, label: 'Quarter' },
+  { steps: 2, label: 'Sixteenth triplet' },
+  { steps: 4, label: 'Eighth triplet' },
+] as const
+
+export type QuantizeSteps = (typeof QUANTIZE_OPTIONS)[number]['steps']
+
+export type MidiImportReport = {
+  importedNotes: number
+  unmappedPitches: Array<{ pitch: number; count: number }>
+  mergedNotes: number
+  ignoredNotes: number
+  tempo: { found: boolean; bpm: number; clamped: boolean }
+}
+
+// Percussion keys outside the main map that still belong to one of our voices.
+const PITCH_ALIASES: Record<number, NoteRowId> = {
+  35: 'bd',
+  37: 'sn',
+  40: 'sn',
+  41: 'ft',
+  45: 'mt',
+  48: 'ht',
+  52: 'cr',
+  55: 'cr',
+  57: 'cr',
+  59: 'rd',
+}
+
+const buildPitchLookup = (pitchMap: DrumPitchMap) => {
+  const lookup = new Map<number, NoteRowId>()
+  NOTE_ROWS.forEach((row) => {
+    if (!lookup.has(pitchMap[row.id])) {
+      lookup.set(pitchMap[row.id], row.id)
+    }
+  })
+  Object.entries(PITCH_ALIASES).forEach(([pitch, rowId]) => {
+    if (!lookup.has(Number(pitch))) {
+      lookup.set(Number(pitch), rowId)
+    }
+  })
+  return lookup
+}
+
+// Far more than any song needs; a file past it most likely has a broken
+// delta time that would otherwise build measures without end.
+export const MAX_IMPORTED_MEASURES = 2000
+
+// Velocities at the extremes come back as accents and ghost notes.
+const ACCENT_VELOCITY = 112
+const GHOST_VELOCITY = 50
+
+const articulationFor = (velocity: number): Articulation | undefined => {
+  if (velocity >= ACCENT_VELOCITY) {
+    return 'accent'
+  }
+  return velocity <= GHOST_VELOCITY ? 'ghost' : undefined
+}
+
+// The longest note value that fits the grid, so hits never overlap.
+const noteDurationFor = (resolution: number) =>
+  Math.max(
+    ...DURATION_OPTIONS.map((option) => option.value).filter((value) => value <= resolution),
+  )
+
+type TimedSignature = { tick: number; timeSignature: TimeSignature }
+
+const collectTimeSignatures = (file: MidiFile) => {
+  const signatures: TimedSignature[] = []
+  file.tracks.forEach((track) =>
+    track.events.forEach((event) => {
+      if (event.type !== 'timeSignature') {
+        return
+      }
+      const timeSignature = { beats: event.numerator, beatUnit: event.denominator }
+      if (isValidTimeSignature(timeSignature)) {
+        signatures.push({ tick: event.tick, timeSignature })
+      }
+    }),
+  )
+  return signatures.sort((a, b) => a.tick - b.tick)
+}
+
+const findTitle = (file: MidiFile) => {
+  for (const event of file.tracks[0]?.events ?? []) {
+    if (event.type === 'trackName' && event.text.trim()) {
+      return event.text.trim()
+    }
+  }
+  return null
+}
+
+/**
+ * Converts the channel-10 notes of a MIDI file into a sheet. Hits are snapped
+ * to `resolution` steps, mapped to voices through `pitchMap` plus common GM
+ * aliases, and laid into measures following the file's time signatures.
+ */
+export const midiToSheet = (
+  file: MidiFile,
+  { pitchMap, resolution, fallbackTitle }: {
+    pitchMap: DrumPitchMap
+    resolution: QuantizeSteps
+    fallbackTitle?: string
+  },
+) => {
+  const ticksPerStep = file.ticksPerQuarter / STEPS_PER_QUARTER
+  const lookup = buildPitchLookup(pitchMap)
+  const unmapped = new Map<number, number>()
+  let ignoredNotes = 0
+
+  const hits: Array<{ step: number; rowId: NoteRowId; velocity: number }> = []
+  file.tracks.forEach((track) =>
+    track.events.forEach((event) => {
+      if (event.type !== 'noteOn') {
+        return
+      }
+      if (event.channel !== PERCUSSION_CHANNEL) {
+        ignoredNotes += 1
+        return
+      }
+      const rowId = lookup.get(event.note)
+      if (!rowId) {
+        unmapped.set(event.note, (unmapped.get(event.note) ?? 0) + 1)
+        return
+      }
+      const step = Math.round(event.tick / ticksPerStep / resolution) * resolution
+      hits.push({ step, rowId, velocity: event.velocity })
+    }),
+  )
+
+  const tempoEvent = file.tracks
+    .flatMap((track) => track.events)
+    .filter((event) => event.type === 'tempo')
+    .sort((a, b) => a.tick - b.tick)[0]
+  const rawTempo = tempoEvent ? 60_000_000 / tempoEvent.microsecondsPerQuarter : TEMPO.default
+  const tempo = clampTempo(rawTempo)
+
+  // Lay measures end to end until every hit has a home, switching meter at
+  // the first barline on or after each time signature event.
+  const signatures = collectTimeSignatures(file)
+  const lastStep = hits.reduce((max, hit) => Math.max(max, hit.step), 0)
+  const measures: Measure[] = []
+  const measureStarts: number[] = []
+  let timeSignature = COMMON_TIME
+  let signatureIndex = 0
+  let step = 0
+  do {
+    while (
+      signatureIndex < signatures.length &&
+      signatures[signatureIndex].tick / ticksPerStep <= step
+    ) {
+      timeSignature = signatures[signatureIndex].timeSignature
+      signatureIndex += 1
+    }
+    if (measures.length === MAX_IMPORTED_MEASURES) {
+      throw new MidiFormatError(
+        `The MIDI file runs past ${MAX_IMPORTED_MEASURES} measures, more than a drum sheet can hold.`,
+      )
+    }
+    const subdivisions = stepsForTimeSignature(timeSignature)
+    measures.push({ timeSignature: { ...timeSignature }, subdivisions, notes: [], rests: [] })
+    measureStarts.push(step)
+    step += subdivisions
+  } while (step <= lastStep)
+
+  const duration = noteDurationFor(resolution)
+  let mergedNotes = 0
+  let measureIndex = 0
+  // The loudest hit on a step wins, so grace strokes merge into their main note.
+  hits
+    .sort((a, b) => a.step - b.step || b.velocity - a.velocity)
+    .forEach((hit) => {
+      while (
+        measureIndex < measures.length - 1 &&
+        hit.step >= measureStarts[measureIndex] + measures[measureIndex].subdivisions
+      ) {
+        measureIndex += 1
+      }
+      const measure = measures[measureIndex]
+      const column = hit.step - measureStarts[measureIndex]
+      // Same voice, or a voice drawn on the same staff position, on one step.
+      const clash = measure.notes.some(
+        (note) => note.column === column && sharesStaffPosition(note.rowId, hit.rowId),
+      )
+      if (clash) {
+        mergedNotes += 1
+        return
+      }
+      const articulation = articulationFor(hit.velocity)
+      measure.notes.push(
+        articulation
+          ? { column, rowId: hit.rowId, duration, articulation }
+          : { column, rowId: hit.rowId, duration },
+      )
+    })
+  measures.forEach((measure) => measure.notes.sort(compareNotes))
+
+  const sheet: DrumSheet = {
+    title: findTitle(file) ?? fallbackTitle ?? DEFAULT_TITLE,
+    tempo,
+    voices: sortVoices([...DEFAULT_VOICES, ...voicesInUse(measures)]),
+    measures,
+    feel: createDefaultFeel(),
+  }
+
+  const report: MidiImportReport = {
+    importedNotes: hits.length - mergedNotes,
+    unmappedPitches: [...unmapped.entries()]
+      .map(([pitch, count]) => ({ pitch, count }))
+      .sort((a, b) => a.pitch - b.pitch),
+    mergedNotes,
+    ignoredNotes,
+    tempo: { found: tempoEvent !== undefined, bpm: Math.round(rawTempo), clamped: tempo !== Math.round(rawTempo) },
+  }
+
+  return { sheet, report }
+}
+
+export const importMidi = (
+  bytes: ArrayBuffer,
+  options: { pitchMap: DrumPitchMap; resolution: QuantizeSteps; fallbackTitle?: string },
+) => midiToSheet(parseMidiFile(bytes), options)
+
+export const describeImportReport = (report: MidiImportReport) => {
+  const lines = [`Imported ${report.importedNotes} drum hits.`]
+  if (report.tempo.found) {
+    lines.push(
+      report.tempo.clamped
+        ? `The file's tempo of ${report.tempo.bpm} BPM was limited to ${TEMPO.min}–${TEMPO.max} BPM.`
+        : `Tempo set to ${report.tempo.bpm} BPM from the file.`,
+    )
+  } else {
+    lines.push(`The file has no tempo, so ${TEMPO.default} BPM is used.`)
+  }
+  if (report.mergedNotes > 0) {
+    lines.push(`${report.mergedNotes} hits landed on an occupied step after quantizing and were merged.`)
+  }
+  if (report.unmappedPitches.length > 0) {
+    const pitches = report.unmappedPitches
+      .map(({ pitch, count }) => `${GM_DRUM_NAMES[pitch] ?? `note ${pitch}`} ×${count}`)
+      .join(', ')
+    lines.push(`Dropped hits on unmapped drum notes: ${pitches}.`)
+  }
+  if (report.ignoredNotes > 0) {
+    lines.push(`Ignored ${report.ignoredNotes} notes outside the percussion channel.`)
+  }
+  return lines
+}
@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { GM_DRUM_PITCHES } from './midiDrumMap'
+import { sheetToMusicXml } from './musicXml'
+import { NOTE_ROWS, STEPS_PER_QUARTER, createEmptyMeasure, createEmptySheet } from './sheet'
+import type { DrumSheet, NoteRowId } from './sheet'
+
+// Standard drum-set positions on the percussion staff.
+const DISPLAY_PITCHES: Record<NoteRowId, string> = {
+  cb: 'B5',
+  cr: 'A5',
+  hh: 'G5',
+  oh: 'G5',
+  rd: 'F5',
+  rb: 'F5',
+  ht: 'E5',
+  mt: 'D5',
+  sn: 'C5',
+  ft: 'A4',
+  bd: 'F4',
+  hf: 'D4',
+}
+
+const CYMBALS: NoteRowId[] = ['cr', 'hh', 'rd']
+
+// Every voice once, hands and feet with gaps, a rest, triplets, a flam and
+// a change to 3/4, so both voices need backups and forwards.
+const testSheet = (): DrumSheet => ({
+  ...createEmptySheet(),
+  voices: NOTE_ROWS.map((row) => row.id),
+  measures: [
+    {
+      ...createEmptyMeasure(),
+      notes: NOTE_ROWS.map((row, index) => ({ column: index * 3, rowId: row.id, duration: 3 })),
+    },
+    {
+      ...createEmptyMeasure(),
+      notes: [
+        { column: 0, rowId: 'sn', duration: 4 },
+        { column: 4, rowId: 'sn', duration: 4 },
+        { column: 8, rowId: 'sn', duration: 4 },
+        { column: 24, rowId: 'sn', duration: 12, articulation: 'flam' },
+        { column: 12, rowId: 'bd', duration: 6 },
+      ],
+      rests: [{ column: 36, duration: 12, stem: 'up' }],
+    },
+    { ...createEmptyMeasure({ beats: 3, beatUnit: 4 }), notes: [{ column: 0, rowId: 'hh', duration: 6 }] },
+    createEmptyMeasure({ beats: 3, beatUnit: 4 }),
+  ],
+})
+
+const parse = (sheet: DrumSheet) =>
+  new DOMParser().parseFromString(sheetToMusicXml(sheet, GM_DRUM_PITCHES), 'application/xml')
+
+const childText = (parent: Element, name: string) => parent.querySelector(`:scope > ${name}`)?.textContent
+
+const numberIn = (parent: Element, name: string) => Number(childText(parent, name))
+
+describe('sheetToMusicXml', () => {
+  const doc = parse(testSheet())
+  const measures = [...doc.querySelectorAll('part > measure')]
+
+  it('writes a well-formed partwise score with one measure per sheet measure', () => {
+    expect(doc.querySelector('parsererror')).toBeNull()
+    expect(doc.documentElement.nodeName).toBe('score-partwise')
+    expect(measures).toHaveLength(4)
+  })
+
+  it('counts durations in grid steps', () => {
+    const divisions = doc.querySelectorAll('divisions')
+    expect(divisions).toHaveLength(1)
+    expect(Number(divisions[0].textContent)).toBe(STEPS_PER_QUARTER)
+  })
+
+  it('sets a percussion clef on a five-line staff', () => {
+    const attributes = measures[0].querySelector(':scope > attributes')
+    expect(attributes?.querySelector('clef > sign')?.textContent).toBe('percussion')
+    expect(attributes?.querySelector('staff-details > staff-lines')?.textContent).toBe('5')
+  })
+
+  it('places every voice at its display step and octave', () => {
+    const notes = [...measures[0].querySelectorAll(':scope > note')]
+    const positions = Object.fromEntries(
+      notes.map((note) => {
+        const id = note.querySelector('instrument')?.getAttribute('id')?.replace(/^P1-/, '')
+        const unpitched = note.querySelector('unpitched')
+        const step = unpitched?.querySelector('display-step')?.textContent
+        const octave = unpitched?.querySelector('display-octave')?.textContent
+        return [id, `${step}${octave}`]
+      }),
+    )
+    expect(positions).toEqual(DISPLAY_PITCHES)
+  })
+
+  it('draws cymbals with x note heads', () => {
+    const notes = [...doc.querySelectorAll('note')].filter((note) => note.querySelector('notehead'))
+    for (const rowId of CYMBALS) {
+      const heads = notes
+        .filter((note) => note.querySelector('instrument')?.getAttribute('id') === `P1-${rowId}`)
+        .map((note) => childText(note, 'notehead'))
+      expect(heads.length).toBeGreaterThan(0)
+      expect(new Set(heads)).toEqual(new Set(['x']))
+    }
+    const snare = notes.find((note) => note.querySelector('instrument')?.getAttribute('id') === 'P1-sn')
+    expect(snare && childText(snare, 'notehead')).toBe('normal')
+  })
+
+  it('fills each measure exactly with notes, backups and forwards', () => {
+    const sheet = testSheet()
+    measures.forEach((measure, index) => {
+      const length = sheet.measures[index].subdivisions
+      let position = 0
+      let furthest = 0
+      const voiceEnds: number[] = []
+      for (const child of measure.children) {
+        if (child.nodeName === 'backup') {
+          voiceEnds.push(position)
+          position -= numberIn(child, 'duration')
+          expect(position).toBe(0)
+        } else if (child.nodeName === 'forward') {
+          position += numberIn(child, 'duration')
+        } else if (
+          child.nodeName === 'note' &&
+          !child.querySelector(':scope > chord') &&
+          !child.querySelector(':scope > grace')
+        ) {
+          position += numberIn(child, 'duration')
+        }
+        furthest = Math.max(furthest, position)
+      }
+      voiceEnds.push(position)
+      expect(furthest).toBe(length)
+      expect(voiceEnds.every((end) => end === length)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,508 @@
+import { engraveMeasure } from './engraving'
+import type { EngravedBeam, EngravedChord } from './engraving'
+import type { DrumPitchMap } from './midiDrumMap'
+import {
+  DURATION_OPTIONS,
+  STEPS_PER_QUARTER,
+  describeDuration,
+  rowsById,
+  sameTimeSignature,
+  sortVoices,
+  voicesInUse,
+} from './sheet'
+import type {
+  DrumSheet,
+  Measure,
+  MeasureNote,
+  MeasureRest,
+  NoteRowId,
+  NoteShape,
+  NoteValueId,
+  StemDirection,
+} from './sheet'
+import { continuesEnding, formatEnding, jumpLabel, jumpTarget } from './songForm'
+import { rampLabel } from './timing'
+
+// Durations are written in grid steps, so a quarter note is 12 divisions and
+// triplets come out whole.
+const DIVISIONS = STEPS_PER_QUARTER
+const PART_ID = 'P1'
+
+type XmlElement = {
+  name: string
+  attributes?: Record<string, string | number>
+  // Either nested elements or text, never both.
+  children?: XmlElement[]
+  text?: string | number
+}
+
+const element = (
+  name: string,
+  content?: XmlElement[] | string | number,
+  attributes?: Record<string, string | number>,
+): XmlElement =>
+  Array.isArray(content) ? { name, attributes, children: content } : { name, attributes, text: content }
+
+const escapeXml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const serialize = (node: XmlElement, depth = 0): string => {
+  const indent = '  '.repeat(depth)
+  const attributes = Object.entries(node.attributes ?? {})
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('')
+  if (node.children && node.children.length > 0) {
+    const children = node.children.map((child) => serialize(child, depth + 1)).join('\n')
+    return `${indent}<${node.name}${attributes}>\n${children}\n${indent}</${node.name}>`
+  }
+  if (node.text !== undefined) {
+    return `${indent}<${node.name}${attributes}>${escapeXml(node.text)}</${node.name}>`
+  }
+  return `${indent}<${node.name}${attributes}/>`
+}
+
+const NOTE_TYPES: Record<NoteValueId, string> = {
+  whole: 'whole',
+  half: 'half',
+  quarter: 'quarter',
+  eighth: 'eighth',
+  sixteenth: '16th',
+}
+
+const NOTEHEADS: Record<NoteShape, string> = {
+  circle: 'normal',
+  x: 'x',
+  'circled-x': 'circle-x',
+  diamond: 'diamond',
+  triangle: 'triangle',
+}
+
+const STEP_NAMES = ['C', 'D', 'E', 'F', 'G', 'A', 'B']
+// The percussion clef places notes like a treble clef: the top line is F5.
+const TOP_LINE_DIATONIC = 5 * 7 + STEP_NAMES.indexOf('F')
+
+/** Where a voice sits on the percussion staff, as MusicXML display pitch. */
+const displayPositionFor = (rowId: NoteRowId) => {
+  const row = rowsById.get(rowId)?.row ?? 1
+  const diatonic = TOP_LINE_DIATONIC - (row - 1)
+  return { step: STEP_NAMES[diatonic % 7], octave: Math.floor(diatonic / 7) }
+}
+
+const instrumentId = (rowId: NoteRowId) => `${PART_ID}-${rowId}`
+
+// Lengths cut short by a later event in the same voice have no note value of
+// their own; they are drawn as the longest value that fits.
+const durationDisplay = (steps: number) =>
+  describeDuration(steps) ??
+  [...DURATION_OPTIONS].sort((a, b) => b.value - a.value).find((option) => option.value <= steps) ??
+  DURATION_OPTIONS[DURATION_OPTIONS.length - 1]
+
+const typeElements = (steps: number) => {
+  const option = durationDisplay(steps)
+  const elements = [element('type', NOTE_TYPES[option.noteValue.id])]
+  if (option.modifier === 'dotted') {
+    elements.push(element('dot'))
+  }
+  if (option.modifier === 'triplet') {
+    elements.push(
+      element('time-modification', [element('actual-notes', 3), element('normal-notes', 2)]),
+    )
+  }
+  return elements
+}
+
+const voiceNumber = (stem: StemDirection) => (stem === 'up' ? 1 : 2)
+
+const graceNotes = (note: MeasureNote, voice: number) => {
+  const count = note.articulation === 'flam' ? 1 : note.articulation === 'drag' ? 2 : 0
+  const position = displayPositionFor(note.rowId)
+  return Array.from({ length: count }, (_, index) =>
+    element('note', [
+      element('grace', undefined, count === 1 ? { slash: 'yes' } : {}),
+      element('unpitched', [
+        element('display-step', position.step),
+        element('display-octave', position.octave),
+      ]),
+      element('instrument', undefined, { id: instrumentId(note.rowId) }),
+      element('voice', voice),
+      element('type', count === 1 ? 'eighth' : '16th'),
+      element('stem', 'up'),
+      ...(count > 1
+        ? [
+            element('beam', index === 0 ? 'begin' : 'end', { number: 1 }),
+            element('beam', index === 0 ? 'begin' : 'end', { number: 2 }),
+          ]
+        : []),
+    ]),
+  )
+}
+
+// MusicXML beam states for one chord of an engraved beam, per beam level.
+const beamElements = (beam: EngravedBeam | undefined, chord: EngravedChord) => {
+  if (!beam) {
+    return []
+  }
+  const index = beam.chords.indexOf(chord)
+  return beam.segments
+    .filter((segment) => index >= segment.from && index <= segment.to)
+    .map((segment) => {
+      const value = segment.hook
+        ? segment.hook === 'left'
+          ? 'backward hook'
+          : 'forward hook'
+        : index === segment.from
+          ? 'begin'
+          : index === segment.to
+            ? 'end'
+            : 'continue'
+      return element('beam', value, { number: segment.level + 1 })
+    })
+    .sort((a, b) => Number(a.attributes?.number) - Number(b.attributes?.number))
+}
+
+const tupletElements = (beam: EngravedBeam | undefined, chord: EngravedChord) => {
+  if (!beam?.tuplet) {
+    return []
+  }
+  const index = beam.chords.indexOf(chord)
+  if (index === 0) {
+    return [element('tuplet', undefined, { type: 'start', bracket: 'no' })]
+  }
+  return index === beam.chords.length - 1 ? [element('tuplet', undefined, { type: 'stop' })] : []
+}
+
+const chordNotes = (
+  chord: EngravedChord,
+  duration: number,
+  beam: EngravedBeam | undefined,
+) => {
+  const voice = voiceNumber(chord.stem)
+  const graces = chord.heads.flatMap((head) => graceNotes(head.note, voice))
+  const notes = chord.heads.map((head, index) => {
+    const { note, row } = head
+    const position = displayPositionFor(note.rowId)
+    const notations = [
+      // The tuplet bracket belongs to the chord, so only its first note carries it.
+      ...(index === 0 ? tupletElements(beam, chord) : []),
+      ...(note.articulation === 'accent' ? [element('articulations', [element('accent')])] : []),
+      ...(note.articulation === 'rimshot'
+        ? [element('technical', [element('stick-location', 'rim')])]
+        : []),
+    ]
+    return element('note', [
+      ...(index > 0 ? [element('chord')] : []),
+      element('unpitched', [
+        element('display-step', position.step),
+        element('display-octave', position.octave),
+      ]),
+      element('duration', duration),
+      element('instrument', undefined, { id: instrumentId(note.rowId) }),
+      element('voice', voice),
+      ...typeElements(duration),
+      ...(chord.hasStem ? [element('stem', chord.stem)] : []),
+      element(
+        'notehead',
+        NOTEHEADS[row.shape],
+        note.articulation === 'ghost' ? { parentheses: 'yes' } : undefined,
+      ),
+      ...(index === 0 ? beamElements(beam, chord) : []),
+      ...(notations.length > 0 ? [element('notations', notations)] : []),
+    ])
+  })
+  return [...graces, ...notes]
+}
+
+const restNote = (rest: MeasureRest, duration: number) =>
+  element('note', [
+    element('rest'),
+    element('duration', duration),
+    element('voice', voiceNumber(rest.stem)),
+    ...typeElements(duration),
+  ])
+
+type VoiceEvent =
+  | { column: number; kind: 'chord'; chord: EngravedChord; length: number }
+  | { column: number; kind: 'rest'; rest: MeasureRest; length: number }
+
+/**
+ * The notes of one measure: the hands voice, a backup to the start of the
+ * measure, then the feet voice. Silence nobody wrote a rest for becomes an
+ * invisible forward, and a note that runs into the next event in its voice
+ * is cut short there so the voice never overlaps itself.
+ */
+const measureNotes = (measure: Measure) => {
+  const { chords, beams } = engraveMeasure(measure)
+  const beamOf = (chord: EngravedChord) => beams.find((beam) => beam.chords.includes(chord))
+  const elements: XmlElement[] = []
+  let voicesWritten = 0
+
+  ;(['up', 'down'] as const).forEach((stem) => {
+    const events: VoiceEvent[] = [
+      ...chords
+        .filter((chord) => chord.stem === stem)
+        .map((chord) => ({ column: chord.column, kind: 'chord' as const, chord, length: chord.duration })),
+      ...measure.rests
+        .filter((rest) => rest.stem === stem)
+        .map((rest) => ({ column: rest.column, kind: 'rest' as const, rest, length: rest.duration })),
+    ].sort((a, b) => a.column - b.column)
+    if (events.length === 0) {
+      return
+    }
+    if (voicesWritten > 0) {
+      elements.push(element('backup', [element('duration', measure.subdivisions)]))
+    }
+    voicesWritten += 1
+
+    const voice = voiceNumber(stem)
+    let cursor = 0
+    events.forEach((event, index) => {
+      if (event.column < cursor) {
+        return
+      }
+      if (event.column > cursor) {
+        elements.push(
+          element('forward', [element('duration', event.column - cursor), element('voice', voice)]),
+        )
+      }
+      const end = Math.min(
+        event.column + event.length,
+        events[index + 1]?.column ?? Infinity,
+        measure.subdivisions,
+      )
+      const duration = end - event.column
+      if (event.kind === 'chord') {
+        elements.push(...chordNotes(event.chord, duration, beamOf(event.chord)))
+      } else {
+        elements.push(restNote(event.rest, duration))
+      }
+      cursor = end
+    })
+    if (cursor < measure.subdivisions) {
+      elements.push(
+        element('forward', [
+          element('duration', measure.subdivisions - cursor),
+          element('voice', voice),
+        ]),
+      )
+    }
+  })
+
+  if (voicesWritten === 0) {
+    elements.push(
+      element('note', [
+        element('rest', undefined, { measure: 'yes' }),
+        element('duration', measure.subdivisions),
+        element('voice', 1),
+      ]),
+    )
+  }
+  return elements
+}
+
+const timeElement = (measure: Measure) =>
+  element('time', [
+    element('beats', measure.timeSignature.beats),
+    element('beat-type', measure.timeSignature.beatUnit),
+  ])
+
+// Repeat signs and volta brackets belong to the barlines at either edge of a
+// measure; the last measure also gets the final double bar.
+const leftBarline = (measures: Measure[], index: number) => {
+  const form = measures[index].form
+  const ending = form?.ending && !continuesEnding(measures, index) ? form.ending : null
+  if (!form?.repeatStart && !ending) {
+    return []
+  }
+  return [
+    element(
+      'barline',
+      [
+        ...(form?.repeatStart ? [element('bar-style', 'heavy-light')] : []),
+        ...(ending
+          ? [element('ending', formatEnding(ending), { number: ending.join(', '), type: 'start' })]
+          : []),
+        ...(form?.repeatStart ? [element('repeat', undefined, { direction: 'forward' })] : []),
+      ],
+      { location: 'left' },
+    ),
+  ]
+}
+
+const rightBarline = (measures: Measure[], index: number) => {
+  const form = measures[index].form
+  const isLast = index === measures.length - 1
+  const ending = form?.ending && !continuesEnding(measures, index + 1) ? form.ending : null
+  const repeatEnd = form?.repeatEnd
+  if (!repeatEnd && !ending && !isLast) {
+    return []
+  }
+  return [
+    element(
+      'barline',
+      [
+        ...(repeatEnd || isLast ? [element('bar-style', 'light-heavy')] : []),
+        ...(ending
+          ? [
+              element('ending', undefined, {
+                number: ending.join(', '),
+                // The last volta is left open, as it leads on.
+                type: repeatEnd ? 'stop' : 'discontinue',
+              }),
+            ]
+          : []),
+        ...(repeatEnd
+          ? [
+              element('repeat', undefined, {
+                direction: 'backward',
+                ...(repeatEnd > 2 ? { times: repeatEnd } : {}),
+              }),
+            ]
+          : []),
+      ],
+      { location: 'right' },
+    ),
+  ]
+}
+
+const formDirection = (type: XmlElement, sound?: Record<string, string>) =>
+  element(
+    'direction',
+    [element('direction-type', [type]), ...(sound ? [element('sound', undefined, sound)] : [])],
+    { placement: 'above' },
+  )
+
+// Rehearsal marks, segno and coda signs stand at the front of a measure.
+const startDirections = (measure: Measure) => {
+  const form = measure.form
+  return [
+    ...(form?.section ? [formDirection(element('rehearsal', form.section))] : []),
+    ...(form?.segno ? [formDirection(element('segno'), { segno: 'segno' })] : []),
+    ...(form?.coda ? [formDirection(element('coda'), { coda: 'coda' })] : []),
+  ]
+}
+
+const metronomeDirection = (bpm: number) =>
+  element(
+    'direction',
+    [
+      element('direction-type', [
+        element('metronome', [element('beat-unit', 'quarter'), element('per-minute', bpm)]),
+      ]),
+      element('sound', undefined, { tempo: bpm }),
+    ],
+    { placement: 'above' },
+  )
+
+// A tempo mark, followed by "accel." or "rit." when it ramps to the next one.
+// The ramp itself has no sound element; players hold the marked tempo.
+const tempoDirections = (measures: Measure[], index: number) => {
+  const mark = measures[index].tempo
+  const ramp = rampLabel(measures, index)
+  return [
+    ...(mark ? [metronomeDirection(mark.bpm)] : []),
+    ...(ramp ? [formDirection(element('words', ramp))] : []),
+  ]
+}
+
+// To Coda, Fine and D.C./D.S. are read at the end of a measure, with a
+// sound element so playback software follows them.
+const endDirections = (measure: Measure) => {
+  const form = measure.form
+  return [
+    ...(form?.toCoda ? [formDirection(element('words', 'To Coda'), { tocoda: 'coda' })] : []),
+    ...(form?.fine ? [formDirection(element('words', 'Fine'), { fine: 'yes' })] : []),
+    ...(form?.jump
+      ? [
+          formDirection(
+            element('words', jumpLabel(form.jump)),
+            jumpTarget(form.jump) === 'segno' ? { dalsegno: 'segno' } : { dacapo: 'yes' },
+          ),
+        ]
+      : []),
+  ]
+}
+
+const partList = (voices: NoteRowId[], pitchMap: DrumPitchMap) =>
+  element('part-list', [
+    element(
+      'score-part',
+      [
+        element('part-name', 'Drum set'),
+        element('part-abbreviation', 'Dr.'),
+        ...voices.map((rowId) =>
+          element('score-instrument', [element('instrument-name', rowsById.get(rowId)?.name ?? rowId)], {
+            id: instrumentId(rowId),
+          }),
+        ),
+        ...voices.map((rowId) =>
+          element(
+            'midi-instrument',
+            [element('midi-channel', 10), element('midi-unpitched', pitchMap[rowId] + 1)],
+            { id: instrumentId(rowId) },
+          ),
+        ),
+      ],
+      { id: PART_ID },
+    ),
+  ])
+
+/**
+ * Builds a MusicXML 4.0 partwise score of the sheet: one percussion part on a
+ * five-line staff, each voice an unpitched instrument at its staff position
+ * with its note head, hands and feet as voices 1 and 2, the tempo and
+ * meter changes as directions and attributes, and the song form as repeat
+ * barlines, voltas, rehearsal marks and D.C./D.S. directions. `pitchMap` gives playback
+ * software the same drum sounds as the MIDI export.
+ */
+export const sheetToMusicXml = (sheet: DrumSheet, pitchMap: DrumPitchMap) => {
+  const voices = sortVoices([...sheet.voices, ...voicesInUse(sheet.measures)])
+
+  const measures = sheet.measures.map((measure, index) => {
+    const previous = sheet.measures[index - 1]
+    const children: XmlElement[] = [...leftBarline(sheet.measures, index)]
+    if (!previous) {
+      children.push(
+        element('attributes', [
+          element('divisions', DIVISIONS),
+          element('key', [element('fifths', 0)]),
+          timeElement(measure),
+          element('clef', [element('sign', 'percussion')]),
+          element('staff-details', [element('staff-lines', 5)]),
+        ]),
+        ...(measure.tempo ? [] : [metronomeDirection(sheet.tempo)]),
+      )
+    } else if (!sameTimeSignature(previous.timeSignature, measure.timeSignature)) {
+      children.push(element('attributes', [timeElement(measure)]))
+    }
+    children.push(
+      ...startDirections(measure),
+      ...tempoDirections(sheet.measures, index),
+      ...measureNotes(measure),
+      ...endDirections(measure),
+      ...rightBarline(sheet.measures, index),
+    )
+    return element('measure', children, { number: index + 1 })
+  })
+
+  const score = element(
+    'score-partwise',
+    [
+      element('work', [element('work-title', sheet.title)]),
+      element('identification', [element('encoding', [element('software', 'drum')])]),
+      partList(voices, pitchMap),
+      element('part', measures, { id: PART_ID }),
+    ],
+    { version: '4.0' },
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    serialize(score),
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,272 @@
+import type { DrumKit } from './drumKit'
+import { triggerClick, triggerNote } from './drumSynth'
+import type { StoppableNode } from './drumSynth'
+import { playedHit } from './feel'
+import { STEPS_PER_SIXTEENTH, beatLengths } from './sheet'
+import type { Measure, MeasureRange, PlaybackFeel, TimeSignature } from './sheet'
+import { orderStepFor, performanceOrder } from './songForm'
+import { measureTempos, noteSeconds, secondsBetween, secondsPerStep } from './timing'
+import type { MeasureTempo } from './timing'
+
+// Audio is queued this far ahead of the clock, topped up on every timer tick.
+// The window has to outlast a late tick but stay short enough that tempo
+// changes are heard almost at once.
+const LOOKAHEAD_SECONDS = 0.12
+const SCHEDULER_INTERVAL_MS = 25
+const START_DELAY_SECONDS = 0.1
+const RELEASE_TAIL_SECONDS = 0.5
+
+export type MetronomeMode = 'off' | 'with-groove' | 'click-only'
+
+export const METRONOME_MODES: Array<{ value: MetronomeMode; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'with-groove', label: 'With groove' },
+  { value: 'click-only', label: 'Click only' },
+]
+
+export const COUNT_IN_OPTIONS = [0, 1, 2] as const
+
+export type CountInBars = (typeof COUNT_IN_OPTIONS)[number]
+
+export type PracticeSettings = {
+  loop: boolean
+  range: MeasureRange
+  countInBars: CountInBars
+  metronome: MetronomeMode
+}
+
+export type PlaybackPosition = {
+  measureIndex: number
+  column: number
+  stepSeconds: number
+  // Count-in steps report the measure they lead into.
+  countIn: boolean
+}
+
+export type PlaybackSchedulerOptions = {
+  context: AudioContext
+  // Read on every step so edits, tempo, feel and practice changes apply to
+  // a running playback.
+  getMeasures: () => Measure[]
+  getTempo: () => number
+  getFeel: () => PlaybackFeel
+  getPractice: () => PracticeSettings
+  getKit: () => DrumKit
+  onStep: (position: PlaybackPosition) => void
+  onEnd: () => void
+}
+
+export type PlaybackScheduler = {
+  stop: () => void
+}
+
+type QueuedStep = PlaybackPosition & { time: number }
+
+// The playhead only needs to hear about sixteenth boundaries; reporting every
+// triplet-sized step would re-render the staff three times as often.
+const reportsPosition = (column: number) => column % STEPS_PER_SIXTEENTH === 0
+
+const beatStarts = (timeSignature: TimeSignature) => {
+  const starts = new Set<number>()
+  let column = 0
+  beatLengths(timeSignature).forEach((length) => {
+    starts.add(column)
+    column += length
+  })
+  return starts
+}
+
+// A practice loop plays its measures as written, leaving out the song form.
+const playableRange = ({ loop, range }: PracticeSettings, measureCount: number): MeasureRange => {
+  const last = measureCount - 1
+  if (!loop) {
+    return { start: 0, end: last }
+  }
+  const start = Math.min(Math.max(range.start, 0), last)
+  return { start, end: Math.min(Math.max(range.end, start), last) }
+}
+
+/**
+ * Plays the sheet by queueing one step at a time a short way ahead of the
+ * audio clock. Step callbacks fire on animation frames as each step sounds,
+ * which is what drives the playhead. Without a practice loop the measures
+ * follow the song form, repeats and jumps included. Each step lasts as long
+ * as the tempo map makes it, so marks and ramps are heard as written.
+ */
+export const startPlaybackScheduler = ({
+  context,
+  getMeasures,
+  getTempo,
+  getFeel,
+  getPractice,
+  getKit,
+  onStep,
+  onEnd,
+}: PlaybackSchedulerOptions): PlaybackScheduler => {
+  const activeNodes = new Set<StoppableNode>()
+  const queue: QueuedStep[] = []
+  const initialPractice = getPractice()
+  const initialMeasures = getMeasures()
+  const initialOrder = performanceOrder(initialMeasures)
+  let measureIndex = initialPractice.loop
+    ? playableRange(initialPractice, initialMeasures.length).start
+    : (initialOrder[0] ?? 0)
+  // Place in the performance order, kept up while looping so switching the
+  // loop off carries on from the same measure and each pass of a repeat
+  // keeps its own humanize.
+  let orderStep = orderStepFor(initialOrder, measureIndex, 0)
+  let column = 0
+  // Count-in bars borrow the meter of the first measure played.
+  const countInMeasure = initialMeasures[measureIndex]
+  const countInSteps = countInMeasure ? initialPractice.countInBars * countInMeasure.subdivisions : 0
+  let countInStep = 0
+  let nextStepTime = context.currentTime + START_DELAY_SECONDS
+  let endTime: number | null = null
+  let timerId: number | null = null
+  let frameId: number | null = null
+  let stopped = false
+
+  // The tempo map only changes with an edit or a new tempo, so it is worked
+  // out again only then rather than on every step.
+  let tempoMap: { measures: Measure[]; tempo: number; tempos: MeasureTempo[] } | null = null
+  const temposFor = (measures: Measure[]) => {
+    const tempo = getTempo()
+    if (!tempoMap || tempoMap.measures !== measures || tempoMap.tempo !== tempo) {
+      tempoMap = { measures, tempo, tempos: measureTempos(measures, tempo) }
+    }
+    return tempoMap.tempos
+  }
+
+  const track = (nodes: StoppableNode[]) => {
+    nodes.forEach((node) => {
+      activeNodes.add(node)
+      node.addEventListener('ended', () => activeNodes.delete(node))
+    })
+  }
+
+  const scheduleCountInStep = () => {
+    // The count-in keeps the tempo the first measure starts with.
+    const leadTempo = temposFor(getMeasures())[measureIndex]?.start ?? getTempo()
+    const stepSeconds = secondsPerStep(leadTempo)
+    const column = countInStep % countInMeasure.subdivisions
+    if (beatStarts(countInMeasure.timeSignature).has(column)) {
+      const nodes: StoppableNode[] = []
+      triggerClick(context, nextStepTime, column === 0, nodes)
+      track(nodes)
+    }
+    if (reportsPosition(column)) {
+      queue.push({ measureIndex, column, stepSeconds, countIn: true, time: nextStepTime })
+    }
+    countInStep += 1
+    nextStepTime += stepSeconds
+  }
+
+  const scheduleStep = (measures: Measure[], metronome: MetronomeMode) => {
+    const measure = measures[measureIndex]
+    const tempo = temposFor(measures)[measureIndex]
+    const stepSeconds = secondsBetween(tempo, measure.subdivisions, column, column + 1)
+    const nodes: StoppableNode[] = []
+    if (metronome !== 'click-only') {
+      const kit = getKit()
+      const feel = getFeel()
+      measure.notes.forEach((note) => {
+        if (note.column === column) {
+          const hit = playedHit(measures, measureIndex, orderStep, note, feel, stepSeconds)
+          // A hit humanized early can't be queued before the clock.
+          const when = Math.max(nextStepTime + hit.offsetSeconds, context.currentTime)
+          const seconds = noteSeconds(note.duration, stepSeconds)
+          triggerNote(context, note, when, seconds, nodes, kit, hit.velocity)
+        }
+      })
+    }
+    if (metronome !== 'off' && beatStarts(measure.timeSignature).has(column)) {
+      triggerClick(context, nextStepTime, column === 0, nodes)
+    }
+    track(nodes)
+    if (reportsPosition(column)) {
+      queue.push({ measureIndex, column, stepSeconds, countIn: false, time: nextStepTime })
+    }
+    nextStepTime += stepSeconds
+  }
+
+  const fillWindow = () => {
+    while (endTime === null && nextStepTime < context.currentTime + LOOKAHEAD_SECONDS) {
+      if (countInStep < countInSteps) {
+        scheduleCountInStep()
+        continue
+      }
+      const measures = getMeasures()
+      const practice = getPractice()
+      if (column >= (measures[measureIndex]?.subdivisions ?? 0)) {
+        const order = performanceOrder(measures)
+        // A looped measure outside the order already counts as the step after it.
+        const nextStep = order[orderStep] === measureIndex ? orderStep + 1 : orderStep
+        column = 0
+        if (practice.loop) {
+          const range = playableRange(practice, measures.length)
+          measureIndex = measureIndex >= range.end ? range.start : measureIndex + 1
+          orderStep = orderStepFor(order, measureIndex, nextStep)
+        } else {
+          orderStep = nextStep
+          measureIndex = order[orderStep] ?? measures.length
+        }
+      }
+      const measure = measures[measureIndex]
+      if (!measure) {
+        endTime = nextStepTime + RELEASE_TAIL_SECONDS
+        break
+      }
+      scheduleStep(measures, practice.metronome)
+      column += 1
+    }
+  }
+
+  const stop = () => {
+    if (stopped) {
+      return
+    }
+    stopped = true
+    if (timerId !== null) {
+      window.clearInterval(timerId)
+    }
+    if (frameId !== null) {
+      window.cancelAnimationFrame(frameId)
+    }
+    activeNodes.forEach((node) => {
+      try {
+        node.stop()
+      } catch {
+        // node might already be stopped
+      }
+    })
+    activeNodes.clear()
+  }
+
+  const tick = () => {
+    frameId = null
+    let current: QueuedStep | undefined
+    while (queue.length > 0 && queue[0].time <= context.currentTime) {
+      current = queue.shift()
+    }
+    if (current) {
+      onStep({
+        measureIndex: current.measureIndex,
+        column: current.column,
+        stepSeconds: current.stepSeconds,
+        countIn: current.countIn,
+      })
+    }
+    if (endTime !== null && context.currentTime >= endTime) {
+      stop()
+      onEnd()
+      return
+    }
+    frameId = window.requestAnimationFrame(tick)
+  }
+
+  fillWindow()
+  timerId = window.setInterval(fillWindow, SCHEDULER_INTERVAL_MS)
+  frameId = window.requestAnimationFrame(tick)
+
+  return { stop }
+}
@@ -0,0 +1,103 @@
+import { createElement } from 'react'
+import { ScoreSvg } from './ScoreDocument'
+import type { DrumSheet } from './sheet'
+
+// The notation rules from App.css in print colours, embedded in every SVG
+// export so the file needs no stylesheet of its own.
+const SCORE_STYLES = `
+.score-page { fill: #fff; }
+.score-title { font: 700 28px Georgia, 'Times New Roman', serif; fill: #111; text-anchor: middle; }
+.score-tempo { font: 600 18px Georgia, 'Times New Roman', serif; fill: #111; }
+.staff-line, .ledger-line { stroke: #111; stroke-width: 2; stroke-linecap: round; }
+.barline { stroke: #111; stroke-width: 2; }
+.repeat-sign, .form-sign .form-dot { fill: #111; }
+.form-sign, .volta path { fill: none; stroke: #111; stroke-width: 2; stroke-linecap: round; }
+.rehearsal-mark rect { fill: #fff; stroke: #111; stroke-width: 2; }
+.rehearsal-mark text, .volta-label, .form-text { font: 700 15px Georgia, 'Times New Roman', serif; fill: #111; }
+.form-text { font-style: italic; }
+.form-text.end { text-anchor: end; }
+.tempo-mark { font: 700 15px Georgia, 'Times New Roman', serif; fill: #111; }
+.tempo-ramp { font-style: italic; font-weight: 400; }
+.time-signature text { font: 700 34px Georgia, 'Times New Roman', serif; fill: #111; text-anchor: middle; dominant-baseline: central; }
+.note-head, .note-flag, .note-beam, .rest { fill: #111; }
+.note-head.hollow { fill: #fff; stroke: #111; stroke-width: 2.5; }
+.note-stem { stroke: #111; stroke-width: 2; stroke-linecap: round; }
+.note-x { stroke: #111; stroke-width: 2.4; stroke-linecap: round; }
+.note-x.outline { fill: none; stroke-width: 2; }
+.note-mark, .rest .rest-stroke { fill: none; stroke: #111; stroke-width: 2; stroke-linecap: round; stroke-linejoin: round; }
+.rest .rest-stroke { stroke-width: 2.5; }
+.tuplet-number { font: italic 700 12px Georgia, 'Times New Roman', serif; fill: #111; text-anchor: middle; }
+`
+
+// PNGs are drawn at twice the SVG size so they stay sharp when printed.
+const PNG_SCALE = 2
+
+export class ScoreExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScoreExportError'
+  }
+}
+
+/**
+ * Renders the sheet as a standalone SVG document, independent of the editor's
+ * view. The server renderer is only loaded on the first export, keeping it
+ * out of the main bundle.
+ */
+export const renderScoreSvg = async (sheet: DrumSheet) => {
+  const { renderToStaticMarkup } = await import('react-dom/server')
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderToStaticMarkup(
+    createElement(ScoreSvg, { sheet, styles: SCORE_STYLES }),
+  )}`
+}
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new ScoreExportError('The score image could not be drawn.'))
+    image.src = url
+  })
+
+const drawToPng = async (image: HTMLImageElement, width: number, height: number) => {
+  // An offscreen canvas keeps the drawing out of the page; older browsers
+  // fall back to a detached canvas element.
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new ScoreExportError('This browser cannot draw to a canvas.')
+    }
+    context.drawImage(image, 0, 0, width, height)
+    return canvas.convertToBlob({ type: 'image/png' })
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new ScoreExportError('This browser cannot draw to a canvas.')
+  }
+  context.drawImage(image, 0, 0, width, height)
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new ScoreExportError('The PNG could not be encoded.'))),
+      'image/png',
+    )
+  })
+}
+
+/** Rasterises the standalone SVG through a canvas and returns PNG bytes. */
+export const renderScorePng = async (sheet: DrumSheet) => {
+  const url = URL.createObjectURL(new Blob([await renderScoreSvg(sheet)], { type: 'image/svg+xml' }))
+  try {
+    const image = await loadImage(url)
+    return await drawToPng(
+      image,
+      Math.ceil(image.naturalWidth * PNG_SCALE),
+      Math.ceil(image.naturalHeight * PNG_SCALE),
+    )
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
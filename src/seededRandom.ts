@@ -0,0 +1,34 @@
+// Seeds are whole numbers small enough to read out and type back in.
+export const MAX_SEED = 999_999
+
+export const clampSeed = (value: number) =>
+  Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 0), MAX_SEED) : 0
+
+/** A fresh seed for when nothing particular is wanted. */
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1))
+
+/**
+ * A deterministic source of numbers in [0, 1): the same seed always gives
+ * the same sequence, in every browser. This is mulberry32, which is plenty
+ * for musical choices and far from good enough for anything secret.
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Folds a seed and some whole numbers into a new seed, so each combination
+ * gets its own sequence without drawing from a shared one in a fixed order.
+ */
+export const mixSeed = (seed: number, ...values: number[]) =>
+  values.reduce((mixed, value) => {
+    const next = Math.imul(mixed ^ (value + 0x9e3779b9), 0x85ebca6b)
+    return (next ^ (next >>> 13)) >>> 0
+  }, seed >>> 0)
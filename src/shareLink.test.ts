@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyMeasure, createEmptySheet } from './sheet'
+import type { DrumSheet } from './sheet'
+import { SHARE_LINK_VERSION, ShareLinkError, decodeSheetLink, encodeSheetLink } from './shareLink'
+import { toSheetDocument } from './sheetFormat'
+
+const DAMAGED_LINK = 'The link is damaged or cut short. Ask for it to be copied again.'
+
+const testSheet = (): DrumSheet => ({
+  ...createEmptySheet(),
+  title: 'Shared groove',
+  tempo: 128,
+  measures: [
+    {
+      ...createEmptyMeasure(),
+      notes: [
+        { column: 0, rowId: 'bd', duration: 12 },
+        { column: 12, rowId: 'sn', duration: 12, articulation: 'accent' },
+      ],
+      form: { section: 'A' },
+    },
+    { ...createEmptyMeasure({ beats: 7, beatUnit: 8 }), tempo: { bpm: 90 } },
+  ],
+})
+
+const decodeError = async (payload: string) => {
+  try {
+    await decodeSheetLink(payload)
+  } catch (error) {
+    expect(error).toBeInstanceOf(ShareLinkError)
+    return (error as Error).message
+  }
+  throw new Error('The link was opened.')
+}
+
+describe('share links', () => {
+  it('open the sheet they were made from', async () => {
+    const sheet = testSheet()
+    const payload = await encodeSheetLink(sheet)
+    expect(payload).toMatch(new RegExp(`^${SHARE_LINK_VERSION}\\.[0-9a-f]{8}\\.[A-Za-z0-9_-]+$`))
+    expect(await decodeSheetLink(payload)).toEqual(sheet)
+  })
+
+  it('still open version 1 links, which have no checksum', async () => {
+    const json = new TextEncoder().encode(JSON.stringify(toSheetDocument(testSheet())))
+    const compressed = new Uint8Array(
+      await new Response(
+        new Blob([json]).stream().pipeThrough(new CompressionStream('deflate-raw')),
+      ).arrayBuffer(),
+    )
+    const base64 = btoa(String.fromCharCode(...compressed))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '')
+    expect(await decodeSheetLink(`1.${base64}`)).toEqual(testSheet())
+  })
+
+  it('reject a link cut short', async () => {
+    const payload = await encodeSheetLink(testSheet())
+    for (const length of [payload.length - 1, payload.length - 12, 14, 11, 2]) {
+      expect(await decodeError(payload.slice(0, length))).toBe(DAMAGED_LINK)
+    }
+  })
+
+  it('reject a link with characters added at the end', async () => {
+    const payload = await encodeSheetLink(testSheet())
+    expect(await decodeError(`${payload}AAAA`)).toBe(DAMAGED_LINK)
+    expect(await decodeError(`${payload}x`)).toBe(DAMAGED_LINK)
+  })
+
+  it('reject a link with a changed character', async () => {
+    const payload = await encodeSheetLink(testSheet())
+    const index = payload.length - 5
+    const changed = payload[index] === 'A' ? 'B' : 'A'
+    expect(await decodeError(`${payload.slice(0, index)}${changed}${payload.slice(index + 1)}`)).toBe(
+      DAMAGED_LINK,
+    )
+  })
+
+  it('reject links of other versions', async () => {
+    const [, ...rest] = (await encodeSheetLink(testSheet())).split('.')
+    expect(await decodeError([SHARE_LINK_VERSION + 1, ...rest].join('.'))).toBe(
+      'The link was made by a newer version of this app.',
+    )
+    expect(await decodeError(['0', ...rest].join('.'))).toBe('Sheet links of version 0 are not supported.')
+    expect(await decodeError(rest.join('.'))).toBe(DAMAGED_LINK)
+  })
+
+  it('reject data that is not base64url', async () => {
+    const [version, checksum, data] = (await encodeSheetLink(testSheet())).split('.')
+    expect(await decodeError(`${version}.${checksum}.${data.slice(0, 8)}+/${data.slice(8)}`)).toBe(
+      DAMAGED_LINK,
+    )
+    expect(await decodeError(`${version}.${checksum}.${data.slice(0, 8)}=${data.slice(8)}`)).toBe(
+      DAMAGED_LINK,
+    )
+    expect(await decodeError('1.not base64!')).toBe(DAMAGED_LINK)
+  })
+})
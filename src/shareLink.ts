@@ -0,0 +1,152 @@
+import type { DrumSheet } from './sheet'
+import { SheetFormatError, parseSheetDocument, toSheetDocument } from './sheetFormat'
+
+/*
+ * Share links
+ *
+ * A sheet travels in the location hash of a link to the app:
+ *
+ *   https://example.com/drum/#sheet=2.5f0e3a9c.q1YqSS0uUbJSMlLSUUouSk0tzs8Dcg0NDHUMDA...
+ *
+ * - The part before the first dot is `SHARE_LINK_VERSION`, the version of
+ *   this encoding. The sheet inside carries its own file format version (see
+ *   sheetFormat.ts), so links keep opening after the file format moves on.
+ * - Next comes the CRC-32 of the compressed bytes in eight hex digits. DEFLATE
+ *   stops reading at the end of its stream, so without the checksum a link
+ *   with characters added at the end would still open.
+ * - The part after the last dot is the sheet document as compact JSON,
+ *   compressed with raw DEFLATE and written in base64url without padding,
+ *   which needs no escaping anywhere in a URL.
+ * - Version 1 links have no checksum and are still read.
+ * - Bump `SHARE_LINK_VERSION` only when this outer encoding changes, and keep
+ *   decoding the versions before it.
+ */
+
+export const SHARE_LINK_VERSION = 2
+const HASH_PREFIX = '#sheet='
+// Bytes turned into characters at a time, well under the argument limit of
+// String.fromCharCode.
+const BASE64_CHUNK = 0x8000
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShareLinkError'
+  }
+}
+
+const DAMAGED_LINK = 'The link is damaged or cut short. Ask for it to be copied again.'
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let start = 0; start < bytes.length; start += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + BASE64_CHUNK))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) => {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) {
+    throw new ShareLinkError(DAMAGED_LINK)
+  }
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  try {
+    return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), (character) =>
+      character.charCodeAt(0),
+    )
+  } catch {
+    throw new ShareLinkError(DAMAGED_LINK)
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit += 1) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return crc >>> 0
+})
+
+// The CRC-32 of zlib and PNG, as eight lowercase hex digits.
+const checksumOf = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  bytes.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  })
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0')
+}
+
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer())
+
+/** The `version.checksum.data` text a link carries for the sheet. */
+export const encodeSheetLink = async (sheet: DrumSheet) => {
+  if (typeof CompressionStream === 'undefined') {
+    throw new ShareLinkError('This browser cannot compress a sheet into a link.')
+  }
+  const json = new TextEncoder().encode(JSON.stringify(toSheetDocument(sheet)))
+  const compressed = await transform(json, new CompressionStream('deflate-raw'))
+  return `${SHARE_LINK_VERSION}.${checksumOf(compressed)}.${toBase64Url(compressed)}`
+}
+
+// The base64url data of a link, checked against its checksum from version 2 on.
+const linkData = (version: number, rest: string) => {
+  if (version === 1) {
+    return fromBase64Url(rest)
+  }
+  const match = /^([0-9a-f]{8})\.(.*)$/.exec(rest)
+  if (!match) {
+    throw new ShareLinkError(DAMAGED_LINK)
+  }
+  const compressed = fromBase64Url(match[2])
+  if (checksumOf(compressed) !== match[1]) {
+    throw new ShareLinkError(DAMAGED_LINK)
+  }
+  return compressed
+}
+
+/** Reads a sheet back from the text after a link's `#sheet=`. */
+export const decodeSheetLink = async (payload: string): Promise<DrumSheet> => {
+  const match = /^(\d+)\.(.*)$/.exec(payload)
+  if (!match) {
+    throw new ShareLinkError(DAMAGED_LINK)
+  }
+  const version = Number(match[1])
+  if (version > SHARE_LINK_VERSION) {
+    throw new ShareLinkError('The link was made by a newer version of this app.')
+  }
+  if (version < 1) {
+    throw new ShareLinkError(`Sheet links of version ${version} are not supported.`)
+  }
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ShareLinkError('This browser cannot open compressed sheet links.')
+  }
+  const compressed = linkData(version, match[2])
+  let text: string
+  try {
+    const bytes = await transform(compressed, new DecompressionStream('deflate-raw'))
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    // Truncated or altered data fails to inflate or leaves broken UTF-8.
+    throw new ShareLinkError(DAMAGED_LINK)
+  }
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new ShareLinkError(DAMAGED_LINK)
+  }
+  try {
+    return parseSheetDocument(value)
+  } catch (error) {
+    throw new ShareLinkError(error instanceof SheetFormatError ? error.message : DAMAGED_LINK)
+  }
+}
+
+/** The sheet text in a location hash, or null when the hash holds no sheet. */
+export const readSheetHash = (hash: string) =>
+  hash.startsWith(HASH_PREFIX) ? hash.slice(HASH_PREFIX.length) : null
+
+/** A link to `baseUrl` (any hash dropped) that opens the sheet. */
+export const sheetLinkFor = async (sheet: DrumSheet, baseUrl: string) =>
+  `${baseUrl.split('#')[0]}${HASH_PREFIX}${await encodeSheetLink(sheet)}`
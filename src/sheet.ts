@@ -0,0 +1,356 @@
+// `row` is the staff position in half line-spaces: 1 is the top line, 9 the
+// bottom line, and values outside that range sit on or between ledger lines.
+// Voices sharing a position are told apart by their note head.
+export const NOTE_ROWS = [
+  { id: 'cb', name: 'Cowbell', row: -2, shape: 'triangle', stem: 'up' },
+  { id: 'cr', name: 'Crash', row: -1, shape: 'x', stem: 'up' },
+  { id: 'hh', name: 'Hi-hat', row: 0, shape: 'x', stem: 'up' },
+  { id: 'oh', name: 'Open hi-hat', row: 0, shape: 'circled-x', stem: 'up' },
+  { id: 'rd', name: 'Ride', row: 1, shape: 'x', stem: 'up' },
+  { id: 'rb', name: 'Ride bell', row: 1, shape: 'diamond', stem: 'up' },
+  { id: 'ht', name: 'High tom', row: 2, shape: 'circle', stem: 'up' },
+  { id: 'mt', name: 'Mid tom', row: 3, shape: 'circle', stem: 'up' },
+  { id: 'sn', name: 'Snare', row: 4, shape: 'circle', stem: 'up' },
+  { id: 'ft', name: 'Floor tom', row: 6, shape: 'circle', stem: 'up' },
+  { id: 'bd', name: 'Kick', row: 8, shape: 'circle', stem: 'down' },
+  { id: 'hf', name: 'Hi-hat foot', row: 10, shape: 'x', stem: 'down' },
+] as const
+
+export type NoteRow = (typeof NOTE_ROWS)[number]
+export type NoteRowId = NoteRow['id']
+export type NoteShape = NoteRow['shape']
+// Hands are written stems up and feet stems down.
+export type StemDirection = NoteRow['stem']
+
+// The kit a new sheet starts with; more voices can be switched on per sheet.
+export const DEFAULT_VOICES: NoteRowId[] = ['hh', 'ht', 'sn', 'bd']
+
+export type MeasureNote = {
+  column: number
+  rowId: NoteRowId
+  duration: number
+  // Plain hits leave this out.
+  articulation?: Articulation
+}
+
+// A rest belongs to the hands (stems up) or feet (stems down) voice.
+export type MeasureRest = {
+  column: number
+  duration: number
+  stem: StemDirection
+}
+
+export type TimeSignature = {
+  beats: number
+  beatUnit: number
+}
+
+export const FORM_JUMPS = [
+  { id: 'dc', label: 'D.C.', target: 'start', until: 'fine' },
+  { id: 'dc-al-fine', label: 'D.C. al Fine', target: 'start', until: 'fine' },
+  { id: 'dc-al-coda', label: 'D.C. al Coda', target: 'start', until: 'coda' },
+  { id: 'ds', label: 'D.S.', target: 'segno', until: 'fine' },
+  { id: 'ds-al-fine', label: 'D.S. al Fine', target: 'segno', until: 'fine' },
+  { id: 'ds-al-coda', label: 'D.S. al Coda', target: 'segno', until: 'coda' },
+] as const
+
+export type FormJump = (typeof FORM_JUMPS)[number]['id']
+
+// Song-form signs written on a measure. Every field is optional and a measure
+// without any leaves `form` out. Start signs (section, repeatStart, segno,
+// coda) belong to the front of the measure and the rest to its end.
+export type MeasureForm = {
+  // Rehearsal mark naming the section that starts here, e.g. "A" or "Chorus".
+  section?: string
+  repeatStart?: boolean
+  // How many times the passage plays in all; a plain repeat sign is 2.
+  repeatEnd?: number
+  // Passes of the repeat this measure is a volta for, e.g. [1] or [1, 2].
+  ending?: number[]
+  segno?: boolean
+  coda?: boolean
+  toCoda?: boolean
+  fine?: boolean
+  jump?: FormJump
+  // The section's own swing, used from its rehearsal mark up to the next one
+  // instead of the sheet's. Only kept alongside a `section`.
+  swing?: Swing
+}
+
+export const SWING_UNITS = [
+  { id: 'eighth', label: '8ths', steps: 6 },
+  { id: 'sixteenth', label: '16ths', steps: 3 },
+] as const
+
+export type SwingUnit = (typeof SWING_UNITS)[number]['id']
+
+// Swing is the share of each pair of `unit` notes given to the first one, in
+// percent: 50 is straight, about 67 a triplet shuffle and 75 a dotted feel.
+export type Swing = {
+  amount: number
+  unit: SwingUnit
+}
+
+export const SWING_AMOUNT = { min: 50, max: 75 } as const
+
+// Humanize nudges every hit by up to `timing` milliseconds either way and
+// scales its level by up to `velocity` percent, drawn from `seed` so a sheet
+// always plays back the same way.
+export type Humanize = {
+  timing: number
+  velocity: number
+  seed: number
+}
+
+export const HUMANIZE_RANGE = { maxTiming: 30, maxVelocity: 30 } as const
+
+export type PlaybackFeel = {
+  swing: Swing
+  humanize: Humanize
+}
+
+// A metronome mark at the front of a measure. With `ramp` the tempo glides
+// from `bpm` to the next mark's, reaching it where that mark stands: an
+// accelerando or a ritardando.
+export type TempoMark = {
+  bpm: number
+  ramp?: boolean
+}
+
+export type Measure = {
+  timeSignature: TimeSignature
+  subdivisions: number
+  notes: MeasureNote[]
+  rests: MeasureRest[]
+  form?: MeasureForm
+  tempo?: TempoMark
+}
+
+// A run of whole measures by index, inclusive at both ends.
+export type MeasureRange = {
+  start: number
+  end: number
+}
+
+export type DrumSheet = {
+  title: string
+  // Quarter notes per minute up to the first measure with a tempo mark.
+  tempo: number
+  voices: NoteRowId[]
+  measures: Measure[]
+  feel: PlaybackFeel
+}
+
+// A step is a third of a sixteenth note, fine enough to place sixteenths as
+// well as eighth and sixteenth triplets: a quarter-note beat splits into 4,
+// 3 or 6 equal parts.
+export const STEPS_PER_WHOLE = 48
+export const STEPS_PER_QUARTER = STEPS_PER_WHOLE / 4
+export const STEPS_PER_SIXTEENTH = STEPS_PER_WHOLE / 16
+export const DEFAULT_SUBDIVISIONS = STEPS_PER_WHOLE
+export const COMMON_TIME: TimeSignature = { beats: 4, beatUnit: 4 }
+export const BEAT_UNITS = [2, 4, 8, 16] as const
+export const MAX_BEATS = 32
+
+export const TIME_SIGNATURE_PRESETS: TimeSignature[] = [
+  { beats: 2, beatUnit: 4 },
+  { beats: 3, beatUnit: 4 },
+  { beats: 4, beatUnit: 4 },
+  { beats: 5, beatUnit: 4 },
+  { beats: 6, beatUnit: 4 },
+  { beats: 7, beatUnit: 4 },
+  { beats: 2, beatUnit: 2 },
+  { beats: 3, beatUnit: 2 },
+  { beats: 3, beatUnit: 8 },
+  { beats: 5, beatUnit: 8 },
+  { beats: 6, beatUnit: 8 },
+  { beats: 7, beatUnit: 8 },
+  { beats: 9, beatUnit: 8 },
+  { beats: 12, beatUnit: 8 },
+]
+
+export const DEFAULT_TITLE = 'Untitled groove'
+export const TEMPO = { min: 20, max: 300, default: 110 } as const
+
+export const NOTE_VALUES = [
+  { id: 'whole', label: 'Whole', symbol: '𝅝', steps: STEPS_PER_WHOLE, flags: 0 },
+  { id: 'half', label: 'Half', symbol: '𝅗𝅥', steps: STEPS_PER_WHOLE / 2, flags: 0 },
+  { id: 'quarter', label: 'Quarter', symbol: '♩', steps: STEPS_PER_QUARTER, flags: 0 },
+  { id: 'eighth', label: 'Eighth', symbol: '♪', steps: STEPS_PER_WHOLE / 8, flags: 1 },
+  { id: 'sixteenth', label: 'Sixteenth', symbol: '♬', steps: STEPS_PER_SIXTEENTH, flags: 2 },
+] as const
+
+export type NoteValue = (typeof NOTE_VALUES)[number]
+export type NoteValueId = NoteValue['id']
+export type DurationModifier = 'plain' | 'dotted' | 'triplet'
+
+export const DURATION_MODIFIERS: Array<{
+  value: DurationModifier
+  label: string
+  // Note values the modifier applies to; a dotted sixteenth would need a
+  // finer step than the grid has.
+  appliesTo: NoteValueId[]
+}> = [
+  { value: 'plain', label: 'Plain', appliesTo: NOTE_VALUES.map((value) => value.id) },
+  { value: 'dotted', label: 'Dotted', appliesTo: ['half', 'quarter', 'eighth'] },
+  { value: 'triplet', label: 'Triplet', appliesTo: ['eighth', 'sixteenth'] },
+]
+
+export type DurationOption = {
+  // Length in steps, which is what notes and rests store.
+  value: number
+  noteValue: NoteValue
+  modifier: DurationModifier
+  label: string
+}
+
+const modifiedSteps = (steps: number, modifier: DurationModifier) => {
+  switch (modifier) {
+    case 'plain':
+      return steps
+    case 'dotted':
+      return (steps * 3) / 2
+    case 'triplet':
+      return (steps * 2) / 3
+  }
+}
+
+export const DURATION_OPTIONS: DurationOption[] = DURATION_MODIFIERS.flatMap((modifier) =>
+  NOTE_VALUES.filter((noteValue) => modifier.appliesTo.includes(noteValue.id)).map(
+    (noteValue) => ({
+      value: modifiedSteps(noteValue.steps, modifier.value),
+      noteValue,
+      modifier: modifier.value,
+      label:
+        modifier.value === 'plain'
+          ? noteValue.label
+          : modifier.value === 'dotted'
+            ? `Dotted ${noteValue.label.toLowerCase()}`
+            : `${noteValue.label} triplet`,
+    }),
+  ),
+)
+
+const durationsBySteps = new Map(DURATION_OPTIONS.map((option) => [option.value, option]))
+
+export const describeDuration = (steps: number) => durationsBySteps.get(steps)
+
+export const durationFor = (noteValue: NoteValueId, modifier: DurationModifier) =>
+  DURATION_OPTIONS.find(
+    (option) => option.noteValue.id === noteValue && option.modifier === modifier,
+  )
+
+export const ARTICULATIONS = [
+  { id: 'accent', label: 'Accent', symbol: '>', description: 'Played louder than the notes around it' },
+  { id: 'ghost', label: 'Ghost', symbol: '( )', description: 'A quiet hit, drawn in parentheses' },
+  { id: 'flam', label: 'Flam', symbol: '♪̸', description: 'One soft grace note just ahead of the hit' },
+  { id: 'drag', label: 'Drag', symbol: '♬̸', description: 'Two soft grace notes just ahead of the hit' },
+  { id: 'rimshot', label: 'Rimshot', symbol: '⊘', description: 'Head and rim struck together' },
+] as const
+
+export type Articulation = (typeof ARTICULATIONS)[number]['id']
+
+export const isArticulation = (value: unknown): value is Articulation =>
+  ARTICULATIONS.some((articulation) => articulation.id === value)
+
+// A rimshot needs a drum with a rim, so cymbals, the kick and the pedal only
+// take the other articulations.
+export const supportsArticulation = (rowId: NoteRowId, articulation: Articulation) =>
+  articulation !== 'rimshot' || ['sn', 'ht', 'mt', 'ft'].includes(rowId)
+
+export const isSwingUnit = (value: unknown): value is SwingUnit =>
+  SWING_UNITS.some((unit) => unit.id === value)
+
+export const isFormJump = (value: unknown): value is FormJump =>
+  FORM_JUMPS.some((jump) => jump.id === value)
+
+export const rowsById = new Map<NoteRowId, NoteRow>()
+export const rowOrder = new Map<NoteRowId, number>()
+NOTE_ROWS.forEach((row, index) => {
+  rowsById.set(row.id, row)
+  rowOrder.set(row.id, index)
+})
+
+export const isNoteRowId = (value: unknown): value is NoteRowId =>
+  typeof value === 'string' && rowsById.has(value as NoteRowId)
+
+export const compareNotes = (
+  a: { column: number; rowId: NoteRowId },
+  b: { column: number; rowId: NoteRowId },
+) => {
+  if (a.column !== b.column) {
+    return a.column - b.column
+  }
+  const orderA = rowOrder.get(a.rowId) ?? 0
+  const orderB = rowOrder.get(b.rowId) ?? 0
+  return orderA - orderB
+}
+
+export const formatTimeSignature = ({ beats, beatUnit }: TimeSignature) => `${beats}/${beatUnit}`
+
+export const sameTimeSignature = (a: TimeSignature, b: TimeSignature) =>
+  a.beats === b.beats && a.beatUnit === b.beatUnit
+
+export const isValidTimeSignature = ({ beats, beatUnit }: TimeSignature) =>
+  Number.isInteger(beats) &&
+  beats >= 1 &&
+  beats <= MAX_BEATS &&
+  (BEAT_UNITS as readonly number[]).includes(beatUnit)
+
+/** Grid steps a measure in this meter spans. */
+export const stepsForTimeSignature = ({ beats, beatUnit }: TimeSignature) =>
+  beats * (STEPS_PER_WHOLE / beatUnit)
+
+/**
+ * Lengths in steps of the counted beats of a meter. Compound eighth meters
+ * (6/8, 9/8, 12/8) are felt in dotted quarters; other eighth meters count
+ * every eighth.
+ */
+export const beatLengths = (timeSignature: TimeSignature) => {
+  const { beats, beatUnit } = timeSignature
+  const unitSteps = STEPS_PER_WHOLE / beatUnit
+  if (beatUnit === 8 && beats > 3 && beats % 3 === 0) {
+    return Array.from({ length: beats / 3 }, () => unitSteps * 3)
+  }
+  return Array.from({ length: beats }, () => unitSteps)
+}
+
+export const createEmptyMeasure = (timeSignature: TimeSignature = COMMON_TIME): Measure => ({
+  timeSignature: { ...timeSignature },
+  subdivisions: stepsForTimeSignature(timeSignature),
+  notes: [],
+  rests: [],
+})
+
+// Straight and on the grid, the way sheets played before they had a feel.
+export const createDefaultFeel = (): PlaybackFeel => ({
+  swing: { amount: SWING_AMOUNT.min, unit: 'eighth' },
+  humanize: { timing: 0, velocity: 0, seed: 1 },
+})
+
+export const createEmptySheet = (): DrumSheet => ({
+  title: DEFAULT_TITLE,
+  tempo: TEMPO.default,
+  voices: [...DEFAULT_VOICES],
+  measures: [createEmptyMeasure()],
+  feel: createDefaultFeel(),
+})
+
+export const clampTempo = (value: number) =>
+  Math.min(TEMPO.max, Math.max(TEMPO.min, Math.round(value)))
+
+// Insert-mode edits lengthen a measure past the steps its meter calls for.
+export const isOffMeter = (measure: Measure) =>
+  measure.subdivisions !== stepsForTimeSignature(measure.timeSignature)
+
+export const sortVoices = (voices: Iterable<NoteRowId>) =>
+  [...new Set(voices)].sort((a, b) => (rowOrder.get(a) ?? 0) - (rowOrder.get(b) ?? 0))
+
+export const voicesInUse = (measures: Measure[]) => {
+  const used = new Set<NoteRowId>()
+  measures.forEach((measure) => measure.notes.forEach((note) => used.add(note.rowId)))
+  return used
+}
+
+export const sharesStaffPosition = (a: NoteRowId, b: NoteRowId) =>
+  rowsById.get(a)?.row === rowsById.get(b)?.row
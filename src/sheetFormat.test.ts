@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyMeasure, createEmptySheet } from './sheet'
+import type { DrumSheet } from './sheet'
+import {
+  SHEET_FORMAT_VERSION,
+  SheetFormatError,
+  parseSheet,
+  parseSheetDocument,
+  serializeSheet,
+} from './sheetFormat'
+
+// Steps of version 3 and earlier were sixteenth notes.
+const sixteenthMeasure = (extra: Record<string, unknown> = {}) => ({
+  subdivisions: 16,
+  notes: [
+    { column: 0, rowId: 'bd', duration: 4 },
+    { column: 4, rowId: 'sn', duration: 2 },
+    { column: 15, rowId: 'hh', duration: 1 },
+  ],
+  ...extra,
+})
+
+const currentDocument = () =>
+  JSON.parse(
+    serializeSheet({
+      ...createEmptySheet(),
+      measures: [{ ...createEmptyMeasure(), notes: [{ column: 0, rowId: 'bd', duration: 12 }] }],
+    }),
+  ) as Record<string, unknown> & { measures: Record<string, unknown>[] }
+
+const errorOf = (document: unknown) => {
+  try {
+    parseSheetDocument(document)
+  } catch (error) {
+    expect(error).toBeInstanceOf(SheetFormatError)
+    return (error as Error).message
+  }
+  throw new Error('The document was accepted.')
+}
+
+describe('parseSheetDocument', () => {
+  it('reads back what it writes', () => {
+    const sheet: DrumSheet = {
+      ...createEmptySheet(),
+      title: 'Round trip',
+      tempo: 96,
+      measures: [
+        {
+          ...createEmptyMeasure(),
+          notes: [{ column: 12, rowId: 'sn', duration: 12, articulation: 'accent' }],
+          rests: [{ column: 24, duration: 24, stem: 'down' }],
+          form: { section: 'A', repeatStart: true },
+          tempo: { bpm: 90, ramp: true },
+        },
+        { ...createEmptyMeasure({ beats: 6, beatUnit: 8 }), form: { repeatEnd: 3 } },
+      ],
+      feel: { swing: { amount: 62, unit: 'sixteenth' }, humanize: { timing: 8, velocity: 10, seed: 4711 } },
+    }
+    expect(parseSheet(serializeSheet(sheet))).toEqual(sheet)
+  })
+
+  it('opens a version 1 file in 4/4 with the original kit, tripled steps and no rests', () => {
+    const sheet = parseSheetDocument({
+      format: 'drumsheet',
+      version: 1,
+      title: 'Old groove',
+      tempo: 100,
+      measures: [sixteenthMeasure()],
+    })
+    expect(sheet.voices).toEqual(['hh', 'ht', 'sn', 'bd'])
+    expect(sheet.measures).toEqual([
+      {
+        timeSignature: { beats: 4, beatUnit: 4 },
+        subdivisions: 48,
+        notes: [
+          { column: 0, rowId: 'bd', duration: 12 },
+          { column: 12, rowId: 'sn', duration: 6 },
+          { column: 45, rowId: 'hh', duration: 3 },
+        ],
+        rests: [],
+      },
+    ])
+    expect(sheet.feel).toEqual(createEmptySheet().feel)
+  })
+
+  it('opens a version 3 file keeping its meters and voices', () => {
+    const sheet = parseSheetDocument({
+      format: 'drumsheet',
+      version: 3,
+      title: 'Three four',
+      tempo: 120,
+      voices: ['hh', 'sn', 'bd'],
+      measures: [
+        sixteenthMeasure({ timeSignature: { beats: 3, beatUnit: 4 }, subdivisions: 12, notes: [] }),
+        sixteenthMeasure({ timeSignature: { beats: 4, beatUnit: 4 } }),
+      ],
+    })
+    expect(sheet.voices).toEqual(['hh', 'sn', 'bd'])
+    expect(sheet.measures.map((measure) => measure.subdivisions)).toEqual([36, 48])
+    expect(sheet.measures[1].notes.map((note) => [note.column, note.duration])).toEqual([
+      [0, 12],
+      [12, 6],
+      [45, 3],
+    ])
+    expect(sheet.measures.every((measure) => measure.rests.length === 0)).toBe(true)
+  })
+
+  it('rejects a newer format version', () => {
+    expect(errorOf({ ...currentDocument(), version: SHEET_FORMAT_VERSION + 1 })).toBe(
+      `The sheet uses format version ${SHEET_FORMAT_VERSION + 1}, but this app only reads up to version ${SHEET_FORMAT_VERSION}.`,
+    )
+  })
+
+  it('names the field of a bad tempo mark', () => {
+    const document = currentDocument()
+    document.measures[0].tempo = { bpm: 400 }
+    expect(errorOf(document)).toBe('measures[0].tempo.bpm must be a whole number from 20 to 300.')
+    document.measures[0].tempo = { bpm: 90.5 }
+    expect(errorOf(document)).toBe('measures[0].tempo.bpm must be a whole number from 20 to 300.')
+  })
+
+  it('names the field of a bad song form', () => {
+    const document = currentDocument()
+    document.measures[0].form = { repeatEnd: 1 }
+    expect(errorOf(document)).toBe('measures[0].form.repeatEnd must be a whole number of plays, 2 or more.')
+    document.measures[0].form = { ending: [0] }
+    expect(errorOf(document)).toBe('measures[0].form.ending must be an array of pass numbers from 1.')
+    document.measures[0].form = { jump: 'dc-al-nowhere' }
+    expect(errorOf(document)).toBe('measures[0].form.jump "dc-al-nowhere" is not a known jump.')
+    document.measures[0].form = { segno: 'yes' }
+    expect(errorOf(document)).toBe('measures[0].form.segno must be true or false.')
+  })
+
+  it('names the field of a bad feel', () => {
+    const document = currentDocument()
+    document.feel = { swing: { amount: 90, unit: 'eighth' }, humanize: { timing: 0, velocity: 0, seed: 1 } }
+    expect(errorOf(document)).toBe('feel.swing.amount must be a whole percentage from 50 to 75.')
+    document.feel = { swing: { amount: 60, unit: 'quarter' }, humanize: { timing: 0, velocity: 0, seed: 1 } }
+    expect(errorOf(document)).toBe('feel.swing.unit must be "eighth" or "sixteenth".')
+    document.feel = { swing: { amount: 60, unit: 'eighth' }, humanize: { timing: 0, velocity: 0, seed: -1 } }
+    expect(errorOf(document)).toBe('feel.humanize.seed must be a whole number from 0 to 999999.')
+    delete document.feel
+    expect(errorOf(document)).toBe('feel must be an object with swing and humanize.')
+  })
+})
@@ -0,0 +1,479 @@
+import {
+  BEAT_UNITS,
+  COMMON_TIME,
+  DEFAULT_TITLE,
+  DURATION_OPTIONS,
+  HUMANIZE_RANGE,
+  MAX_BEATS,
+  SWING_AMOUNT,
+  TEMPO,
+  createDefaultFeel,
+  isFormJump,
+  clampTempo,
+  compareNotes,
+  isArticulation,
+  isNoteRowId,
+  isSwingUnit,
+  isValidTimeSignature,
+  sortVoices,
+  voicesInUse,
+} from './sheet'
+import type {
+  DrumSheet,
+  Humanize,
+  Measure,
+  MeasureForm,
+  MeasureNote,
+  MeasureRest,
+  NoteRowId,
+  PlaybackFeel,
+  Swing,
+  TempoMark,
+  TimeSignature,
+} from './sheet'
+import { MAX_SEED } from './seededRandom'
+import { MAX_SECTION_LENGTH, cleanForm } from './songForm'
+
+/*
+ * Drum sheet file format
+ *
+ * A sheet is saved as a single JSON object:
+ *
+ *   {
+ *     "format": "drumsheet",
+ *     "version": 7,
+ *     "title": "Four on the floor",
+ *     "tempo": 110,
+ *     "voices": ["hh", "sn", "bd"],
+ *     "measures": [
+ *       {
+ *         "timeSignature": { "beats": 4, "beatUnit": 4 },
+ *         "subdivisions": 48,
+ *         "notes": [
+ *           { "column": 0, "rowId": "hh", "duration": 6 },
+ *           { "column": 12, "rowId": "sn", "duration": 12, "articulation": "accent" }
+ *         ],
+ *         "rests": [{ "column": 24, "duration": 24, "stem": "down" }],
+ *         "form": { "section": "Verse", "repeatStart": true },
+ *         "tempo": { "bpm": 96, "ramp": true }
+ *       }
+ *     ],
+ *     "feel": {
+ *       "swing": { "amount": 62, "unit": "eighth" },
+ *       "humanize": { "timing": 8, "velocity": 10, "seed": 4711 }
+ *     }
+ *   }
+ *
+ * - `voices` lists the `NOTE_ROWS` ids shown on the staff and in the legend.
+ *   Voices that carry notes are always added to it when reading.
+ * - `timeSignature` is the meter of the measure. `beatUnit` is 2, 4, 8 or 16.
+ * - `subdivisions` counts steps of a third of a sixteenth note, so triplets
+ *   land on whole steps. It normally matches the meter (4/4 is 48 steps, 6/8
+ *   is 36) but insert-mode edits may have grown it.
+ * - `column` is the zero-based step inside its measure and must be lower
+ *   than the measure's `subdivisions`.
+ * - `rowId` is the stable id of a voice in `NOTE_ROWS` and `duration` is a
+ *   `DURATION_OPTIONS` value in steps. Both are stored by value rather than
+ *   by index, so adding voices or durations never invalidates older files.
+ * - `rests` are explicit rests with a step `column`, a `DURATION_OPTIONS`
+ *   `duration` and the `stem` of the voice they belong to: "up" for hands,
+ *   "down" for feet.
+ * - `articulation` is optional and is one of the `ARTICULATIONS` ids. Plain
+ *   hits omit it, so files without articulations read the same as before.
+ * - `form` is optional and holds the song-form signs of the measure:
+ *   `section` (a rehearsal mark of up to 16 characters), `repeatStart`,
+ *   `repeatEnd` (total plays, 2 or more), `ending` (volta pass numbers),
+ *   `segno`, `coda`, `toCoda`, `fine` and `jump` (one of the `FORM_JUMPS`
+ *   ids). Signs that are off are left out, as is an empty `form`. A measure
+ *   with a `section` may also carry that section's own `swing`.
+ * - `tempo` on a measure is an optional metronome mark: `bpm` quarter notes
+ *   per minute (20 to 300) from the front of the measure on, and `ramp` when
+ *   the tempo glides from there to the next mark's. The sheet's own `tempo`
+ *   holds until the first mark.
+ * - `feel` is how playback moves hits off the grid. `swing.amount` is the
+ *   percent of each pair of `swing.unit` notes ("eighth" or "sixteenth")
+ *   given to the first, from 50 (straight) to 75. `humanize.timing` is the
+ *   most a hit drifts in milliseconds (0 to 30), `humanize.velocity` the most
+ *   its level changes in percent (0 to 30), and `humanize.seed` a whole
+ *   number from 0 to 999999 that makes the drift repeatable.
+ * - Whenever the shape changes incompatibly, bump `SHEET_FORMAT_VERSION` and
+ *   register a step in `MIGRATIONS` that upgrades the previous version.
+ */
+
+export const SHEET_FORMAT_ID = 'drumsheet'
+export const SHEET_FORMAT_VERSION = 7
+export const SHEET_FILE_EXTENSION = '.drumsheet.json'
+
+export class SheetFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SheetFormatError'
+  }
+}
+
+type RawDocument = Record<string, unknown>
+type SheetMigration = (document: RawDocument) => RawDocument
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value)
+
+// Version 3 steps were sixteenth notes; later steps are a third of one.
+const VERSION_3_STEP_SCALE = 3
+
+const scaleField = (record: RawDocument, key: string) =>
+  isInteger(record[key]) ? { [key]: record[key] * VERSION_3_STEP_SCALE } : {}
+
+const upgradeSixteenthMeasure = (measure: RawDocument) => ({
+  ...measure,
+  ...scaleField(measure, 'subdivisions'),
+  notes: Array.isArray(measure.notes)
+    ? measure.notes.map((note: unknown) =>
+        isRecord(note)
+          ? { ...note, ...scaleField(note, 'column'), ...scaleField(note, 'duration') }
+          : note,
+      )
+    : measure.notes,
+  rests: [],
+})
+
+// Keyed by the version a step upgrades from; each step returns the document
+// in the shape of the next version.
+const MIGRATIONS: Record<number, SheetMigration> = {
+  // Version 1 had no meters; every measure was written in 4/4.
+  1: (document) => ({
+    ...document,
+    measures: Array.isArray(document.measures)
+      ? document.measures.map((measure: unknown) =>
+          isRecord(measure) ? { ...measure, timeSignature: { ...COMMON_TIME } } : measure,
+        )
+      : document.measures,
+  }),
+  // Version 2 always showed the original four-voice kit.
+  2: (document) => ({ ...document, voices: ['hh', 'sn', 'ht', 'bd'] }),
+  // Version 3 counted whole sixteenth notes and had no rests.
+  3: (document) => ({
+    ...document,
+    measures: Array.isArray(document.measures)
+      ? document.measures.map((measure: unknown) =>
+          isRecord(measure) ? upgradeSixteenthMeasure(measure) : measure,
+        )
+      : document.measures,
+  }),
+  // Version 4 had no song form; its measures read the same without one.
+  4: (document) => document,
+  // Version 5 always played straight and on the grid.
+  5: (document) => ({ ...document, feel: createDefaultFeel() }),
+  // Version 6 had one tempo for the whole sheet, which still reads the same.
+  6: (document) => document,
+}
+
+const knownDurations = new Set<number>(DURATION_OPTIONS.map((option) => option.value))
+
+const migrateDocument = (document: RawDocument, version: number) => {
+  let migrated = document
+  for (let from = version; from < SHEET_FORMAT_VERSION; from += 1) {
+    const migration = MIGRATIONS[from]
+    if (!migration) {
+      throw new SheetFormatError(`No upgrade path from sheet format version ${from}.`)
+    }
+    migrated = migration(migrated)
+  }
+  return migrated
+}
+
+const parseNote = (value: unknown, path: string, subdivisions: number): MeasureNote => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object.`)
+  }
+  const { column, rowId, duration, articulation } = value
+  if (!isInteger(column) || column < 0 || column >= subdivisions) {
+    throw new SheetFormatError(
+      `${path}.column must be a whole number from 0 to ${subdivisions - 1}.`,
+    )
+  }
+  if (!isNoteRowId(rowId)) {
+    throw new SheetFormatError(`${path}.rowId "${String(rowId)}" is not a known voice.`)
+  }
+  if (!isInteger(duration) || !knownDurations.has(duration)) {
+    throw new SheetFormatError(`${path}.duration ${String(duration)} is not a supported note length.`)
+  }
+  if (articulation === undefined) {
+    return { column, rowId, duration }
+  }
+  if (!isArticulation(articulation)) {
+    throw new SheetFormatError(`${path}.articulation "${String(articulation)}" is not a known articulation.`)
+  }
+  return { column, rowId, duration, articulation }
+}
+
+const parseRest = (value: unknown, path: string, subdivisions: number): MeasureRest => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object.`)
+  }
+  const { column, duration, stem } = value
+  if (!isInteger(column) || column < 0 || column >= subdivisions) {
+    throw new SheetFormatError(
+      `${path}.column must be a whole number from 0 to ${subdivisions - 1}.`,
+    )
+  }
+  if (!isInteger(duration) || !knownDurations.has(duration)) {
+    throw new SheetFormatError(`${path}.duration ${String(duration)} is not a supported rest length.`)
+  }
+  if (stem !== 'up' && stem !== 'down') {
+    throw new SheetFormatError(`${path}.stem must be "up" or "down".`)
+  }
+  return { column, duration, stem }
+}
+
+const parseTimeSignature = (value: unknown, path: string): TimeSignature => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object with beats and beatUnit.`)
+  }
+  const { beats, beatUnit } = value
+  if (
+    !isInteger(beats) ||
+    !isInteger(beatUnit) ||
+    !isValidTimeSignature({ beats, beatUnit })
+  ) {
+    throw new SheetFormatError(
+      `${path} must have 1 to ${MAX_BEATS} beats and a beatUnit of ${BEAT_UNITS.join(', ')}.`,
+    )
+  }
+  return { beats, beatUnit }
+}
+
+const isFlag = (value: unknown) => value === undefined || typeof value === 'boolean'
+
+const isWholeNumberIn = (value: unknown, min: number, max: number): value is number =>
+  isInteger(value) && value >= min && value <= max
+
+const parseSwing = (value: unknown, path: string): Swing => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object with amount and unit.`)
+  }
+  const { amount, unit } = value
+  if (!isWholeNumberIn(amount, SWING_AMOUNT.min, SWING_AMOUNT.max)) {
+    throw new SheetFormatError(
+      `${path}.amount must be a whole percentage from ${SWING_AMOUNT.min} to ${SWING_AMOUNT.max}.`,
+    )
+  }
+  if (!isSwingUnit(unit)) {
+    throw new SheetFormatError(`${path}.unit must be "eighth" or "sixteenth".`)
+  }
+  return { amount, unit }
+}
+
+const parseHumanize = (value: unknown, path: string): Humanize => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object with timing, velocity and seed.`)
+  }
+  const { timing, velocity, seed } = value
+  if (!isWholeNumberIn(timing, 0, HUMANIZE_RANGE.maxTiming)) {
+    throw new SheetFormatError(
+      `${path}.timing must be a whole number of milliseconds from 0 to ${HUMANIZE_RANGE.maxTiming}.`,
+    )
+  }
+  if (!isWholeNumberIn(velocity, 0, HUMANIZE_RANGE.maxVelocity)) {
+    throw new SheetFormatError(
+      `${path}.velocity must be a whole percentage from 0 to ${HUMANIZE_RANGE.maxVelocity}.`,
+    )
+  }
+  if (!isWholeNumberIn(seed, 0, MAX_SEED)) {
+    throw new SheetFormatError(`${path}.seed must be a whole number from 0 to ${MAX_SEED}.`)
+  }
+  return { timing, velocity, seed }
+}
+
+const parseFeel = (value: unknown): PlaybackFeel => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError('feel must be an object with swing and humanize.')
+  }
+  return {
+    swing: parseSwing(value.swing, 'feel.swing'),
+    humanize: parseHumanize(value.humanize, 'feel.humanize'),
+  }
+}
+
+const parseForm = (value: unknown, path: string): MeasureForm | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object.`)
+  }
+  const { section, repeatStart, repeatEnd, ending, segno, coda, toCoda, fine, jump } = value
+  if (section !== undefined && (typeof section !== 'string' || section.length > MAX_SECTION_LENGTH)) {
+    throw new SheetFormatError(`${path}.section must be text of at most ${MAX_SECTION_LENGTH} characters.`)
+  }
+  if (repeatEnd !== undefined && (!isInteger(repeatEnd) || repeatEnd < 2)) {
+    throw new SheetFormatError(`${path}.repeatEnd must be a whole number of plays, 2 or more.`)
+  }
+  if (
+    ending !== undefined &&
+    (!Array.isArray(ending) || !ending.every((pass) => isInteger(pass) && pass >= 1))
+  ) {
+    throw new SheetFormatError(`${path}.ending must be an array of pass numbers from 1.`)
+  }
+  if (jump !== undefined && !isFormJump(jump)) {
+    throw new SheetFormatError(`${path}.jump "${String(jump)}" is not a known jump.`)
+  }
+  const flags = { repeatStart, segno, coda, toCoda, fine }
+  Object.entries(flags).forEach(([key, flag]) => {
+    if (!isFlag(flag)) {
+      throw new SheetFormatError(`${path}.${key} must be true or false.`)
+    }
+  })
+  return cleanForm({
+    section,
+    repeatStart: repeatStart === true,
+    repeatEnd,
+    ending: ending ? [...new Set<number>(ending)].sort((a, b) => a - b) : undefined,
+    segno: segno === true,
+    coda: coda === true,
+    toCoda: toCoda === true,
+    fine: fine === true,
+    jump,
+    swing: value.swing === undefined ? undefined : parseSwing(value.swing, `${path}.swing`),
+  })
+}
+
+const parseTempoMark = (value: unknown, path: string): TempoMark | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object with bpm.`)
+  }
+  const { bpm, ramp } = value
+  if (!isWholeNumberIn(bpm, TEMPO.min, TEMPO.max)) {
+    throw new SheetFormatError(`${path}.bpm must be a whole number from ${TEMPO.min} to ${TEMPO.max}.`)
+  }
+  if (!isFlag(ramp)) {
+    throw new SheetFormatError(`${path}.ramp must be true or false.`)
+  }
+  return ramp ? { bpm, ramp } : { bpm }
+}
+
+const parseVoices = (value: unknown): NoteRowId[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new SheetFormatError('voices must be a non-empty array of voice ids.')
+  }
+  value.forEach((voice, index) => {
+    if (!isNoteRowId(voice)) {
+      throw new SheetFormatError(`voices[${index}] "${String(voice)}" is not a known voice.`)
+    }
+  })
+  return value as NoteRowId[]
+}
+
+const parseMeasure = (value: unknown, path: string): Measure => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError(`${path} must be an object.`)
+  }
+  const { subdivisions, notes, rests } = value
+  const timeSignature = parseTimeSignature(value.timeSignature, `${path}.timeSignature`)
+  if (!isInteger(subdivisions) || subdivisions < 1) {
+    throw new SheetFormatError(`${path}.subdivisions must be a positive whole number.`)
+  }
+  if (!Array.isArray(notes)) {
+    throw new SheetFormatError(`${path}.notes must be an array.`)
+  }
+  if (!Array.isArray(rests)) {
+    throw new SheetFormatError(`${path}.rests must be an array.`)
+  }
+  const parsed = notes.map((note, index) => parseNote(note, `${path}.notes[${index}]`, subdivisions))
+  const seen = new Set<string>()
+  parsed.forEach((note, index) => {
+    const key = `${note.column}:${note.rowId}`
+    if (seen.has(key)) {
+      throw new SheetFormatError(`${path}.notes[${index}] duplicates another note on the same step and voice.`)
+    }
+    seen.add(key)
+  })
+  const parsedRests = rests
+    .map((rest, index) => parseRest(rest, `${path}.rests[${index}]`, subdivisions))
+    .sort((a, b) => a.column - b.column)
+  const form = parseForm(value.form, `${path}.form`)
+  const tempo = parseTempoMark(value.tempo, `${path}.tempo`)
+  const measure: Measure = { timeSignature, subdivisions, notes: parsed.sort(compareNotes), rests: parsedRests }
+  return { ...measure, ...(form ? { form } : {}), ...(tempo ? { tempo } : {}) }
+}
+
+export const parseSheetDocument = (value: unknown): DrumSheet => {
+  if (!isRecord(value)) {
+    throw new SheetFormatError('A drum sheet must be a JSON object.')
+  }
+  if (value.format !== SHEET_FORMAT_ID) {
+    throw new SheetFormatError('This file is not a drum sheet.')
+  }
+  const { version } = value
+  if (!isInteger(version) || version < 1) {
+    throw new SheetFormatError('The sheet is missing a valid format version.')
+  }
+  if (version > SHEET_FORMAT_VERSION) {
+    throw new SheetFormatError(
+      `The sheet uses format version ${version}, but this app only reads up to version ${SHEET_FORMAT_VERSION}.`,
+    )
+  }
+
+  const document = migrateDocument(value, version)
+  const { title, tempo, measures } = document
+  const voices = parseVoices(document.voices)
+
+  if (title !== undefined && typeof title !== 'string') {
+    throw new SheetFormatError('title must be a string.')
+  }
+  if (typeof tempo !== 'number' || !Number.isFinite(tempo) || tempo <= 0) {
+    throw new SheetFormatError('tempo must be a positive number of beats per minute.')
+  }
+  if (!Array.isArray(measures) || measures.length === 0) {
+    throw new SheetFormatError('measures must be a non-empty array.')
+  }
+
+  const parsedMeasures = measures.map((measure, index) => parseMeasure(measure, `measures[${index}]`))
+  return {
+    title: title?.trim() || DEFAULT_TITLE,
+    tempo: clampTempo(tempo),
+    voices: sortVoices([...voices, ...voicesInUse(parsedMeasures)]),
+    measures: parsedMeasures,
+    feel: parseFeel(document.feel),
+  }
+}
+
+export const parseSheet = (text: string): DrumSheet => {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new SheetFormatError('The file is not valid JSON.')
+  }
+  return parseSheetDocument(value)
+}
+
+export const toSheetDocument = (sheet: DrumSheet) => ({
+  format: SHEET_FORMAT_ID,
+  version: SHEET_FORMAT_VERSION,
+  title: sheet.title,
+  tempo: sheet.tempo,
+  voices: [...sheet.voices],
+  measures: sheet.measures.map((measure) => ({
+    timeSignature: { ...measure.timeSignature },
+    subdivisions: measure.subdivisions,
+    notes: measure.notes.map(({ column, rowId, duration, articulation }) =>
+      articulation ? { column, rowId, duration, articulation } : { column, rowId, duration },
+    ),
+    rests: measure.rests.map(({ column, duration, stem }) => ({ column, duration, stem })),
+    ...(measure.form ? { form: { ...measure.form } } : {}),
+    ...(measure.tempo ? { tempo: { ...measure.tempo } } : {}),
+  })),
+  feel: {
+    swing: { ...sheet.feel.swing },
+    humanize: { ...sheet.feel.humanize },
+  },
+})
+
+export const serializeSheet = (sheet: DrumSheet) =>
+  JSON.stringify(toSheetDocument(sheet), null, 2)
@@ -0,0 +1,183 @@
+import { createEmptySheet } from './sheet'
+import type { DrumSheet } from './sheet'
+import { parseSheet, toSheetDocument } from './sheetFormat'
+
+export type LibraryEntry = {
+  id: string
+  title: string
+  updatedAt: number
+}
+
+type LibraryIndex = {
+  version: 1
+  lastOpenedId: string | null
+  entries: LibraryEntry[]
+}
+
+const INDEX_KEY = 'drumsheet:library'
+const SHEET_KEY_PREFIX = 'drumsheet:sheet:'
+
+export class SheetStorageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SheetStorageError'
+  }
+}
+
+const sheetKey = (id: string) => `${SHEET_KEY_PREFIX}${id}`
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22)
+
+const getStorage = () => {
+  try {
+    return window.localStorage
+  } catch {
+    // Access throws when storage is disabled (e.g. some private modes).
+    return null
+  }
+}
+
+const writeItem = (key: string, value: string) => {
+  const storage = getStorage()
+  if (!storage) {
+    throw new SheetStorageError('Browser storage is unavailable, so changes are not being saved.')
+  }
+  try {
+    storage.setItem(key, value)
+  } catch (error) {
+    if (isQuotaError(error)) {
+      throw new SheetStorageError(
+        'Browser storage is full. Delete some sheets or save this one to a file.',
+      )
+    }
+    throw new SheetStorageError('Saving to browser storage failed.')
+  }
+}
+
+const emptyIndex = (): LibraryIndex => ({ version: 1, lastOpenedId: null, entries: [] })
+
+export const createSheetId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+const readLibraryIndex = (): LibraryIndex => {
+  const raw = getStorage()?.getItem(INDEX_KEY)
+  if (!raw) {
+    return emptyIndex()
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<LibraryIndex>
+    if (!Array.isArray(parsed.entries)) {
+      return emptyIndex()
+    }
+    const entries = parsed.entries.filter(
+      (entry): entry is LibraryEntry =>
+        typeof entry?.id === 'string' &&
+        typeof entry.title === 'string' &&
+        typeof entry.updatedAt === 'number',
+    )
+    return {
+      version: 1,
+      lastOpenedId: typeof parsed.lastOpenedId === 'string' ? parsed.lastOpenedId : null,
+      entries,
+    }
+  } catch {
+    return emptyIndex()
+  }
+}
+
+const writeLibraryIndex = (index: LibraryIndex) => {
+  writeItem(INDEX_KEY, JSON.stringify(index))
+}
+
+const sortEntries = (entries: LibraryEntry[]) =>
+  [...entries].sort((a, b) => b.updatedAt - a.updatedAt)
+
+const updateIndex = (update: (index: LibraryIndex) => LibraryIndex) => {
+  const next = update(readLibraryIndex())
+  const index = { ...next, entries: sortEntries(next.entries) }
+  writeLibraryIndex(index)
+  return index.entries
+}
+
+const upsertEntry = (entries: LibraryEntry[], entry: LibraryEntry) => [
+  ...entries.filter((item) => item.id !== entry.id),
+  entry,
+]
+
+export const serializeForStorage = (sheet: DrumSheet) => JSON.stringify(toSheetDocument(sheet))
+
+export const readStoredSheet = (id: string): DrumSheet | null => {
+  const raw = getStorage()?.getItem(sheetKey(id))
+  if (!raw) {
+    return null
+  }
+  try {
+    return parseSheet(raw)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Picks the sheet to show on startup: the last one opened, then the most
+ * recently edited one, and finally a fresh sheet that is stored on first save.
+ */
+export const restoreLastSession = () => {
+  const index = readLibraryIndex()
+  const candidates = [
+    index.lastOpenedId,
+    ...sortEntries(index.entries).map((entry) => entry.id),
+  ].filter((id): id is string => id !== null)
+  for (const id of candidates) {
+    const sheet = readStoredSheet(id)
+    if (sheet) {
+      return { id, sheet, entries: sortEntries(index.entries) }
+    }
+  }
+  return { id: createSheetId(), sheet: createEmptySheet(), entries: sortEntries(index.entries) }
+}
+
+const storeSheet = (id: string, sheet: DrumSheet, lastOpenedId?: string) => {
+  writeItem(sheetKey(id), serializeForStorage(sheet))
+  return updateIndex((index) => ({
+    ...index,
+    lastOpenedId: lastOpenedId ?? index.lastOpenedId,
+    entries: upsertEntry(index.entries, { id, title: sheet.title, updatedAt: Date.now() }),
+  }))
+}
+
+const requireStoredSheet = (id: string) => {
+  const sheet = readStoredSheet(id)
+  if (!sheet) {
+    throw new SheetStorageError('That sheet is no longer in browser storage.')
+  }
+  return sheet
+}
+
+export const saveLibrarySheet = (id: string, sheet: DrumSheet) => storeSheet(id, sheet, id)
+
+export const markSheetOpened = (id: string) =>
+  updateIndex((index) => ({ ...index, lastOpenedId: id }))
+
+export const renameLibrarySheet = (id: string, title: string) =>
+  storeSheet(id, { ...requireStoredSheet(id), title })
+
+export const duplicateLibrarySheet = (id: string) => {
+  const sheet = requireStoredSheet(id)
+  return storeSheet(createSheetId(), { ...sheet, title: `${sheet.title} (copy)` })
+}
+
+export const deleteLibrarySheet = (id: string) => {
+  getStorage()?.removeItem(sheetKey(id))
+  return updateIndex((index) => ({
+    ...index,
+    lastOpenedId: index.lastOpenedId === id ? null : index.lastOpenedId,
+    entries: index.entries.filter((entry) => entry.id !== id),
+  }))
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyMeasure } from './sheet'
+import type { MeasureForm } from './sheet'
+import { orderStepFor, performanceOrder, withForm } from './songForm'
+
+const measuresWith = (forms: MeasureForm[]) =>
+  forms.map((form) => withForm(createEmptyMeasure(), form))
+
+describe('orderStepFor', () => {
+  // |: 0 | 1 (1st ending) :| 2 (3rd ending, never reached) | 3
+  const voltas = measuresWith([
+    { repeatStart: true },
+    { ending: [1], repeatEnd: 2 },
+    { ending: [3] },
+    {},
+  ])
+  // 0 | 1 Fine | 2 D.C. al Fine | 3, never reached
+  const daCapo = measuresWith([{}, { fine: true }, { jump: 'dc-al-fine' }, {}])
+
+  it('follows the orders these forms play', () => {
+    expect(performanceOrder(voltas)).toEqual([0, 1, 0, 3])
+    expect(performanceOrder(daCapo)).toEqual([0, 1, 2, 0, 1])
+  })
+
+  it('gives each pass through a repeat its own step', () => {
+    const order = performanceOrder(daCapo)
+    expect(orderStepFor(order, 0, 0)).toBe(0)
+    expect(orderStepFor(order, 0, 1)).toBe(3)
+    expect(orderStepFor(order, 1, 4)).toBe(4)
+  })
+
+  it('starts over at the top once the order runs out', () => {
+    expect(orderStepFor(performanceOrder(daCapo), 0, 5)).toBe(0)
+  })
+
+  it('counts a measure the order skips as the step that follows it', () => {
+    const order = performanceOrder(voltas)
+    expect(orderStepFor(order, 2, 2)).toBe(3)
+    expect(orderStepFor(order, 2, 4)).toBe(3)
+  })
+
+  it('puts a measure after the end of the order at the end, never before the start', () => {
+    const order = performanceOrder(daCapo)
+    expect(orderStepFor(order, 3, 0)).toBe(order.length)
+    expect(orderStepFor(order, 3, 2)).toBe(order.length)
+  })
+})
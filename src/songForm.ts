@@ -0,0 +1,186 @@
+import { FORM_JUMPS } from './sheet'
+import type { FormJump, Measure, MeasureForm } from './sheet'
+
+// Song form: rehearsal marks, repeats, voltas and D.C./D.S. jumps written on
+// measures, and the order the measures are played in once those are followed.
+
+export const MAX_SECTION_LENGTH = 16
+// Total plays a repeat sign can ask for; 2 is the plain sign.
+export const REPEAT_PLAY_OPTIONS = [2, 3, 4, 5, 6, 7, 8] as const
+export const ENDING_OPTIONS: number[][] = [[1], [2], [3], [4], [1, 2], [2, 3], [1, 2, 3]]
+
+const jumpsById = new Map(FORM_JUMPS.map((jump) => [jump.id, jump]))
+
+export const jumpLabel = (jump: FormJump) => jumpsById.get(jump)?.label ?? jump
+
+/** Where a jump goes back to: the start of the piece or the segno. */
+export const jumpTarget = (jump: FormJump) => jumpsById.get(jump)?.target ?? 'start'
+
+/** Volta label the way it is printed under the bracket, e.g. "1., 2." */
+export const formatEnding = (ending: number[]) => ending.map((pass) => `${pass}.`).join(', ')
+
+const sameEnding = (a: number[] | undefined, b: number[] | undefined) =>
+  a !== undefined && b !== undefined && a.length === b.length && a.every((pass, index) => pass === b[index])
+
+/** Whether a measure's volta bracket carries on from the measure before it. */
+export const continuesEnding = (measures: Measure[], index: number) =>
+  sameEnding(measures[index]?.form?.ending, measures[index - 1]?.form?.ending)
+
+/** Drops the signs that are switched off, or the whole form if none are left. */
+export const cleanForm = (merged: MeasureForm): MeasureForm | undefined => {
+  const form: MeasureForm = {}
+  if (merged.section?.trim()) {
+    form.section = merged.section.slice(0, MAX_SECTION_LENGTH)
+    if (merged.swing) {
+      form.swing = { ...merged.swing }
+    }
+  }
+  if (merged.repeatStart) {
+    form.repeatStart = true
+  }
+  if (merged.repeatEnd && merged.repeatEnd > 1) {
+    form.repeatEnd = merged.repeatEnd
+  }
+  if (merged.ending && merged.ending.length > 0) {
+    form.ending = [...merged.ending]
+  }
+  if (merged.segno) {
+    form.segno = true
+  }
+  if (merged.coda) {
+    form.coda = true
+  }
+  if (merged.toCoda) {
+    form.toCoda = true
+  }
+  if (merged.fine) {
+    form.fine = true
+  }
+  if (merged.jump) {
+    form.jump = merged.jump
+  }
+  return Object.keys(form).length > 0 ? form : undefined
+}
+
+/** Applies changes to a measure's form; an empty form is left off the measure. */
+export const withForm = (measure: Measure, changes: MeasureForm): Measure => {
+  const form = cleanForm({ ...measure.form, ...changes })
+  const next = { ...measure, form }
+  if (!form) {
+    delete next.form
+  }
+  return next
+}
+
+// After a D.C. or D.S. only the last volta of each bracket run is played:
+// the one that doesn't send the player back with a repeat sign.
+const isFinalEnding = (measures: Measure[], index: number) => {
+  let last = index
+  while (continuesEnding(measures, last + 1)) {
+    last += 1
+  }
+  return !measures[last].form?.repeatEnd
+}
+
+const firstMarked = (measures: Measure[], from: number, sign: 'segno' | 'coda') => {
+  const after = measures.findIndex((measure, index) => index >= from && measure.form?.[sign])
+  return after >= 0 ? after : measures.findIndex((measure) => measure.form?.[sign])
+}
+
+/**
+ * The measure indices in the order they are played: repeats go round as
+ * often as their sign asks, voltas pick the measures for each pass, and a
+ * D.C. or D.S. is taken once, on to Fine or to the Coda. As is usual, the
+ * repeats are not taken again after the jump. Every jump back is bounded, so
+ * any combination of signs comes to an end.
+ */
+export const performanceOrder = (measures: Measure[]) => {
+  const order: number[] = []
+  // Passes already played, keyed by the measure with the repeat-end sign.
+  const passesPlayed = new Map<number, number>()
+  let repeatFrom = 0
+  let pass = 1
+  let jumpTaken = false
+  let returning: FormJump | null = null
+  let index = 0
+  while (index < measures.length) {
+    const form = measures[index].form ?? {}
+    if (form.repeatStart && index !== repeatFrom) {
+      repeatFrom = index
+      pass = 1
+    }
+    if (form.ending) {
+      const plays = returning ? isFinalEnding(measures, index) : form.ending.includes(pass)
+      if (!plays) {
+        index += 1
+        continue
+      }
+    } else if (measures[index - 1]?.form?.ending) {
+      // Past the voltas the next repeat starts counting again.
+      pass = 1
+    }
+    order.push(index)
+
+    const until = returning ? jumpsById.get(returning)?.until : null
+    if (until === 'coda' && form.toCoda) {
+      const coda = firstMarked(measures, index + 1, 'coda')
+      if (coda > index) {
+        // The coda is played through with its own repeats.
+        returning = null
+        repeatFrom = coda
+        pass = 1
+        index = coda
+        continue
+      }
+    }
+    if (until === 'fine' && form.fine) {
+      break
+    }
+    if (form.repeatEnd && !returning) {
+      const played = passesPlayed.get(index) ?? 1
+      if (played < form.repeatEnd) {
+        passesPlayed.set(index, played + 1)
+        pass = played + 1
+        index = repeatFrom
+        continue
+      }
+      repeatFrom = index + 1
+      pass = 1
+    }
+    if (form.jump && !jumpTaken) {
+      const target = jumpTarget(form.jump) === 'segno' ? firstMarked(measures, 0, 'segno') : 0
+      jumpTaken = true
+      returning = form.jump
+      repeatFrom = Math.max(target, 0)
+      pass = 1
+      index = repeatFrom
+      continue
+    }
+    index += 1
+  }
+  return order
+}
+
+/**
+ * The step of the performance `order` a measure played out of order counts
+ * as, such as the next measure of a practice loop. The search runs on from
+ * `fromStep`, so each pass through a repeat gets its own step, and starts
+ * over at the top once the order runs out. A measure the order never plays,
+ * like a skipped volta or one after Fine, takes the nearest step that
+ * follows it, or the end of the order.
+ */
+export const orderStepFor = (order: number[], measureIndex: number, fromStep: number) => {
+  const later = order.indexOf(measureIndex, fromStep)
+  if (later >= 0) {
+    return later
+  }
+  const first = order.indexOf(measureIndex)
+  if (first >= 0) {
+    return first
+  }
+  const following = (from: number) =>
+    order.findIndex((index, step) => step >= from && index > measureIndex)
+  const next = following(fromStep)
+  const wrapped = next >= 0 ? next : following(0)
+  return wrapped >= 0 ? wrapped : order.length
+}
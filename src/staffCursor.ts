@@ -0,0 +1,145 @@
+import { gridColumns, snapColumn } from './measureEditing'
+import { ARTICULATIONS, beatLengths, rowsById } from './sheet'
+import type { Measure, NoteRow, NoteRowId } from './sheet'
+
+// The keyboard's place on the staff: a grid column of one measure and the
+// staff position of one voice.
+export type StaffCursor = {
+  measureIndex: number
+  column: number
+  rowId: NoteRowId
+}
+
+const gridLines = (measure: Measure, gridSteps: number) =>
+  gridColumns(measure, gridSteps).map((line) => line.column)
+
+/**
+ * Keeps a cursor on the sheet after edits: inside the measures, on a grid
+ * line of the current note length, and on a voice the staff shows.
+ */
+export const clampCursor = (
+  cursor: StaffCursor,
+  measures: Measure[],
+  rows: NoteRow[],
+  gridSteps: number,
+): StaffCursor => {
+  const measureIndex = Math.min(Math.max(cursor.measureIndex, 0), measures.length - 1)
+  const measure = measures[measureIndex]
+  const current = rowsById.get(cursor.rowId)
+  const row =
+    rows.find((candidate) => candidate.id === cursor.rowId) ??
+    rows.find((candidate) => candidate.row === current?.row) ??
+    rows[0]
+  return {
+    measureIndex,
+    column: snapColumn(measure, cursor.column, gridSteps),
+    rowId: row?.id ?? cursor.rowId,
+  }
+}
+
+/** One grid line left or right, crossing into the neighbouring measure at either end. */
+export const stepCursor = (
+  cursor: StaffCursor,
+  measures: Measure[],
+  gridSteps: number,
+  direction: -1 | 1,
+): StaffCursor => {
+  const lines = gridLines(measures[cursor.measureIndex], gridSteps)
+  const next =
+    direction > 0
+      ? lines.find((column) => column > cursor.column)
+      : [...lines].reverse().find((column) => column < cursor.column)
+  if (next !== undefined) {
+    return { ...cursor, column: next }
+  }
+  const measureIndex = cursor.measureIndex + direction
+  if (measureIndex < 0 || measureIndex >= measures.length) {
+    return cursor
+  }
+  const neighbour = gridLines(measures[measureIndex], gridSteps)
+  return {
+    ...cursor,
+    measureIndex,
+    column: direction > 0 ? neighbour[0] : neighbour[neighbour.length - 1],
+  }
+}
+
+/** The first or last grid line of a measure. */
+export const measureEdge = (
+  cursor: StaffCursor,
+  measures: Measure[],
+  measureIndex: number,
+  gridSteps: number,
+  edge: 'start' | 'end',
+): StaffCursor => {
+  const index = Math.min(Math.max(measureIndex, 0), measures.length - 1)
+  const lines = gridLines(measures[index], gridSteps)
+  return { ...cursor, measureIndex: index, column: edge === 'start' ? lines[0] : lines[lines.length - 1] }
+}
+
+/** The same place in another measure, as near as its grid allows. */
+export const jumpMeasures = (
+  cursor: StaffCursor,
+  measures: Measure[],
+  gridSteps: number,
+  count: number,
+): StaffCursor => {
+  const measureIndex = Math.min(Math.max(cursor.measureIndex + count, 0), measures.length - 1)
+  return {
+    ...cursor,
+    measureIndex,
+    column: snapColumn(measures[measureIndex], cursor.column, gridSteps),
+  }
+}
+
+/** The next voice up or down the staff, staying put at the top and bottom. */
+export const stepVoice = (cursor: StaffCursor, rows: NoteRow[], direction: -1 | 1) => {
+  const ordered = [...rows].sort((a, b) => a.row - b.row)
+  const index = ordered.findIndex((row) => row.id === cursor.rowId)
+  const next = ordered[Math.min(Math.max(index + direction, 0), ordered.length - 1)]
+  return next ? { ...cursor, rowId: next.id } : cursor
+}
+
+const GRID_NAMES: Record<number, string> = {
+  2: 'sixteenth triplet',
+  3: 'sixteenth',
+  4: 'eighth triplet',
+}
+
+/** Where a column falls in its measure, counted the way a drummer would. */
+export const describeBeatPosition = (measure: Measure, column: number, gridSteps: number) => {
+  let beatStart = 0
+  let beat = 0
+  const lengths = beatLengths(measure.timeSignature)
+  const fallback = lengths[lengths.length - 1] ?? measure.subdivisions
+  while (column >= beatStart + (lengths[beat] ?? fallback)) {
+    beatStart += lengths[beat] ?? fallback
+    beat += 1
+  }
+  const offset = column - beatStart
+  if (offset === 0) {
+    return `beat ${beat + 1}`
+  }
+  const unit = offset % gridSteps === 0 ? gridSteps : 1
+  const name = GRID_NAMES[unit] ?? 'step'
+  return `beat ${beat + 1}, ${name} ${offset / unit + 1}`
+}
+
+const articulationLabels = new Map<string, string>(
+  ARTICULATIONS.map((articulation) => [articulation.id, articulation.label.toLowerCase()]),
+)
+
+/** What sounds or rests at a column, for screen readers. */
+export const describeColumnContents = (measure: Measure, column: number) => {
+  const notes = measure.notes
+    .filter((note) => note.column === column)
+    .map((note) => {
+      const name = rowsById.get(note.rowId)?.name ?? note.rowId
+      return note.articulation ? `${name} (${articulationLabels.get(note.articulation)})` : name
+    })
+  const rests = measure.rests
+    .filter((rest) => rest.column === column)
+    .map((rest) => (rest.stem === 'up' ? 'hands rest' : 'feet rest'))
+  const contents = [...notes, ...rests]
+  return contents.length > 0 ? contents.join(', ') : 'empty'
+}
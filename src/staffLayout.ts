@@ -0,0 +1,232 @@
+import { engraveMeasure } from './engraving'
+import type { EngravedBeam, EngravedChord } from './engraving'
+import {
+  DEFAULT_SUBDIVISIONS,
+  NOTE_ROWS,
+  STEPS_PER_SIXTEENTH,
+  sameTimeSignature,
+} from './sheet'
+import type { Measure, MeasureForm, MeasureRest, TempoMark, TimeSignature } from './sheet'
+import { continuesEnding } from './songForm'
+import { rampLabel } from './timing'
+
+// Geometry of one staff row in SVG user units. The editor scales rows with
+// its zoom slider; exports draw them at this size.
+export const STAFF = {
+  width: 920,
+  paddingX: 72,
+  paddingY: 100,
+  lineSpacing: 28,
+  lines: 5,
+  subdivisions: DEFAULT_SUBDIVISIONS,
+} as const
+
+// Rows hold up to this many measures; a rehearsal mark always starts a new row.
+export const MEASURES_PER_ROW = 4
+
+const baseContentWidth = STAFF.width - STAFF.paddingX * 2
+// Width of one step; a 4/4 measure's sixteenths fill the base content width.
+export const COLUMN_STEP = baseContentWidth / (STAFF.subdivisions - STEPS_PER_SIXTEENTH)
+// Barlines and measure edges sit half a sixteenth before the first step.
+export const HALF_GAP = STEPS_PER_SIXTEENTH / 2
+export const topLineY = STAFF.paddingY
+export const noteStep = STAFF.lineSpacing / 2
+export const staffHeight =
+  STAFF.paddingY * 2 + STAFF.lineSpacing * (STAFF.lines - 1)
+
+// Engraving sizes: a note head is about 17px across and its stem stands at
+// the head's edge.
+export const HEAD_WIDTH = 17
+export const STEM_OFFSET = 8
+export const BEAM_THICKNESS = 5
+export const BEAM_SPACING = 8
+export const BEAM_HOOK = 10
+
+export const xForColumnInRow = (column: number, rowStart: number) =>
+  STAFF.paddingX + (column - rowStart) * COLUMN_STEP
+export const yForRow = (row: number) => topLineY + (row - 1) * noteStep
+export const gridTopY = yForRow(Math.min(...NOTE_ROWS.map((row) => row.row))) - noteStep
+export const gridBottomY = yForRow(Math.max(...NOTE_ROWS.map((row) => row.row))) + noteStep
+export const beatLabelY = topLineY - STAFF.lineSpacing * 2.8
+
+// Ledger lines sit on the odd positions outside the five staff lines (1-9).
+export const ledgerRowsFor = (row: number) => {
+  const ledgers: number[] = []
+  for (let ledger = -1; ledger >= row; ledger -= 2) {
+    ledgers.push(ledger)
+  }
+  for (let ledger = 11; ledger <= row; ledger += 2) {
+    ledgers.push(ledger)
+  }
+  return ledgers
+}
+
+export const computeRowWidth = (subdivisions: number) =>
+  STAFF.paddingX * 2 + COLUMN_STEP * Math.max(subdivisions - STEPS_PER_SIXTEENTH, 0)
+
+export type MeasureOffset = {
+  start: number
+  subdivisions: number
+}
+
+export type StaffRowLayout = {
+  rowIndex: number
+  start: number
+  subdivisions: number
+  measureStartIndex: number
+  measureCount: number
+}
+
+// The song-form signs of one measure, placed by the global columns of its
+// front and back edges.
+export type FormMark = {
+  start: number
+  end: number
+  rowStart: boolean
+  rowEnd: boolean
+  form: MeasureForm
+  // Whether a volta bracket opens or closes on this measure rather than
+  // carrying on into its neighbour.
+  opensEnding: boolean
+  closesEnding: boolean
+}
+
+// A metronome mark at the front of a measure, with "accel." or "rit." when
+// it ramps to the next one.
+export type TempoMarkLayout = {
+  position: number
+  rowStart: boolean
+  mark: TempoMark
+  ramp: string | null
+}
+
+// Everything drawn on a row that comes from the sheet itself, in the row's
+// global columns.
+export type RowNotation = {
+  barlines: number[]
+  meters: Array<{ position: number; timeSignature: TimeSignature; rowStart: boolean }>
+  chords: EngravedChord[]
+  beams: EngravedBeam[]
+  rests: MeasureRest[]
+  forms: FormMark[]
+  tempos: TempoMarkLayout[]
+}
+
+/** Lays measures end to end, giving each its first global column. */
+export const measureOffsetsFor = (measures: Measure[]) => {
+  const offsets: MeasureOffset[] = []
+  let cursor = 0
+  measures.forEach((measure) => {
+    offsets.push({ start: cursor, subdivisions: measure.subdivisions })
+    cursor += measure.subdivisions
+  })
+  return offsets
+}
+
+export const layoutRows = (measures: Measure[], offsets: MeasureOffset[]) => {
+  const rows: StaffRowLayout[] = []
+  let measureStartIndex = 0
+  while (measureStartIndex < measures.length) {
+    let measureCount = 1
+    while (
+      measureCount < MEASURES_PER_ROW &&
+      measureStartIndex + measureCount < measures.length &&
+      !measures[measureStartIndex + measureCount].form?.section
+    ) {
+      measureCount += 1
+    }
+    const slice = measures.slice(measureStartIndex, measureStartIndex + measureCount)
+    rows.push({
+      rowIndex: rows.length,
+      start: offsets[measureStartIndex]?.start ?? 0,
+      subdivisions: slice.reduce((total, measure) => total + measure.subdivisions, 0),
+      measureStartIndex,
+      measureCount,
+    })
+    measureStartIndex += measureCount
+  }
+  return rows
+}
+
+/**
+ * Engraves the measures of one row and collects its barlines, plus a meter
+ * glyph wherever the meter changes or the row starts.
+ */
+export const notateRow = (
+  measures: Measure[],
+  offsets: MeasureOffset[],
+  row: StaffRowLayout,
+): RowNotation => {
+  const notation: RowNotation = {
+    barlines: [],
+    meters: [],
+    chords: [],
+    beams: [],
+    rests: [],
+    forms: [],
+    tempos: [],
+  }
+  const rowEnd = row.measureStartIndex + row.measureCount - 1
+  for (let index = row.measureStartIndex; index < row.measureStartIndex + row.measureCount; index += 1) {
+    const measure = measures[index]
+    const offset = offsets[index]
+    if (!measure || !offset) {
+      continue
+    }
+    const isRowStart = index === row.measureStartIndex
+    if (!isRowStart) {
+      notation.barlines.push(offset.start)
+    }
+    const previous = measures[index - 1]
+    if (isRowStart || !previous || !sameTimeSignature(previous.timeSignature, measure.timeSignature)) {
+      notation.meters.push({
+        position: offset.start,
+        timeSignature: measure.timeSignature,
+        rowStart: isRowStart,
+      })
+    }
+    const engraved = engraveMeasure(measure, offset.start)
+    notation.chords.push(...engraved.chords)
+    notation.beams.push(...engraved.beams)
+    measure.rests.forEach((rest) => {
+      notation.rests.push({ ...rest, column: offset.start + rest.column })
+    })
+    if (measure.form) {
+      notation.forms.push({
+        start: offset.start,
+        end: offset.start + measure.subdivisions,
+        rowStart: isRowStart,
+        rowEnd: index === rowEnd,
+        form: measure.form,
+        opensEnding: isRowStart || !continuesEnding(measures, index),
+        closesEnding: index === rowEnd || !continuesEnding(measures, index + 1),
+      })
+    }
+    if (measure.tempo) {
+      notation.tempos.push({
+        position: offset.start,
+        rowStart: isRowStart,
+        mark: measure.tempo,
+        ramp: rampLabel(measures, index),
+      })
+    }
+  }
+  return notation
+}
+
+export type ScoreRow = {
+  layout: StaffRowLayout
+  notation: RowNotation
+  width: number
+}
+
+/** Every row of a sheet laid out for drawing, widest row setting the width. */
+export const layoutScore = (measures: Measure[]) => {
+  const offsets = measureOffsetsFor(measures)
+  const rows: ScoreRow[] = layoutRows(measures, offsets).map((layout) => ({
+    layout,
+    notation: notateRow(measures, offsets, layout),
+    width: computeRowWidth(layout.subdivisions),
+  }))
+  return { rows, width: Math.max(STAFF.width, ...rows.map((row) => row.width)) }
+}
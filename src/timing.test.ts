@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyMeasure } from './sheet'
+import type { Measure, TempoMark } from './sheet'
+import { withForm } from './songForm'
+import {
+  buildMeasureTimeline,
+  measureTempos,
+  rampLabel,
+  secondsBetween,
+  secondsPerStep,
+} from './timing'
+
+const THREE_FOUR = { beats: 3, beatUnit: 4 }
+
+const marked = (tempo?: TempoMark, measure: Measure = createEmptyMeasure()): Measure =>
+  tempo ? { ...measure, tempo } : measure
+
+// The time a measure takes, summed in hundredths of a step at the tempo
+// halfway through each, to check the closed form against.
+const summedSeconds = (start: number, end: number, subdivisions: number) => {
+  const slices = subdivisions * 100
+  let seconds = 0
+  for (let slice = 0; slice < slices; slice += 1) {
+    const tempo = start + ((end - start) * (slice + 0.5)) / slices
+    seconds += secondsPerStep(tempo) / 100
+  }
+  return seconds
+}
+
+describe('secondsBetween', () => {
+  it('is the step count times the step length at a constant tempo', () => {
+    ;[60, 110, 137].forEach((bpm) => {
+      const constant = { start: bpm, end: bpm }
+      expect(secondsBetween(constant, 48, 0, 48)).toBeCloseTo(48 * secondsPerStep(bpm), 12)
+      expect(secondsBetween(constant, 36, 6, 30)).toBeCloseTo(24 * secondsPerStep(bpm), 12)
+    })
+    expect(secondsBetween({ start: 120, end: 120 }, 48, 0, 48)).toBeCloseTo(2, 12)
+  })
+
+  it('integrates a ramp', () => {
+    const accelerando = secondsBetween({ start: 100, end: 140 }, 48, 0, 48)
+    const ritardando = secondsBetween({ start: 140, end: 70 }, 36, 0, 36)
+    expect(accelerando).toBeCloseTo(summedSeconds(100, 140, 48), 6)
+    expect(ritardando).toBeCloseTo(summedSeconds(140, 70, 36), 6)
+  })
+
+  it('adds up over consecutive spans', () => {
+    const tempo = { start: 90, end: 150 }
+    const whole = secondsBetween(tempo, 48, 0, 48)
+    const parts = secondsBetween(tempo, 48, 0, 12) + secondsBetween(tempo, 48, 12, 48)
+    expect(parts).toBeCloseTo(whole, 12)
+  })
+})
+
+describe('measureTempos', () => {
+  it("uses the sheet's tempo up to the first mark and each mark after it", () => {
+    const measures = [marked(), marked(), marked({ bpm: 90 }), marked(), marked({ bpm: 160 })]
+    expect(measureTempos(measures, 110)).toEqual([
+      { start: 110, end: 110 },
+      { start: 110, end: 110 },
+      { start: 90, end: 90 },
+      { start: 90, end: 90 },
+      { start: 160, end: 160 },
+    ])
+  })
+
+  it('spreads a ramp over the measures up to the next mark without a jump at the barlines', () => {
+    const measures = [
+      marked({ bpm: 100, ramp: true }),
+      marked(undefined, createEmptyMeasure(THREE_FOUR)),
+      marked(),
+      marked(),
+      marked({ bpm: 140 }),
+    ]
+    const tempos = measureTempos(measures, 110)
+    expect(tempos[0].start).toBe(100)
+    for (let index = 1; index < 4; index += 1) {
+      expect(tempos[index].start).toBeCloseTo(tempos[index - 1].end, 12)
+    }
+    expect(tempos[3].end).toBeCloseTo(140, 12)
+    expect(tempos[4]).toEqual({ start: 140, end: 140 })
+    // 48 + 36 + 48 + 48 steps; the 3/4 measure takes its share by length.
+    expect(tempos[1]).toEqual({ start: 100 + (40 * 48) / 180, end: 100 + (40 * 84) / 180 })
+    expect(rampLabel(measures, 0)).toBe('accel.')
+  })
+
+  it('holds a ramping mark that has no mark after it', () => {
+    const measures = [marked(), marked({ bpm: 80, ramp: true }), marked(), marked()]
+    expect(measureTempos(measures, 120).slice(1)).toEqual([
+      { start: 80, end: 80 },
+      { start: 80, end: 80 },
+      { start: 80, end: 80 },
+    ])
+    expect(rampLabel(measures, 1)).toBeNull()
+  })
+})
+
+describe('buildMeasureTimeline', () => {
+  it('lays the measures out in the order the song form plays them', () => {
+    // |: 0 (90 bpm) | 1 :| 2 (3/4, 120 bpm)
+    const measures = [
+      withForm(marked({ bpm: 90 }), { repeatStart: true }),
+      withForm(marked(), { repeatEnd: 2 }),
+      marked({ bpm: 120 }, createEmptyMeasure(THREE_FOUR)),
+    ]
+    const timeline = buildMeasureTimeline(measures, 110)
+    const bar = 48 * secondsPerStep(90)
+    expect(timeline.map((timing) => timing.measureIndex)).toEqual([0, 1, 0, 1, 2])
+    expect(timeline.map((timing) => timing.startColumn)).toEqual([0, 48, 96, 144, 192])
+    timeline.slice(0, 4).forEach((timing, index) => {
+      expect(timing.startSeconds).toBeCloseTo(index * bar, 12)
+      expect(timing.durationSeconds).toBeCloseTo(bar, 12)
+    })
+    expect(timeline[4].startSeconds).toBeCloseTo(4 * bar, 12)
+    expect(timeline[4].durationSeconds).toBeCloseTo(1.5, 12)
+  })
+})
@@ -0,0 +1,131 @@
+import { STEPS_PER_QUARTER } from './sheet'
+import type { Measure } from './sheet'
+import { performanceOrder } from './songForm'
+
+// The tempo at the front and back edges of a measure, in quarter notes per
+// minute. Between them it changes evenly with every step, which is also how
+// a ramp spread over several measures is split between them.
+export type MeasureTempo = {
+  start: number
+  end: number
+}
+
+export type MeasureTiming = {
+  measureIndex: number
+  startColumn: number
+  startSeconds: number
+  subdivisions: number
+  tempo: MeasureTempo
+  durationSeconds: number
+}
+
+// Tempo is always given in quarter notes per minute, whatever the meter.
+export const secondsPerStep = (tempo: number) => 60 / tempo / STEPS_PER_QUARTER
+
+// Very short notes still get long enough to hear their attack.
+const MIN_NOTE_SECONDS = 0.05
+
+/** How long a note of `duration` steps rings, live or offline. */
+export const noteSeconds = (duration: number, stepSeconds: number) =>
+  Math.max(duration * stepSeconds, MIN_NOTE_SECONDS)
+
+/**
+ * The tempo map of the written measures: the sheet's tempo up to the first
+ * mark, then each mark's tempo until the next one. A ramping mark glides in
+ * a straight line, step by step, to the next mark's tempo; without a next
+ * mark it simply holds.
+ */
+export const measureTempos = (measures: Measure[], tempo: number): MeasureTempo[] => {
+  const starts: number[] = []
+  let column = 0
+  measures.forEach((measure) => {
+    starts.push(column)
+    column += measure.subdivisions
+  })
+  const marks = measures.flatMap((measure, index) =>
+    measure.tempo ? [{ index, mark: measure.tempo }] : [],
+  )
+  const tempos: MeasureTempo[] = measures.map(() => ({ start: tempo, end: tempo }))
+  marks.forEach(({ index: from, mark }, order) => {
+    const next = marks[order + 1]
+    const target = next && mark.ramp ? next.mark.bpm : mark.bpm
+    const rampSteps = (next ? starts[next.index] : column) - starts[from]
+    const at = (position: number) =>
+      rampSteps > 0 ? mark.bpm + ((target - mark.bpm) * (position - starts[from])) / rampSteps : mark.bpm
+    for (let index = from; index < (next?.index ?? measures.length); index += 1) {
+      tempos[index] = { start: at(starts[index]), end: at(starts[index] + measures[index].subdivisions) }
+    }
+  })
+  return tempos
+}
+
+/**
+ * Seconds from column `from` to column `to` of a measure, following its
+ * tempo. With the tempo changing evenly per step the time is the integral
+ * of 60 / tempo, which has a closed form.
+ */
+export const secondsBetween = (
+  tempo: MeasureTempo,
+  subdivisions: number,
+  from: number,
+  to: number,
+) => {
+  const at = (column: number) => tempo.start + ((tempo.end - tempo.start) * column) / subdivisions
+  const first = at(from)
+  const last = at(to)
+  const quarters = (to - from) / STEPS_PER_QUARTER
+  if (Math.abs(last - first) < 1e-9) {
+    return (quarters * 60) / first
+  }
+  return (quarters * 60 * Math.log(last / first)) / (last - first)
+}
+
+/** How long one step lasts at `column` of the measure. */
+export const stepSecondsAt = (timing: Pick<MeasureTiming, 'tempo' | 'subdivisions'>, column: number) =>
+  secondsBetween(timing.tempo, timing.subdivisions, column, column + 1)
+
+/**
+ * Places every measure on the playback clock in the order the song form
+ * plays them, so a repeated measure appears once per pass. Measures are laid
+ * end to end using their own length in steps and the tempo map, so meter
+ * and tempo changes move later measures.
+ */
+export const buildMeasureTimeline = (measures: Measure[], tempo: number) => {
+  const tempos = measureTempos(measures, tempo)
+  const timeline: MeasureTiming[] = []
+  let column = 0
+  let seconds = 0
+  performanceOrder(measures).forEach((measureIndex) => {
+    const measure = measures[measureIndex]
+    const durationSeconds = secondsBetween(
+      tempos[measureIndex],
+      measure.subdivisions,
+      0,
+      measure.subdivisions,
+    )
+    timeline.push({
+      measureIndex,
+      startColumn: column,
+      startSeconds: seconds,
+      subdivisions: measure.subdivisions,
+      tempo: tempos[measureIndex],
+      durationSeconds,
+    })
+    column += measure.subdivisions
+    seconds += durationSeconds
+  })
+  return timeline
+}
+
+/**
+ * "accel." or "rit." for a ramping tempo mark, judged by the next mark's
+ * tempo, or null when the mark holds its tempo.
+ */
+export const rampLabel = (measures: Measure[], measureIndex: number) => {
+  const mark = measures[measureIndex]?.tempo
+  const next = measures.find((measure, index) => index > measureIndex && measure.tempo)?.tempo
+  if (!mark?.ramp || !next || next.bpm === mark.bpm) {
+    return null
+  }
+  return next.bpm > mark.bpm ? 'accel.' : 'rit.'
+}
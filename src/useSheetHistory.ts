@@ -0,0 +1,123 @@
+import { useCallback, useReducer } from 'react'
+import type { DrumSheet } from './sheet'
+
+// Snapshots share untouched measures with their neighbours, so the cap mostly
+// bounds the number of edited measure copies kept alive.
+export const HISTORY_LIMIT = 200
+const COALESCE_WINDOW_MS = 1000
+
+type SheetUpdater = (sheet: DrumSheet) => DrumSheet
+
+type HistoryEntry = {
+  label: string
+  sheet: DrumSheet
+}
+
+type HistoryState = {
+  past: HistoryEntry[]
+  present: DrumSheet
+  future: HistoryEntry[]
+  // Lets a burst of edits of the same kind (slider drags, typing) become one step.
+  lastCoalesceKey: string | null
+  lastCommitAt: number
+}
+
+type HistoryAction =
+  | { type: 'commit'; label: string; update: SheetUpdater; coalesceKey?: string; at: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; sheet: DrumSheet }
+
+export type CommitOptions = {
+  coalesceKey?: string
+}
+
+const createHistory = (sheet: DrumSheet): HistoryState => ({
+  past: [],
+  present: sheet,
+  future: [],
+  lastCoalesceKey: null,
+  lastCommitAt: 0,
+})
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'commit': {
+      const next = action.update(state.present)
+      if (next === state.present) {
+        return state
+      }
+      const coalesce =
+        action.coalesceKey !== undefined &&
+        action.coalesceKey === state.lastCoalesceKey &&
+        action.at - state.lastCommitAt < COALESCE_WINDOW_MS &&
+        state.past.length > 0
+      const past = coalesce
+        ? state.past
+        : [...state.past, { label: action.label, sheet: state.present }].slice(-HISTORY_LIMIT)
+      return {
+        past,
+        present: next,
+        future: [],
+        lastCoalesceKey: action.coalesceKey ?? null,
+        lastCommitAt: action.at,
+      }
+    }
+    case 'undo': {
+      const previous = state.past[state.past.length - 1]
+      if (!previous) {
+        return state
+      }
+      return {
+        past: state.past.slice(0, -1),
+        present: previous.sheet,
+        future: [{ label: previous.label, sheet: state.present }, ...state.future],
+        lastCoalesceKey: null,
+        lastCommitAt: 0,
+      }
+    }
+    case 'redo': {
+      const next = state.future[0]
+      if (!next) {
+        return state
+      }
+      return {
+        past: [...state.past, { label: next.label, sheet: state.present }].slice(-HISTORY_LIMIT),
+        present: next.sheet,
+        future: state.future.slice(1),
+        lastCoalesceKey: null,
+        lastCommitAt: 0,
+      }
+    }
+    case 'reset':
+      return createHistory(action.sheet)
+  }
+}
+
+/**
+ * Holds the editable sheet together with its undo/redo stacks. Every change
+ * goes through `commit`, which records the previous snapshot under a label.
+ */
+export const useSheetHistory = (initialSheet: DrumSheet) => {
+  const [state, dispatch] = useReducer(historyReducer, initialSheet, createHistory)
+
+  const commit = useCallback(
+    (label: string, update: SheetUpdater, options: CommitOptions = {}) => {
+      dispatch({ type: 'commit', label, update, coalesceKey: options.coalesceKey, at: Date.now() })
+    },
+    [],
+  )
+  const undo = useCallback(() => dispatch({ type: 'undo' }), [])
+  const redo = useCallback(() => dispatch({ type: 'redo' }), [])
+  const reset = useCallback((sheet: DrumSheet) => dispatch({ type: 'reset', sheet }), [])
+
+  return {
+    sheet: state.present,
+    commit,
+    undo,
+    redo,
+    reset,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[0]?.label ?? null,
+  }
+}
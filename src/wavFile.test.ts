@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { encodeWav } from './wavFile'
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+describe('encodeWav', () => {
+  const sampleRate = 44_100
+  const frames = 5
+  const stereo = encodeWav({
+    sampleRate,
+    channels: [new Float32Array(frames), new Float32Array(frames)],
+  })
+  const view = viewOf(stereo)
+
+  it('writes the RIFF/WAVE header of 16-bit PCM', () => {
+    expect(ascii(stereo, 0, 4)).toBe('RIFF')
+    expect(view.getUint32(4, true)).toBe(stereo.length - 8)
+    expect(ascii(stereo, 8, 4)).toBe('WAVE')
+    expect(ascii(stereo, 12, 4)).toBe('fmt ')
+    expect(view.getUint32(16, true)).toBe(16)
+    expect(view.getUint16(20, true)).toBe(1)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(sampleRate)
+    expect(view.getUint32(28, true)).toBe(sampleRate * 4)
+    expect(view.getUint16(32, true)).toBe(4)
+    expect(view.getUint16(34, true)).toBe(16)
+    expect(ascii(stereo, 36, 4)).toBe('data')
+  })
+
+  it('sizes the data chunk from the sample count', () => {
+    expect(view.getUint32(40, true)).toBe(frames * 2 * 2)
+    expect(stereo.length).toBe(44 + frames * 2 * 2)
+
+    const mono = encodeWav({ sampleRate: 8_000, channels: [new Float32Array(1000)] })
+    expect(viewOf(mono).getUint32(40, true)).toBe(2000)
+    expect(viewOf(mono).getUint16(22, true)).toBe(1)
+    expect(mono.length).toBe(2044)
+  })
+
+  it('interleaves the channels', () => {
+    const bytes = encodeWav({
+      sampleRate,
+      channels: [Float32Array.of(0.5, 0), Float32Array.of(0, -0.5)],
+    })
+    const samples = viewOf(bytes)
+    expect(samples.getInt16(44, true)).toBe(Math.floor(0.5 * 0x7fff))
+    expect(samples.getInt16(46, true)).toBe(0)
+    expect(samples.getInt16(48, true)).toBe(0)
+    expect(samples.getInt16(50, true)).toBe(-0x4000)
+  })
+
+  it('clips samples outside -1..1 instead of wrapping them', () => {
+    const bytes = encodeWav({
+      sampleRate,
+      channels: [Float32Array.of(1, -1, 1.5, -2, 40)],
+    })
+    const samples = viewOf(bytes)
+    expect([0, 1, 2, 3, 4].map((frame) => samples.getInt16(44 + frame * 2, true))).toEqual([
+      32767, -32768, 32767, -32768, 32767,
+    ])
+  })
+})
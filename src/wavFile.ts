@@ -0,0 +1,55 @@
+// 16-bit PCM WAV, the format every DAW and media player opens.
+const BITS_PER_SAMPLE = 16
+const BYTES_PER_SAMPLE = BITS_PER_SAMPLE / 8
+const HEADER_BYTES = 44
+
+export type PcmAudio = {
+  sampleRate: number
+  // One array per channel, all the same length, samples in -1..1.
+  channels: Float32Array[]
+}
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let index = 0; index < text.length; index += 1) {
+    view.setUint8(offset + index, text.charCodeAt(index))
+  }
+}
+
+/**
+ * Encodes float samples as a 16-bit little-endian WAV file. Channels are
+ * interleaved and samples outside -1..1 are clipped rather than wrapped.
+ */
+export const encodeWav = ({ sampleRate, channels }: PcmAudio) => {
+  const channelCount = Math.max(channels.length, 1)
+  const frameCount = channels[0]?.length ?? 0
+  const blockAlign = channelCount * BYTES_PER_SAMPLE
+  const dataBytes = frameCount * blockAlign
+  const bytes = new Uint8Array(HEADER_BYTES + dataBytes)
+  const view = new DataView(bytes.buffer)
+
+  writeAscii(view, 0, 'RIFF')
+  view.setUint32(4, 36 + dataBytes, true)
+  writeAscii(view, 8, 'WAVE')
+  writeAscii(view, 12, 'fmt ')
+  view.setUint32(16, 16, true)
+  // Format 1 is uncompressed PCM.
+  view.setUint16(20, 1, true)
+  view.setUint16(22, channelCount, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, BITS_PER_SAMPLE, true)
+  writeAscii(view, 36, 'data')
+  view.setUint32(40, dataBytes, true)
+
+  let offset = HEADER_BYTES
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    for (let channel = 0; channel < channelCount; channel += 1) {
+      const sample = Math.min(1, Math.max(-1, channels[channel]?.[frame] ?? 0))
+      // Negative samples reach -32768, positive ones stop at 32767.
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+      offset += BYTES_PER_SAMPLE
+    }
+  }
+  return bytes
+}